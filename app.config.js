@@ -0,0 +1,23 @@
+// app.config.js - Build-time additions to app.json that come from the environment
+
+// react-native-maps renders Google Maps on Android, which needs an API key baked into the
+// native build. Without one the map tab falls back to the list (see components/ZoneMapView).
+const googleMapsApiKey = process.env.GOOGLE_MAPS_ANDROID_API_KEY;
+
+module.exports = ({ config }) => ({
+  ...config,
+  android: {
+    ...config.android,
+    ...(googleMapsApiKey && {
+      config: {
+        ...config.android?.config,
+        googleMaps: { apiKey: googleMapsApiKey },
+      },
+    }),
+  },
+  extra: {
+    ...config.extra,
+    // The key itself is kept out of the public config the app can read at runtime
+    googleMapsConfigured: !!googleMapsApiKey,
+  },
+});
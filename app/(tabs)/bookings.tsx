@@ -9,12 +9,19 @@ import {
   Alert,
   ActivityIndicator,
   RefreshControl,
+  Modal,
 } from 'react-native';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
 import GoogleLoginButton from '../../components/GoogleLoginButton';
 import apiService from '../../services/api';
+import { OfflineQueueBanner } from '../../components/OfflineQueueBanner';
+import { useOfflineQueue } from '../../hooks/useOfflineQueue';
+import { BookingQRCode } from '../../components/BookingQRCode';
+import { openBookingDetails } from '../../utils/bookingRoutes';
+import { canReviewBooking } from '../../utils/reviews';
+import { isBookingGuest } from '../../utils/groupBooking';
 
 // Updated interface to match your API response
 interface Booking {
@@ -35,10 +42,15 @@ interface Booking {
   timeSlot: string;
   duration: number;
   totalAmount: number;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+  status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
   paymentStatus: 'pending' | 'paid' | 'refunded' | 'failed';
+  refundAmount?: number;
   qrCode?: string;
   notes?: string;
+  reviewId?: string;
+  /** The booker; bookings the user joined as a guest have someone else here */
+  userId?: any;
+  players?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -53,6 +65,8 @@ export default function BookingsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [filterStatus, setFilterStatus] = useState<FilterStatus>('all');
   const [error, setError] = useState<string | null>(null);
+  const [qrBooking, setQrBooking] = useState<Booking | null>(null);
+  const { results: queueResults } = useOfflineQueue();
 
   const handleGoogleLogin = async (userData: any, token: string, isNewUser: boolean) => {
     console.log('✅ Google login successful in bookings:', userData.email);
@@ -96,6 +110,14 @@ export default function BookingsScreen() {
     filterBookings(filterStatus);
   }, [bookings, filterStatus]);
 
+  // Reload once a queued cancellation has been resolved by the server
+  const lastCancelResult = queueResults.find(result => result.mutation.type === 'cancelBooking');
+  useEffect(() => {
+    if (isLoggedIn && lastCancelResult) {
+      loadBookings();
+    }
+  }, [lastCancelResult?.mutation.id]);
+
   const loadBookings = async () => {
     try {
       setLoading(true);
@@ -160,6 +182,7 @@ export default function BookingsScreen() {
 
   const onRefresh = async () => {
     setRefreshing(true);
+    apiService.invalidateCache(['bookings']);
     await loadBookings();
     setRefreshing(false);
   };
@@ -170,77 +193,13 @@ export default function BookingsScreen() {
   };
 
   const handleBookingPress = (booking: Booking) => {
-    const statusText = booking.status.charAt(0).toUpperCase() + booking.status.slice(1);
-    const paymentText = booking.paymentStatus.charAt(0).toUpperCase() + booking.paymentStatus.slice(1);
-    
-    Alert.alert(
-      booking.zoneId.name,
-      `Reference: ${booking.reference}\nStatus: ${statusText}\nPayment: ${paymentText}\nTotal: $${booking.totalAmount}\n\nDate: ${formatDate(booking.date)}\nTime: ${formatTime(booking.timeSlot)}\nDuration: ${booking.duration} hour${booking.duration > 1 ? 's' : ''}`,
-      [
-        { text: 'OK' },
-        ...(booking.status === 'confirmed' || booking.status === 'pending' ? [
-          { 
-            text: 'Cancel Booking', 
-            style: 'destructive', 
-            onPress: () => handleCancelBooking(booking._id) 
-          }
-        ] : []),
-        ...(booking.qrCode ? [
-          { 
-            text: 'View QR Code', 
-            onPress: () => showQRCode(booking.qrCode!) 
-          }
-        ] : [])
-      ]
-    );
-  };
-
-  const handleCancelBooking = async (bookingId: string) => {
-    Alert.alert(
-      'Cancel Booking',
-      'Are you sure you want to cancel this booking? Cancellation policies may apply.',
-      [
-        { text: 'No', style: 'cancel' },
-        { 
-          text: 'Yes, Cancel', 
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              setLoading(true);
-              
-              const response = await apiService.cancelBooking(bookingId);
-              
-              Alert.alert('Success', response.message || 'Booking cancelled successfully');
-              
-              // Refresh bookings list
-              await loadBookings();
-              
-            } catch (error) {
-              console.error('Cancel booking error:', error);
-              Alert.alert(
-                'Cancellation Failed',
-                'We couldn\'t cancel your booking. Please try again or contact support.'
-              );
-            } finally {
-              setLoading(false);
-            }
-          }
-        }
-      ]
-    );
-  };
-
-  const showQRCode = (qrCode: string) => {
-    Alert.alert(
-      'QR Code',
-      `Your booking QR code: ${qrCode}\n\nShow this QR code at the gaming zone for quick check-in.`,
-      [{ text: 'OK' }]
-    );
+    openBookingDetails(booking._id);
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return '#10b981';
+      case 'in_progress': return '#0ea5e9';
       case 'completed': return '#6366f1';
       case 'cancelled': return '#ef4444';
       case 'pending': return '#f59e0b';
@@ -251,6 +210,7 @@ export default function BookingsScreen() {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'confirmed': return 'checkmark-circle';
+      case 'in_progress': return 'play-circle';
       case 'completed': return 'checkmark-done-circle';
       case 'cancelled': return 'close-circle';
       case 'pending': return 'time';
@@ -294,7 +254,7 @@ export default function BookingsScreen() {
             size={12} 
             color="white" 
           />
-          <Text style={styles.statusText}>{booking.status.toUpperCase()}</Text>
+          <Text style={styles.statusText}>{booking.status.replace('_', ' ').toUpperCase()}</Text>
         </View>
       </View>
       
@@ -311,7 +271,12 @@ export default function BookingsScreen() {
         </View>
         <View style={styles.detailRow}>
           <Ionicons name="card" size={16} color="#64748b" />
-          <Text style={styles.detailText}>${booking.totalAmount}</Text>
+          <Text style={styles.detailText}>
+            ${booking.totalAmount}
+            {booking.paymentStatus === 'refunded' && booking.refundAmount !== undefined
+              ? ` • Refunded $${booking.refundAmount}`
+              : ''}
+          </Text>
         </View>
         <View style={styles.detailRow}>
           <Ionicons name="location" size={16} color="#64748b" />
@@ -326,11 +291,34 @@ export default function BookingsScreen() {
             <Text style={styles.upcomingText}>Upcoming</Text>
           </View>
         )}
-        {booking.qrCode && (
-          <View style={styles.qrBadge}>
+        {isBookingGuest(booking, user?._id) && (
+          <View style={styles.guestBadge}>
+            <Text style={styles.guestText}>Guest</Text>
+          </View>
+        )}
+        {isUpcoming(booking.date) && (booking.status === 'confirmed' || booking.status === 'pending') && !isBookingGuest(booking, user?._id) && (
+          <TouchableOpacity
+            style={styles.rescheduleBadge}
+            onPress={() => router.push(`/reschedule/${booking._id}`)}
+          >
+            <Ionicons name="swap-horizontal" size={12} color="#6366f1" />
+            <Text style={styles.qrText}>Reschedule</Text>
+          </TouchableOpacity>
+        )}
+        {canReviewBooking(booking) && (
+          <TouchableOpacity
+            style={styles.rescheduleBadge}
+            onPress={() => router.push({ pathname: '/gamezone/[id]', params: { id: booking.zoneId._id, reviewBookingId: booking._id } })}
+          >
+            <Ionicons name="star-outline" size={12} color="#6366f1" />
+            <Text style={styles.qrText}>Rate Visit</Text>
+          </TouchableOpacity>
+        )}
+        {(booking.status === 'confirmed' || booking.qrCode) && (
+          <TouchableOpacity style={styles.qrBadge} onPress={() => setQrBooking(booking)}>
             <Ionicons name="qr-code" size={12} color="#6366f1" />
             <Text style={styles.qrText}>QR</Text>
-          </View>
+          </TouchableOpacity>
         )}
       </View>
     </TouchableOpacity>
@@ -424,6 +412,8 @@ export default function BookingsScreen() {
         </Text>
       </View>
 
+      <OfflineQueueBanner />
+
       {/* Filter Buttons */}
       <View style={styles.filterContainer}>
         {renderFilterButton('all', 'All', bookings.length)}
@@ -480,6 +470,36 @@ export default function BookingsScreen() {
         }
         showsVerticalScrollIndicator={false}
       />
+
+      {/* Check-in QR */}
+      <Modal
+        visible={!!qrBooking}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setQrBooking(null)}
+      >
+        <View style={styles.qrModalOverlay}>
+          <View style={styles.qrModalContent}>
+            {qrBooking && (
+              <>
+                <Text style={styles.qrModalTitle}>{qrBooking.zoneId.name}</Text>
+                <Text style={styles.qrModalSubtitle}>
+                  {formatDate(qrBooking.date)} • {formatTime(qrBooking.timeSlot)}
+                </Text>
+                <BookingQRCode
+                  bookingId={qrBooking._id}
+                  reference={qrBooking.reference}
+                  qrCode={isBookingGuest(qrBooking, user?._id) ? undefined : qrBooking.qrCode}
+                  size={220}
+                />
+              </>
+            )}
+            <TouchableOpacity style={styles.qrModalClose} onPress={() => setQrBooking(null)}>
+              <Text style={styles.qrModalCloseText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -724,6 +744,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#065f46',
   },
+  guestBadge: {
+    backgroundColor: '#eef2ff',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  guestText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#4338ca',
+  },
   qrBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -732,6 +763,52 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     borderRadius: 8,
   },
+  qrModalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  qrModalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    width: '100%',
+  },
+  qrModalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  qrModalSubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  qrModalClose: {
+    marginTop: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+  qrModalCloseText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  rescheduleBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
   qrText: {
     fontSize: 10,
     fontWeight: '600',
@@ -1,5 +1,5 @@
 // app/(tabs)/gamezone.tsx - Fixed with proper login modal
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,70 +13,124 @@ import {
   RefreshControl,
   Modal,
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
 import GoogleLoginButton from '../../components/GoogleLoginButton';
 import apiService from '../../services/api';
 import type { GameZone } from '../../services/api';
+import { ZoneFilterSheet } from '../../components/ZoneFilterSheet';
+import { LocationPicker } from '../../components/LocationPicker';
+import { ZoneMapView } from '../../components/ZoneMapView';
+import { FavoriteButton } from '../../components/FavoriteButton';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { useUserLocation } from '../../hooks/useUserLocation';
+import { formatDistance, zoneDistanceKm } from '../../utils/location';
+import {
+  DEFAULT_ZONE_FILTERS,
+  SORT_OPTIONS,
+  ZoneFilters,
+  ZoneSort,
+  buildZoneSearchParams,
+  countActiveFilters,
+  loadSavedZoneSearch,
+  saveZoneSearch,
+} from '../../utils/zoneSearch';
+
+interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
 
 export default function GameZonesScreen() {
   const { isLoggedIn, login } = useAuth();
+  const params = useLocalSearchParams<{ view?: string }>();
+  const [viewMode, setViewMode] = useState<'list' | 'map'>(params.view === 'map' ? 'map' : 'list');
   const [gameZones, setGameZones] = useState<GameZone[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredZones, setFilteredZones] = useState<GameZone[]>([]);
+  const [filters, setFilters] = useState<ZoneFilters>(DEFAULT_ZONE_FILTERS);
+  const [sort, setSort] = useState<ZoneSort>('relevance');
+  const [filtersRestored, setFiltersRestored] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const { location, status: locationStatus, requestDeviceLocation, setManualLocation, clear: clearLocation } = useUserLocation();
+  const origin = location?.coords ?? null;
+  const debouncedSearch = useDebouncedValue(searchQuery, 400);
+  // Responses for an older search can land after a newer one; only the latest may update the list
+  const requestIdRef = useRef(0);
+
+  // The home tab links straight to the map
+  useEffect(() => {
+    if (params.view === 'map' || params.view === 'list') {
+      setViewMode(params.view);
+    }
+  }, [params.view]);
 
   useEffect(() => {
-    loadGameZones();
+    loadSavedZoneSearch().then(saved => {
+      if (saved) {
+        setFilters(saved.filters);
+        setSort(saved.sort);
+      }
+      setFiltersRestored(true);
+    });
   }, []);
 
   useEffect(() => {
-    // Filter zones based on search query
-    if (searchQuery.trim() === '') {
-      setFilteredZones(gameZones);
-    } else {
-      const filtered = gameZones.filter(zone =>
-        zone.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        zone.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        zone.location.address.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredZones(filtered);
+    if (filtersRestored) {
+      loadGameZones(1);
     }
-  }, [searchQuery, gameZones]);
+  }, [debouncedSearch, filters, sort, filtersRestored, origin]);
 
-  const loadGameZones = async () => {
-    try {
-      setLoading(true);
-      console.log('🎮 Loading game zones...');
-      
-      // Use direct fetch since it works
-      const response = await fetch('https://gamezone-production.up.railway.app/api/gamezones?limit=50');
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  // Pick up fresh data when a stale cached first page was revalidated in the background
+  const currentPageRef = useRef(1);
+  useEffect(() => {
+    const handleCacheUpdate = (tags: string[]) => {
+      if (tags.includes('gamezones') && currentPageRef.current === 1) {
+        loadGameZones(1, false);
       }
+    };
+
+    apiService.addCacheUpdateListener(handleCacheUpdate);
+    return () => apiService.removeCacheUpdateListener(handleCacheUpdate);
+  }, [debouncedSearch, filters, sort, origin]);
+
+  const loadGameZones = async (page: number = 1, showSpinner: boolean = true) => {
+    const requestId = ++requestIdRef.current;
+    try {
+      if (page === 1 && showSpinner) setLoading(true);
+      if (page > 1) setLoadingMore(true);
+      console.log('🎮 Loading game zones, page', page);
       
-      const data = await response.json();
-      console.log('🔧 Direct fetch data:', data);
-      
-      let zones = data["gamezones"] || Object.values(data)[0] || [];
+      // Served from the persisted cache when available, so cold starts render immediately
+      const response = await apiService.getGameZones(
+        buildZoneSearchParams({ search: debouncedSearch, filters, sort, page, origin })
+      );
+      if (requestId !== requestIdRef.current) return;
       
-      // If still empty, try to find the array in the object
-      if (!Array.isArray(zones) || zones.length === 0) {
-        for (const key in data) {
-          if (Array.isArray(data[key]) && data[key].length > 0) {
-            zones = data[key];
-            break;
-          }
-        }
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to load gaming zones');
       }
       
-      setGameZones(zones);
+      currentPageRef.current = page;
+      setPagination(response.pagination);
+      setGameZones(current => {
+        if (page === 1) return response.gameZones;
+        // Listings can shift between pages; don't show a zone twice
+        const seen = new Set(current.map(zone => zone._id));
+        return [...current, ...response.gameZones.filter((zone: GameZone) => !seen.has(zone._id))];
+      });
       
     } catch (error) {
+      if (requestId !== requestIdRef.current) return;
       console.error('❌ Load gamezones error:', error);
       Alert.alert(
         'Error',
@@ -84,16 +138,56 @@ export default function GameZonesScreen() {
         [{ text: 'OK' }]
       );
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
+  const loadMore = () => {
+    if (loading || loadingMore || refreshing || !pagination?.hasNext) return;
+    loadGameZones(pagination.currentPage + 1);
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadGameZones();
+    apiService.invalidateCache(['gamezones']);
+    await loadGameZones(1);
     setRefreshing(false);
   };
 
+  const handleApplyFilters = (nextFilters: ZoneFilters, nextSort: ZoneSort) => {
+    setShowFilters(false);
+    setFilters(nextFilters);
+    setSort(nextSort);
+    saveZoneSearch(nextFilters, nextSort);
+  };
+
+  const handleUseDeviceLocation = async () => {
+    if (await requestDeviceLocation()) {
+      setShowLocationPicker(false);
+    }
+  };
+
+  const handleSubmitPlace = async (query: string) => {
+    if (await setManualLocation(query)) {
+      setShowLocationPicker(false);
+    }
+  };
+
+  const handleClearLocation = () => {
+    clearLocation();
+    setShowLocationPicker(false);
+  };
+
+  const handleClearFilters = () => {
+    handleApplyFilters(DEFAULT_ZONE_FILTERS, 'relevance');
+  };
+
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = !!debouncedSearch.trim() || activeFilterCount > 0;
+
   const handleGoogleLogin = async (userData: any, token: string, isNewUser: boolean) => {
     console.log('✅ Google login successful in gamezone:', userData.email);
     
@@ -137,89 +231,103 @@ export default function GameZonesScreen() {
     setShowLoginModal(true);
   };
 
-  const renderZoneCard = ({ item: zone }: { item: GameZone }) => (
-    <TouchableOpacity
-      style={styles.zoneCard}
-      onPress={() => handleZonePress(zone)}
-      activeOpacity={0.7}
-    >
-      <Image
-        source={{ 
-          uri: zone.images[0] || 'https://images.unsplash.com/photo-1511512578047-dfb367046420?w=400&auto=format&fit=crop&q=60'
-        }}
-        style={styles.zoneImage}
-        resizeMode="cover"
-      />
-      <View style={styles.zoneInfo}>
-        <View style={styles.zoneHeader}>
-          <Text style={styles.zoneName} numberOfLines={1}>
-            {zone.name}
-          </Text>
-          <View style={styles.ratingContainer}>
-            <Ionicons name="star" size={16} color="#f59e0b" />
-            <Text style={styles.rating}>{zone.rating}</Text>
+  const renderZoneCard = ({ item: zone }: { item: GameZone }) => {
+    const distance = zoneDistanceKm(origin, zone);
+    return (
+      <TouchableOpacity
+        style={styles.zoneCard}
+        onPress={() => handleZonePress(zone)}
+        activeOpacity={0.7}
+      >
+        <Image
+          source={{ 
+            uri: zone.images[0] || 'https://images.unsplash.com/photo-1511512578047-dfb367046420?w=400&auto=format&fit=crop&q=60'
+          }}
+          style={styles.zoneImage}
+          resizeMode="cover"
+        />
+        <FavoriteButton zone={zone} style={styles.favoriteButton} />
+        <View style={styles.zoneInfo}>
+          <View style={styles.zoneHeader}>
+            <Text style={styles.zoneName} numberOfLines={1}>
+              {zone.name}
+            </Text>
+            <View style={styles.ratingContainer}>
+              <Ionicons name="star" size={16} color="#f59e0b" />
+              <Text style={styles.rating}>{zone.rating}</Text>
+            </View>
           </View>
-        </View>
-        
-        <Text style={styles.zoneDescription} numberOfLines={2}>
-          {zone.description}
-        </Text>
         
-        <View style={styles.zoneLocation}>
-          <Ionicons name="location-outline" size={14} color="#64748b" />
-          <Text style={styles.locationText} numberOfLines={1}>
-            {zone.location.address}
+          <Text style={styles.zoneDescription} numberOfLines={2}>
+            {zone.description}
           </Text>
-        </View>
         
-        <View style={styles.zoneAmenities}>
-          {zone.amenities.slice(0, 3).map((amenity, index) => (
-            <View key={index} style={styles.amenityTag}>
-              <Text style={styles.amenityText}>{amenity}</Text>
-            </View>
-          ))}
-          {zone.amenities.length > 3 && (
-            <View style={styles.amenityTag}>
-              <Text style={styles.amenityText}>+{zone.amenities.length - 3}</Text>
-            </View>
-          )}
-        </View>
+          <View style={styles.zoneLocation}>
+            <Ionicons name="location-outline" size={14} color="#64748b" />
+            <Text style={styles.locationText} numberOfLines={1}>
+              {zone.location.address}
+            </Text>
+            {distance !== null && (
+              <Text style={styles.distanceText}>{formatDistance(distance)}</Text>
+            )}
+          </View>
         
-        <View style={styles.zoneFooter}>
-          <View style={styles.priceContainer}>
-            <Text style={styles.price}>${zone.pricePerHour}</Text>
-            <Text style={styles.priceUnit}>/hour</Text>
+          <View style={styles.zoneAmenities}>
+            {zone.amenities.slice(0, 3).map((amenity, index) => (
+              <View key={index} style={styles.amenityTag}>
+                <Text style={styles.amenityText}>{amenity}</Text>
+              </View>
+            ))}
+            {zone.amenities.length > 3 && (
+              <View style={styles.amenityTag}>
+                <Text style={styles.amenityText}>+{zone.amenities.length - 3}</Text>
+              </View>
+            )}
           </View>
-          <View style={styles.capacityContainer}>
-            <Ionicons name="people-outline" size={16} color="#64748b" />
-            <Text style={styles.capacity}>{zone.capacity} people</Text>
+        
+          <View style={styles.zoneFooter}>
+            <View style={styles.priceContainer}>
+              <Text style={styles.price}>${zone.pricePerHour}</Text>
+              <Text style={styles.priceUnit}>/hour</Text>
+            </View>
+            <View style={styles.capacityContainer}>
+              <Ionicons name="people-outline" size={16} color="#64748b" />
+              <Text style={styles.capacity}>{zone.capacity} people</Text>
+            </View>
           </View>
         </View>
-      </View>
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Ionicons name="game-controller-outline" size={64} color="#d1d5db" />
       <Text style={styles.emptyTitle}>
-        {searchQuery ? 'No matching zones found' : 'No gaming zones available'}
+        {isFiltered ? 'No matching zones found' : 'No gaming zones available'}
       </Text>
       <Text style={styles.emptyDescription}>
-        {searchQuery 
-          ? 'Try adjusting your search terms'
+        {isFiltered 
+          ? 'Try adjusting your search or filters'
           : 'Check back later for new gaming zones'
         }
       </Text>
-      {!searchQuery && (
-        <TouchableOpacity style={styles.retryButton} onPress={loadGameZones}>
+      {isFiltered ? (
+        activeFilterCount > 0 && (
+          <TouchableOpacity style={styles.retryButton} onPress={handleClearFilters}>
+            <Text style={styles.retryText}>Clear Filters</Text>
+          </TouchableOpacity>
+        )
+      ) : (
+        <TouchableOpacity style={styles.retryButton} onPress={() => loadGameZones(1)}>
           <Text style={styles.retryText}>Retry</Text>
         </TouchableOpacity>
       )}
     </View>
   );
 
-  if (loading && !refreshing) {
+  // Later searches keep the list (and the search field) mounted while they load
+  if (!filtersRestored || (loading && !refreshing && gameZones.length === 0 && !isFiltered)) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#6366f1" />
@@ -279,7 +387,7 @@ export default function GameZonesScreen() {
         <View style={styles.header}>
           <Text style={styles.headerTitle}>Gaming Zones</Text>
           <Text style={styles.headerSubtitle}>
-            {filteredZones.length} zone{filteredZones.length !== 1 ? 's' : ''} available
+            {(pagination?.totalItems || gameZones.length)} zone{(pagination?.totalItems || gameZones.length) !== 1 ? 's' : ''} {isFiltered ? 'found' : 'available'}
           </Text>
         </View>
 
@@ -299,23 +407,91 @@ export default function GameZonesScreen() {
               </TouchableOpacity>
             )}
           </View>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+          >
+            <Ionicons name={viewMode === 'list' ? 'map-outline' : 'list-outline'} size={22} color="#6366f1" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(true)}>
+            <Ionicons name="options-outline" size={22} color="#6366f1" />
+            {activeFilterCount > 0 && (
+              <View style={styles.filterBadge}>
+                <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
         </View>
 
-        <FlatList
-          data={filteredZones}
-          renderItem={renderZoneCard}
-          keyExtractor={(item) => item._id}
-          contentContainerStyle={styles.listContainer}
-          refreshControl={
-            <RefreshControl
-              refreshing={refreshing}
-              onRefresh={onRefresh}
-              colors={['#6366f1']}
-              tintColor="#6366f1"
-            />
-          }
-          ListEmptyComponent={renderEmptyState}
-          showsVerticalScrollIndicator={false}
+        <TouchableOpacity style={styles.locationBar} onPress={() => setShowLocationPicker(true)}>
+          <Ionicons name={location ? 'location' : 'location-outline'} size={16} color="#6366f1" />
+          <Text style={styles.locationBarText} numberOfLines={1}>
+            {location ? `Near ${location.label}` : 'Set your location to see zones near you'}
+          </Text>
+          <Text style={styles.locationBarAction}>{location ? 'Change' : 'Set'}</Text>
+        </TouchableOpacity>
+
+        {(activeFilterCount > 0 || sort !== 'relevance') && (
+          <View style={styles.activeFiltersRow}>
+            <Text style={styles.activeFiltersText} numberOfLines={1}>
+              {SORT_OPTIONS.find(option => option.value === sort)?.label}
+              {activeFilterCount > 0 ? ` • ${activeFilterCount} filter${activeFilterCount !== 1 ? 's' : ''}` : ''}
+            </Text>
+            <TouchableOpacity onPress={handleClearFilters}>
+              <Text style={styles.clearFiltersText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {viewMode === 'map' ? (
+          <ZoneMapView
+            search={debouncedSearch}
+            filters={filters}
+            sort={sort}
+            origin={origin}
+            onZonePress={handleZonePress}
+          />
+        ) : (
+          <FlatList
+            data={gameZones}
+            renderItem={renderZoneCard}
+            keyExtractor={(item) => item._id}
+            contentContainerStyle={styles.listContainer}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                colors={['#6366f1']}
+                tintColor="#6366f1"
+              />
+            }
+            ListEmptyComponent={
+              loading ? <ActivityIndicator style={styles.listFooter} color="#6366f1" /> : renderEmptyState
+            }
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator style={styles.listFooter} color="#6366f1" /> : null
+            }
+            showsVerticalScrollIndicator={false}
+          />
+        )}
+        <ZoneFilterSheet
+          visible={showFilters}
+          filters={filters}
+          sort={sort}
+          distanceAvailable={!!origin}
+          onApply={handleApplyFilters}
+          onClose={() => setShowFilters(false)}
+        />
+        <LocationPicker
+          visible={showLocationPicker}
+          location={location}
+          status={locationStatus}
+          onUseDevice={handleUseDeviceLocation}
+          onSubmitPlace={handleSubmitPlace}
+          onClear={handleClearLocation}
+          onClose={() => setShowLocationPicker(false)}
         />
       </View>      {/* Google Login Modal - Only needed when logged in for other interactions */}
       <Modal
@@ -469,12 +645,15 @@ const styles = StyleSheet.create({
     color: '#6b7280',
   },
   searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: 16,
     backgroundColor: 'white',
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
   searchInputContainer: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     backgroundColor: '#f3f4f6',
@@ -488,6 +667,72 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1f2937',
   },
+  filterButton: {
+    marginLeft: 12,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#eef2ff',
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#6366f1',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  filterBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  locationBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  locationBarText: {
+    flex: 1,
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#374151',
+  },
+  locationBarAction: {
+    marginLeft: 12,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  activeFiltersRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#eef2ff',
+  },
+  activeFiltersText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#4338ca',
+  },
+  clearFiltersText: {
+    marginLeft: 12,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  listFooter: {
+    marginVertical: 20,
+  },
   listContainer: {
     padding: 16,
   },
@@ -506,6 +751,11 @@ const styles = StyleSheet.create({
     width: '100%',
     height: 200,
   },
+  favoriteButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+  },
   zoneInfo: {
     padding: 16,
   },
@@ -553,6 +803,12 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#64748b',
   },
+  distanceText: {
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
   zoneAmenities: {
     flexDirection: 'row',
     flexWrap: 'wrap',
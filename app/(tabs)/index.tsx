@@ -1,5 +1,5 @@
 // app/(tabs)/index.tsx - Updated Home Screen with Real Stats
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,10 +9,13 @@ import {
   ActivityIndicator,
   RefreshControl,
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import UserProfileHeader from '../../components/AuthHeader';
+import { ZoneSummaryList } from '../../components/ZoneSummaryList';
+import { FavoriteButton } from '../../components/FavoriteButton';
 import { useAuth } from '../../contexts/AuthContext';
 import apiService from '../../services/api';
+import { ZoneSummary, clearRecentZones, loadRecentZones } from '../../utils/savedZones';
 
 interface GameZone {
   _id: string;
@@ -47,11 +50,35 @@ export default function HomeScreen() {
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [recentZones, setRecentZones] = useState<ZoneSummary[]>([]);
 
   useEffect(() => {
     loadHomeData();
   }, []);
 
+  // Zone details records each visit; pick them up when returning to the tab
+  useFocusEffect(
+    useCallback(() => {
+      loadRecentZones().then(setRecentZones);
+    }, [])
+  );
+
+  const handleClearRecent = async () => {
+    await clearRecentZones();
+    setRecentZones([]);
+  };
+
+  // Cached zones/stats render instantly; refresh the sections once background revalidation lands
+  useEffect(() => {
+    const handleCacheUpdate = (tags: string[]) => {
+      if (tags.includes('gamezones')) loadGameZones();
+      if (tags.includes('stats')) loadAppStats();
+    };
+
+    apiService.addCacheUpdateListener(handleCacheUpdate);
+    return () => apiService.removeCacheUpdateListener(handleCacheUpdate);
+  }, []);
+
   const loadHomeData = async () => {
     try {
       setLoading(true);
@@ -210,6 +237,7 @@ export default function HomeScreen() {
 
   const onRefresh = async () => {
     setRefreshing(true);
+    apiService.invalidateCache(['gamezones', 'stats']);
     await loadHomeData();
     setRefreshing(false);
   };
@@ -274,6 +302,21 @@ export default function HomeScreen() {
           </View>
         </View>
 
+        {/* Recently Viewed Section */}
+        {recentZones.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>👀 Recently Viewed</Text>
+              <TouchableOpacity onPress={handleClearRecent}>
+                <Text style={styles.seeAllText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.recentList}>
+              <ZoneSummaryList zones={recentZones} showFavoriteButton />
+            </View>
+          </View>
+        )}
+
         {/* Featured Gaming Zones Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -297,9 +340,12 @@ export default function HomeScreen() {
                   onPress={() => handleGameZonePress(gameZone)}
                 >
                   <View style={styles.gameZoneInfo}>
-                    <Text style={styles.gameZoneName} numberOfLines={1}>
-                      {gameZone.name}
-                    </Text>
+                    <View style={styles.gameZoneTitleRow}>
+                      <Text style={[styles.gameZoneName, styles.gameZoneNameFlex]} numberOfLines={1}>
+                        {gameZone.name}
+                      </Text>
+                      <FavoriteButton zone={gameZone} size={20} />
+                    </View>
                     <Text style={styles.gameZoneDescription} numberOfLines={2}>
                       {gameZone.description}
                     </Text>
@@ -352,6 +398,17 @@ export default function HomeScreen() {
                   Find gaming zones near you
                 </Text>
               </TouchableOpacity>
+
+              <TouchableOpacity 
+                style={styles.actionCard}
+                onPress={() => router.push({ pathname: '/(tabs)/gamezone', params: { view: 'map' } })}
+              >
+                <Text style={styles.actionIcon}>🗺️</Text>
+                <Text style={styles.actionTitle}>Zone Map</Text>
+                <Text style={styles.actionDescription}>
+                  See zones on a map
+                </Text>
+              </TouchableOpacity>
               
               <TouchableOpacity 
                 style={styles.actionCard}
@@ -475,6 +532,10 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 24,
   },
+  recentList: {
+    // Let the strip scroll edge to edge past the content padding
+    marginHorizontal: -20,
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -529,6 +590,14 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     marginBottom: 4,
   },
+  gameZoneTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  gameZoneNameFlex: {
+    flex: 1,
+    marginRight: 8,
+  },
   gameZoneDescription: {
     fontSize: 14,
     color: '#6b7280',
@@ -16,6 +16,8 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useNotifications } from '../../contexts/NotificationContext';
 import { NotificationData } from '../../services/NotificationService';
+import { OfflineQueueBanner } from '../../components/OfflineQueueBanner';
+import { openBookingDetails } from '../../utils/bookingRoutes';
 
 type FilterType = 'all' | 'unread' | 'booking' | 'payment' | 'zone' | 'system';
 
@@ -82,11 +84,8 @@ export default function NotificationsScreen() {
         case 'booking_created':
         case 'booking_confirmed':
         case 'booking_cancelled':
-          if (notification.data.bookingId) {
-            router.push(`/booking/${notification.data.bookingId}`);
-          } else {
-            router.push('/(tabs)/bookings');
-          }
+        case 'booking_updated':
+          openBookingDetails(notification.data.bookingId);
           break;
         case 'zone_update':
           if (notification.data.zoneId) {
@@ -143,7 +142,13 @@ export default function NotificationsScreen() {
       const response = await executeAction(notificationId, actionType);
       
       // Handle the action response
-      if (response.action) {
+      if (response.queued) {
+        Alert.alert(
+          'Action Queued',
+          'You appear to be offline. This action will be sent once you\'re back online.',
+          [{ text: 'OK' }]
+        );
+      } else if (response.action) {
         Alert.alert(
           'Action Completed',
           `${response.action.label} executed successfully`,
@@ -246,6 +251,8 @@ export default function NotificationsScreen() {
         return 'checkmark-circle';
       case 'booking_cancelled':
         return 'close-circle';
+      case 'booking_updated':
+        return 'swap-horizontal';
       case 'payment_success':
         return 'card';
       case 'payment_failed':
@@ -266,6 +273,8 @@ export default function NotificationsScreen() {
         return '#10b981';
       case 'booking_cancelled':
         return '#ef4444';
+      case 'booking_updated':
+        return '#f59e0b';
       case 'payment_success':
         return '#10b981';
       case 'payment_failed':
@@ -386,6 +395,8 @@ export default function NotificationsScreen() {
         </TouchableOpacity>
       </View>
 
+      <OfflineQueueBanner />
+
       {/* Filters */}
       <View style={styles.filtersContainer}>
         {renderFilterButton('all', 'All', notifications.length)}
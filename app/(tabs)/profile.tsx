@@ -16,11 +16,14 @@ import {
 } from 'react-native';
 import { router } from 'expo-router';
 import { useAuth } from '../../contexts/AuthContext';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { ZoneSummaryList } from '../../components/ZoneSummaryList';
 import GoogleLoginButton from '../../components/GoogleLoginButton';
 import apiService from '../../services/api';
 
 export default function ProfileScreen() {
   const { user, isLoggedIn, isLoading, login, logout, refreshUserData } = useAuth();
+  const { favorites, isLoading: favoritesLoading, refreshFavorites } = useFavorites();
   const [refreshing, setRefreshing] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
 
@@ -138,7 +141,7 @@ export default function ProfileScreen() {
     setRefreshing(true);
     try {
       console.log('🔄 Refreshing profile data...');
-      await refreshUserData();
+      await Promise.all([refreshUserData(), refreshFavorites()]);
       console.log('✅ Profile data refreshed');
     } catch (error) {
       console.error('❌ Error refreshing profile:', error);
@@ -284,6 +287,28 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Favorites */}
+        <View style={styles.favoritesSection}>
+          <View style={styles.favoritesHeader}>
+            <Text style={styles.favoritesTitle}>❤️ Favorites</Text>
+            {favorites.length > 0 && (
+              <Text style={styles.favoritesCount}>{favorites.length}</Text>
+            )}
+          </View>
+          {favoritesLoading && favorites.length === 0 ? (
+            <ActivityIndicator color="#6366f1" style={styles.favoritesLoading} />
+          ) : favorites.length > 0 ? (
+            <ZoneSummaryList zones={favorites} showFavoriteButton />
+          ) : (
+            <TouchableOpacity style={styles.favoritesEmpty} onPress={() => router.push('/(tabs)/gamezone')}>
+              <Text style={styles.favoritesEmptyText}>
+                Tap the ♡ on a gaming zone to save it here.
+              </Text>
+              <Text style={styles.favoritesEmptyLink}>Browse zones ›</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
         {/* Menu Options */}
         <View style={styles.menuSection}>
           {/* Booking History */}
@@ -568,6 +593,46 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#9ca3af',
   },
+  favoritesSection: {
+    marginBottom: 20,
+  },
+  favoritesHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  favoritesTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  favoritesCount: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  favoritesLoading: {
+    marginVertical: 20,
+  },
+  favoritesEmpty: {
+    backgroundColor: '#ffffff',
+    marginHorizontal: 20,
+    borderRadius: 16,
+    padding: 20,
+    alignItems: 'center',
+  },
+  favoritesEmptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  favoritesEmptyLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
   menuSection: {
     backgroundColor: '#ffffff',
     marginHorizontal: 20,
@@ -1,33 +1,43 @@
-// app/_layout.tsx - Root layout with AuthProvider and NotificationProvider
+// app/_layout.tsx - Root layout with AuthProvider, NotificationProvider and FavoritesProvider
 import React from 'react';
 import { Stack } from 'expo-router';
 import { AuthProvider } from '../contexts/AuthContext';
 import { NotificationProvider } from '../contexts/NotificationContext';
+import { FavoritesProvider } from '../contexts/FavoritesContext';
 
 export default function RootLayout() {
   return (
     <AuthProvider>
       <NotificationProvider>
-        <Stack
-          screenOptions={{
-            headerShown: false,
-          }}
-        >
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="login" options={{ headerShown: false }} />
-          <Stack.Screen name="vendor" options={{ headerShown: false }} />
-          <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
-          <Stack.Screen name="booking/[id]" options={{ headerShown: false }} />
-          <Stack.Screen name="gamezone/[id]" options={{ headerShown: false }} />
-          <Stack.Screen name="payment" options={{ headerShown: false }} />
-          <Stack.Screen name="booking-confirmation" options={{ headerShown: false }} />
-          <Stack.Screen name="booking-success" options={{ headerShown: false }} />
-          <Stack.Screen name="book-now" options={{ headerShown: false }} />
-          <Stack.Screen name="notifications" options={{ headerShown: false }} />
-          <Stack.Screen name="vendor/notifications" options={{ headerShown: false }} />
-          <Stack.Screen name="not-found" options={{ headerShown: false }} />
-          <Stack.Screen name="_sitemap" options={{ headerShown: false }} />
-        </Stack>
+        <FavoritesProvider>
+          <Stack
+            screenOptions={{
+              headerShown: false,
+            }}
+          >
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="login" options={{ headerShown: false }} />
+            <Stack.Screen name="signup" options={{ headerShown: false }} />
+            <Stack.Screen name="forgot-password" options={{ headerShown: false }} />
+            <Stack.Screen name="reset-password" options={{ headerShown: false }} />
+            <Stack.Screen name="vendor" options={{ headerShown: false }} />
+            <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+            <Stack.Screen name="booking/[id]" options={{ headerShown: false }} />
+            <Stack.Screen name="gamezone/[id]" options={{ headerShown: false }} />
+            <Stack.Screen name="payment" options={{ headerShown: false }} />
+            <Stack.Screen name="booking-confirmation" options={{ headerShown: false }} />
+            <Stack.Screen name="booking-success" options={{ headerShown: false }} />
+            <Stack.Screen name="booking-failed" options={{ headerShown: false }} />
+            <Stack.Screen name="booking-details/[id]" options={{ headerShown: false }} />
+            <Stack.Screen name="reschedule/[id]" options={{ headerShown: false }} />
+            <Stack.Screen name="invite/[code]" options={{ headerShown: false }} />
+            <Stack.Screen name="book-now" options={{ headerShown: false }} />
+            <Stack.Screen name="notifications" options={{ headerShown: false }} />
+            <Stack.Screen name="vendor/notifications" options={{ headerShown: false }} />
+            <Stack.Screen name="not-found" options={{ headerShown: false }} />
+            <Stack.Screen name="_sitemap" options={{ headerShown: false }} />
+          </Stack>
+        </FavoritesProvider>
       </NotificationProvider>
     </AuthProvider>
   );
@@ -13,6 +13,17 @@ import {
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
+import { useAvailability } from '../hooks/useAvailability';
+import {
+  MAX_BOOKING_HOURS,
+  SlotAvailability,
+  maxDurationFrom,
+  validateBookingWindow,
+} from '../utils/availability';
+import apiService, { SlotHold } from '../services/api';
+import { ConflictError, getErrorMessage } from '../services/apiErrors';
+import { PricingRules, fetchPricingRules, normalizePricingRules, quoteBooking } from '../utils/pricing';
+import { PriceBreakdown } from '../components/PriceBreakdown';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -28,6 +39,18 @@ export default function BookNowScreen() {
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [selectedTime, setSelectedTime] = useState<string>('');
   const [selectedDuration, setSelectedDuration] = useState<number>(1);
+  const [checkingAvailability, setCheckingAvailability] = useState(false);
+  const [players, setPlayers] = useState(1);
+  // Flat rate from the route params until the zone's own rules load
+  const [pricingRules, setPricingRules] = useState<PricingRules>(() =>
+    normalizePricingRules(undefined, parseFloat(pricePerHour || '0'))
+  );
+  const {
+    availability,
+    loading: loadingSlots,
+    error: slotsError,
+    refresh: refreshAvailability,
+  } = useAvailability(zoneId, selectedDate);
 
   useEffect(() => {
     // Set default date to today
@@ -36,6 +59,12 @@ export default function BookNowScreen() {
     setSelectedDate(dateString);
   }, []);
 
+  useEffect(() => {
+    if (zoneId) {
+      fetchPricingRules(zoneId, parseFloat(pricePerHour || '0')).then(setPricingRules);
+    }
+  }, [zoneId]);
+
   const generateDates = () => {
     const dates = [];
     const today = new Date();
@@ -49,13 +78,39 @@ export default function BookNowScreen() {
     return dates;
   };
 
-  const generateTimeSlots = () => {
-    const slots = [];
-    for (let hour = 9; hour <= 22; hour++) {
-      const timeSlot = `${hour.toString().padStart(2, '0')}:00`;
-      slots.push(timeSlot);
+  // Longest session that fits from the selected start before a full slot or closing time
+  const maxDuration = availability && selectedTime
+    ? maxDurationFrom(availability, selectedTime)
+    : MAX_BOOKING_HOURS;
+
+  // Drop selections that fresh availability no longer allows
+  useEffect(() => {
+    if (!availability || !selectedTime) return;
+
+    const slot = availability.slots.find(item => item.time === selectedTime);
+    if (!slot?.isAvailable) {
+      setSelectedTime('');
+    } else if (selectedDuration > maxDuration) {
+      setSelectedDuration(Math.max(1, maxDuration));
+    }
+  }, [availability]);
+
+  const handleSelectTime = (slot: SlotAvailability) => {
+    if (!isLoggedIn || !slot.isAvailable) return;
+    setSelectedTime(slot.time);
+    if (availability) {
+      const fits = maxDurationFrom(availability, slot.time);
+      if (selectedDuration > fits) {
+        setSelectedDuration(Math.max(1, fits));
+      }
     }
-    return slots;
+  };
+
+  const getSlotLabel = (slot: SlotAvailability) => {
+    if (slot.isPast) return 'Past';
+    if (slot.remaining <= 0) return 'Full';
+    if (slot.capacity > 1) return `${slot.remaining} left`;
+    return null;
   };
 
   const formatDate = (date: Date) => {
@@ -74,12 +129,17 @@ export default function BookNowScreen() {
     return `${displayHour}:${minutes} ${ampm}`;
   };
 
-  const calculateTotal = () => {
-    const price = parseFloat(pricePerHour || '0');
-    return price * selectedDuration;
-  };
+  const quoteFor = (hours: number) =>
+    quoteBooking(
+      { date: selectedDate, timeSlot: selectedTime || availability?.slots[0]?.time || '00:00', duration: hours, players },
+      pricingRules
+    );
+  const quote = selectedDate ? quoteFor(selectedDuration) : null;
+  const atMaxPlayers = !!pricingRules.perPlayer?.maxPlayers && players >= pricingRules.perPlayer.maxPlayers;
+
+  const calculateTotal = () => quote?.total ?? 0;
 
-  const handleContinueToPayment = () => {
+  const handleContinueToPayment = async () => {
     if (!isLoggedIn) {
       Alert.alert(
         'Login Required',
@@ -97,14 +157,49 @@ export default function BookNowScreen() {
       return;
     }
 
+    if (availability) {
+      const check = validateBookingWindow(availability, selectedTime, selectedDuration);
+      if (!check.valid) {
+        Alert.alert('Time Not Available', check.reason);
+        return;
+      }
+    }
+
+    // Reserve the slot so nobody else can take it while we pay
+    let hold: SlotHold;
+    try {
+      setCheckingAvailability(true);
+      hold = await apiService.createSlotHold({
+        zoneId: zoneId,
+        date: selectedDate,
+        timeSlot: selectedTime,
+        duration: selectedDuration,
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        Alert.alert('Time No Longer Available', 'Someone just booked part of this time. Please pick another slot.');
+        refreshAvailability();
+        return;
+      }
+      console.error('❌ Slot hold failed:', error);
+      Alert.alert('Connection Problem', getErrorMessage(error, 'We couldn\'t reserve this time. Please try again.'));
+      return;
+    } finally {
+      setCheckingAvailability(false);
+    }
+
     const bookingData = {
       zoneId,
       zoneName,
       date: selectedDate,
       timeSlot: selectedTime,
       duration: selectedDuration,
+      players: pricingRules.perPlayer ? players : undefined,
       totalAmount: calculateTotal(),
-      pricePerHour: parseFloat(pricePerHour || '0')
+      pricePerHour: parseFloat(pricePerHour || '0'),
+      priceBreakdown: quote,
+      holdId: hold.id,
+      holdExpiresAt: hold.expiresAt,
     };
 
     router.push({
@@ -207,32 +302,51 @@ export default function BookNowScreen() {
         {/* Select Time */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>🕐 Select Time</Text>
-          <View style={styles.timeGrid}>
-            {generateTimeSlots().map((time) => {
-              const isSelected = selectedTime === time;
-              
-              return (
-                <TouchableOpacity
-                  key={time}
-                  style={[
-                    styles.timeButton,
-                    isSelected && styles.selectedTimeButton,
-                    !isLoggedIn && styles.disabledButton
-                  ]}
-                  onPress={() => isLoggedIn && setSelectedTime(time)}
-                  disabled={!isLoggedIn}
-                >
-                  <Text style={[
-                    styles.timeText,
-                    isSelected && styles.selectedTimeText,
-                    !isLoggedIn && styles.disabledText
-                  ]}>
-                    {formatTime(time)}
-                  </Text>
-                </TouchableOpacity>
-              );
-            })}
-          </View>
+          {loadingSlots && !availability ? (
+            <ActivityIndicator color="#6366f1" style={styles.slotsLoading} />
+          ) : slotsError ? (
+            <TouchableOpacity onPress={refreshAvailability}>
+              <Text style={styles.slotsErrorText}>{slotsError} Tap to retry.</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.timeGrid}>
+              {(availability?.slots || []).map((slot) => {
+                const isSelected = selectedTime === slot.time;
+                const isDisabled = !isLoggedIn || !slot.isAvailable;
+                const label = getSlotLabel(slot);
+                
+                return (
+                  <TouchableOpacity
+                    key={slot.time}
+                    style={[
+                      styles.timeButton,
+                      isSelected && styles.selectedTimeButton,
+                      !slot.isAvailable && styles.unavailableTimeButton,
+                      !isLoggedIn && styles.disabledButton
+                    ]}
+                    onPress={() => handleSelectTime(slot)}
+                    disabled={isDisabled}
+                  >
+                    <Text style={[
+                      styles.timeText,
+                      isSelected && styles.selectedTimeText,
+                      isDisabled && styles.disabledText
+                    ]}>
+                      {formatTime(slot.time)}
+                    </Text>
+                    {label && (
+                      <Text style={[styles.slotMeta, isSelected && styles.selectedTimeText]}>
+                        {label}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+              {availability && availability.slots.length === 0 && (
+                <Text style={styles.slotsErrorText}>No times available on this date.</Text>
+              )}
+            </View>
+          )}
         </View>
 
         {/* Select Duration */}
@@ -241,7 +355,8 @@ export default function BookNowScreen() {
           <View style={styles.durationContainer}>
             {[1, 2, 3, 4, 5, 6].map((duration) => {
               const isSelected = selectedDuration === duration;
-              const price = parseFloat(pricePerHour || '0') * duration;
+              const price = selectedDate ? quoteFor(duration).total : parseFloat(pricePerHour || '0') * duration;
+              const fits = duration <= maxDuration;
               
               return (
                 <TouchableOpacity
@@ -249,22 +364,22 @@ export default function BookNowScreen() {
                   style={[
                     styles.durationButton,
                     isSelected && styles.selectedDurationButton,
-                    !isLoggedIn && styles.disabledButton
+                    (!isLoggedIn || !fits) && styles.disabledButton
                   ]}
-                  onPress={() => isLoggedIn && setSelectedDuration(duration)}
-                  disabled={!isLoggedIn}
+                  onPress={() => isLoggedIn && fits && setSelectedDuration(duration)}
+                  disabled={!isLoggedIn || !fits}
                 >
                   <Text style={[
                     styles.durationText,
                     isSelected && styles.selectedDurationText,
-                    !isLoggedIn && styles.disabledText
+                    (!isLoggedIn || !fits) && styles.disabledText
                   ]}>
                     {duration}h
                   </Text>
                   <Text style={[
                     styles.durationPrice,
                     isSelected && styles.selectedDurationPrice,
-                    !isLoggedIn && styles.disabledText
+                    (!isLoggedIn || !fits) && styles.disabledText
                   ]}>
                     ${price}
                   </Text>
@@ -304,14 +419,27 @@ export default function BookNowScreen() {
                 {selectedDuration} hour{selectedDuration > 1 ? 's' : ''}
               </Text>
             </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Rate:</Text>
-              <Text style={styles.summaryValue}>${pricePerHour}/hour</Text>
-            </View>
-            <View style={[styles.summaryRow, styles.totalRow]}>
-              <Text style={styles.totalLabel}>Total:</Text>
-              <Text style={styles.totalValue}>${calculateTotal()}</Text>
-            </View>
+            {pricingRules.perPlayer && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Players:</Text>
+                <View style={styles.playerStepper}>
+                  <TouchableOpacity
+                    onPress={() => setPlayers(Math.max(1, players - 1))}
+                    disabled={!isLoggedIn || players <= 1}
+                  >
+                    <Ionicons name="remove-circle-outline" size={22} color={players <= 1 ? '#d1d5db' : '#6366f1'} />
+                  </TouchableOpacity>
+                  <Text style={styles.summaryValue}>{players}</Text>
+                  <TouchableOpacity
+                    onPress={() => setPlayers(players + 1)}
+                    disabled={!isLoggedIn || atMaxPlayers}
+                  >
+                    <Ionicons name="add-circle-outline" size={22} color={atMaxPlayers ? '#d1d5db' : '#6366f1'} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+            {quote && <PriceBreakdown quote={quote} />}
           </View>
         </View>
       </ScrollView>
@@ -321,17 +449,21 @@ export default function BookNowScreen() {
         <TouchableOpacity
           style={[
             styles.continueButton,
-            (!isLoggedIn || !selectedDate || !selectedTime || !selectedDuration) && styles.disabledButton
+            (!isLoggedIn || !selectedDate || !selectedTime || !selectedDuration || checkingAvailability) && styles.disabledButton
           ]}
           onPress={handleContinueToPayment}
-          disabled={!isLoggedIn || !selectedDate || !selectedTime || !selectedDuration}
+          disabled={!isLoggedIn || !selectedDate || !selectedTime || !selectedDuration || checkingAvailability}
         >
-          <Text style={styles.continueButtonText}>
-            {isLoggedIn 
-              ? `Continue to Payment - $${calculateTotal()}`
-              : 'Login to Continue'
-            }
-          </Text>
+          {checkingAvailability ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.continueButtonText}>
+              {isLoggedIn 
+                ? `Continue to Payment - $${calculateTotal()}`
+                : 'Login to Continue'
+              }
+            </Text>
+          )}
         </TouchableOpacity>
       </View>
     </View>
@@ -498,6 +630,24 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     fontWeight: '500',
   },
+  unavailableTimeButton: {
+    backgroundColor: '#e5e7eb',
+    opacity: 0.6,
+  },
+  slotMeta: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  slotsLoading: {
+    paddingVertical: 20,
+  },
+  slotsErrorText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
   selectedTimeText: {
     color: 'white',
   },
@@ -545,12 +695,10 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
-  totalRow: {
-    borderBottomWidth: 0,
-    marginTop: 8,
-    paddingTop: 16,
-    borderTopWidth: 2,
-    borderTopColor: '#6366f1',
+  playerStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
   },
   summaryLabel: {
     fontSize: 14,
@@ -561,16 +709,6 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#1f2937',
   },
-  totalLabel: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#1f2937',
-  },
-  totalValue: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#6366f1',
-  },
   continueContainer: {
     padding: 20,
     backgroundColor: 'white',
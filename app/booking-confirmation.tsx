@@ -13,6 +13,19 @@ import {
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import apiService from '../services/api';
+import OfflineQueue from '../services/OfflineQueue';
+import {
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  evaluateCancellation,
+  fetchCancellationPolicy,
+  formatRefundPreview,
+} from '../utils/cancellationPolicy';
+import { CalendarBooking, exportBookingToCalendar, hasCalendarExport } from '../utils/calendar';
+import { BookingQRCode } from '../components/BookingQRCode';
+import { PriceQuote, describeQuote } from '../utils/pricing';
+import { PriceBreakdown } from '../components/PriceBreakdown';
 
 interface BookingConfirmation {
   id: string;
@@ -24,8 +37,10 @@ interface BookingConfirmation {
   duration: number;
   totalAmount: number;
   pricePerHour: number;
+  priceBreakdown?: PriceQuote;
   status: string;
   paymentStatus: string;
+  refundAmount?: number;
   qrCode?: string;
   cardLast4: string;
   createdAt: string;
@@ -35,6 +50,7 @@ export default function BookingConfirmationScreen() {
   const { bookingData } = useLocalSearchParams<{ bookingData: string }>();
   const [booking, setBooking] = useState<BookingConfirmation | null>(null);
   const [loading, setLoading] = useState(true);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
 
   useEffect(() => {
     if (bookingData) {
@@ -57,6 +73,12 @@ export default function BookingConfirmationScreen() {
     }
   }, [bookingData]);
 
+  useEffect(() => {
+    if (booking?.zoneId) {
+      fetchCancellationPolicy(booking.zoneId).then(setCancellationPolicy);
+    }
+  }, [booking?.zoneId]);
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -94,7 +116,9 @@ export default function BookingConfirmationScreen() {
       `Time: ${formatTime(booking.timeSlot)} - ${calculateEndTime(booking.timeSlot, booking.duration)}\n` +
       `Duration: ${booking.duration} hour${booking.duration > 1 ? 's' : ''}\n` +
       `Confirmation: ${booking.reference}\n\n` +
-      `Total Paid: $${booking.totalAmount}`;
+      (booking.priceBreakdown
+        ? describeQuote(booking.priceBreakdown).join('\n')
+        : `Total Paid: $${booking.totalAmount}`);
 
     try {
       await Share.share({
@@ -106,20 +130,35 @@ export default function BookingConfirmationScreen() {
     }
   };
 
-  const handleAddToCalendar = () => {
+  const toCalendarBooking = async (current: BookingConfirmation): Promise<CalendarBooking> => {
+    let address: string | undefined;
+    try {
+      const zone = await apiService.getGameZone(current.zoneId);
+      address = [zone.location.address, zone.location.city, zone.location.state].filter(Boolean).join(', ');
+    } catch (error) {
+      console.warn('⚠️ Could not load zone address for calendar event:', error);
+    }
+    return {
+      id: current.id,
+      reference: current.reference,
+      zoneName: current.zoneName,
+      date: current.date,
+      timeSlot: current.timeSlot,
+      duration: current.duration,
+      status: current.status,
+      address,
+    };
+  };
+
+  const handleAddToCalendar = async () => {
     if (!booking) return;
-    
-    Alert.alert(
-      'Add to Calendar',
-      `Add "${booking.zoneName}" booking to your calendar?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Add', onPress: () => {
-          // In a real app, integrate with device calendar
-          Alert.alert('Success', 'Booking added to calendar!');
-        }}
-      ]
-    );
+
+    try {
+      await exportBookingToCalendar(await toCalendarBooking(booking));
+    } catch (error) {
+      console.error('❌ Calendar export failed:', error);
+      Alert.alert('Add to Calendar', 'We couldn\'t create the calendar event. Please try again.');
+    }
   };
 
   const handleViewBooking = async () => {
@@ -147,10 +186,16 @@ export default function BookingConfirmationScreen() {
 
   const handleCancelBooking = () => {
     if (!booking) return;
+
+    const quote = evaluateCancellation(booking, cancellationPolicy);
+    if (!quote.cancellable) {
+      Alert.alert('Cannot Cancel Booking', formatRefundPreview(quote));
+      return;
+    }
     
     Alert.alert(
       'Cancel Booking',
-      'Are you sure you want to cancel this booking? You may be charged a cancellation fee.',
+      `${formatRefundPreview(quote)}\n\nCancellation policy:\n${describeCancellationPolicy(cancellationPolicy).join('\n')}`,
       [
         { text: 'No', style: 'cancel' },
         { 
@@ -158,11 +203,46 @@ export default function BookingConfirmationScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await apiService.cancelBooking(booking.id, 'User requested cancellation');
+              const result = await OfflineQueue.runOrQueue('cancelBooking', {
+                bookingId: booking.id,
+                reason: 'User requested cancellation',
+                reference: booking.reference,
+              });
+              if (result.queued) {
+                Alert.alert(
+                  'Cancellation Queued',
+                  'You appear to be offline. Your cancellation will be sent automatically once you\'re back online.',
+                  [
+                    { text: 'OK', onPress: () => router.replace('/(tabs)/bookings') }
+                  ]
+                );
+                return;
+              }
+              const { booking: updated, refund } = result.response;
+              setBooking({
+                ...booking,
+                status: updated?.status || 'cancelled',
+                paymentStatus: updated?.paymentStatus || booking.paymentStatus,
+                refundAmount: updated?.refundAmount ?? refund?.amount,
+              });
+              const cancelled = { ...booking, status: 'cancelled' };
+              const exported = await hasCalendarExport(booking.id);
               Alert.alert(
                 'Booking Cancelled',
-                'Your booking has been cancelled successfully.',
+                refund && refund.amount > 0
+                  ? `Your booking has been cancelled. $${refund.amount} will be refunded to your card ending in ${booking.cardLast4}.`
+                  : 'Your booking has been cancelled successfully.',
                 [
+                  // Send the cancellation for the event the customer added earlier
+                  ...(exported ? [{
+                    text: 'Remove from Calendar',
+                    onPress: async () => {
+                      await exportBookingToCalendar(await toCalendarBooking(cancelled)).catch(error =>
+                        console.error('❌ Calendar cancellation export failed:', error)
+                      );
+                      router.replace('/(tabs)/bookings');
+                    },
+                  }] : []),
                   { text: 'OK', onPress: () => router.replace('/(tabs)/bookings') }
                 ]
               );
@@ -180,6 +260,11 @@ export default function BookingConfirmationScreen() {
     router.replace('/');
   };
 
+  const handleReschedule = () => {
+    if (!booking) return;
+    router.push(`/reschedule/${booking.id}`);
+  };
+
   const goToBookings = () => {
     router.replace('/(tabs)/bookings');
   };
@@ -213,17 +298,9 @@ export default function BookingConfirmationScreen() {
     return bookingDate >= today;
   };
 
-  const canBeCancelled = () => {
-    const bookingDateTime = new Date(booking.date);
-    const [hours, minutes] = booking.timeSlot.split(':').map(Number);
-    bookingDateTime.setHours(hours, minutes, 0, 0);
-    
-    const now = new Date();
-    const timeDiff = bookingDateTime.getTime() - now.getTime();
-    const hoursDiff = timeDiff / (1000 * 60 * 60);
-    
-    return hoursDiff > 2 && booking.status === 'confirmed';
-  };
+  const canBeCancelled = () => evaluateCancellation(booking, cancellationPolicy).cancellable;
+
+  const canBeRescheduled = () => booking.status === 'confirmed' || booking.status === 'pending';
 
   return (
     <ScrollView style={styles.container}>
@@ -303,22 +380,34 @@ export default function BookingConfirmationScreen() {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>💳 Payment Details</Text>
         <View style={styles.paymentContainer}>
-          <View style={styles.paymentRow}>
-            <Text style={styles.paymentLabel}>Rate:</Text>
-            <Text style={styles.paymentValue}>${booking.pricePerHour}/hour</Text>
-          </View>
-          <View style={styles.paymentRow}>
-            <Text style={styles.paymentLabel}>Duration:</Text>
-            <Text style={styles.paymentValue}>{booking.duration} hour{booking.duration > 1 ? 's' : ''}</Text>
-          </View>
-          <View style={styles.paymentRow}>
-            <Text style={styles.paymentLabel}>Subtotal:</Text>
-            <Text style={styles.paymentValue}>${booking.totalAmount}</Text>
-          </View>
-          <View style={[styles.paymentRow, styles.totalRow]}>
-            <Text style={styles.totalLabel}>Total Paid:</Text>
-            <Text style={styles.totalValue}>${booking.totalAmount}</Text>
-          </View>
+          {booking.priceBreakdown ? (
+            <PriceBreakdown quote={booking.priceBreakdown} totalLabel="Total Paid:" />
+          ) : (
+            <>
+              <View style={styles.paymentRow}>
+                <Text style={styles.paymentLabel}>Rate:</Text>
+                <Text style={styles.paymentValue}>${booking.pricePerHour}/hour</Text>
+              </View>
+              <View style={styles.paymentRow}>
+                <Text style={styles.paymentLabel}>Duration:</Text>
+                <Text style={styles.paymentValue}>{booking.duration} hour{booking.duration > 1 ? 's' : ''}</Text>
+              </View>
+              <View style={styles.paymentRow}>
+                <Text style={styles.paymentLabel}>Subtotal:</Text>
+                <Text style={styles.paymentValue}>${booking.totalAmount}</Text>
+              </View>
+              <View style={[styles.paymentRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Total Paid:</Text>
+                <Text style={styles.totalValue}>${booking.totalAmount}</Text>
+              </View>
+            </>
+          )}
+          {booking.paymentStatus === 'refunded' && booking.refundAmount !== undefined && (
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Refunded:</Text>
+              <Text style={styles.paymentValue}>-${booking.refundAmount}</Text>
+            </View>
+          )}
           <View style={styles.cardInfo}>
             <Ionicons name="card" size={16} color="#64748b" />
             <Text style={styles.cardText}>
@@ -332,14 +421,11 @@ export default function BookingConfirmationScreen() {
       </View>
 
       {/* QR Code Section */}
-      {booking.qrCode && (
+      {booking.status !== 'cancelled' && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>📱 QR Code</Text>
           <View style={styles.qrContainer}>
-            <Ionicons name="qr-code" size={120} color="#6366f1" />
-            <Text style={styles.qrText}>
-              Show this QR code at the gaming zone for quick check-in
-            </Text>
+            <BookingQRCode bookingId={booking.id} reference={booking.reference} qrCode={booking.qrCode} />
           </View>
         </View>
       )}
@@ -386,6 +472,13 @@ export default function BookingConfirmationScreen() {
           <Text style={styles.secondaryButtonText}>View Booking Details</Text>
         </TouchableOpacity>
 
+        {isUpcoming() && canBeRescheduled() && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleReschedule}>
+            <Ionicons name="swap-horizontal-outline" size={20} color="#6366f1" />
+            <Text style={styles.secondaryButtonText}>Reschedule</Text>
+          </TouchableOpacity>
+        )}
+
         {isUpcoming() && canBeCancelled() && (
           <TouchableOpacity style={styles.cancelButton} onPress={handleCancelBooking}>
             <Ionicons name="close-circle-outline" size={20} color="#ef4444" />
@@ -666,12 +759,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#f8fafc',
     borderRadius: 12,
   },
-  qrText: {
-    marginTop: 16,
-    fontSize: 14,
-    color: '#64748b',
-    textAlign: 'center',
-  },
   infoContainer: {
     backgroundColor: '#fef3c7',
     borderRadius: 12,
@@ -0,0 +1,899 @@
+// app/booking-details/[id].tsx - Customer booking detail screen (deep-linkable, opened from notifications)
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  Linking,
+  Share,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import apiService, { Booking, BookingGuest, BookingStatusChange, GameZone } from '../../services/api';
+import { ApiError, getErrorMessage } from '../../services/apiErrors';
+import OfflineQueue from '../../services/OfflineQueue';
+import { BookingQRCode } from '../../components/BookingQRCode';
+import {
+  describeCancellationPolicy,
+  evaluateCancellation,
+  formatRefundPreview,
+  normalizeCancellationPolicy,
+} from '../../utils/cancellationPolicy';
+import { exportBookingToCalendar, hasCalendarExport, CalendarBooking } from '../../utils/calendar';
+import { PriceBreakdown } from '../../components/PriceBreakdown';
+import { openDirections } from '../../utils/location';
+import { canReviewBooking } from '../../utils/reviews';
+import { useAuth } from '../../contexts/AuthContext';
+import { inviteLink } from '../../utils/bookingRoutes';
+import { isBookingGuest, joinedGuestCount } from '../../utils/groupBooking';
+
+const ACTIVE_STATUSES = ['pending', 'confirmed'];
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Booking requested',
+  confirmed: 'Confirmed by the zone',
+  in_progress: 'Checked in',
+  completed: 'Session completed',
+  cancelled: 'Cancelled',
+  rescheduled: 'Rescheduled',
+  refunded: 'Refund issued',
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'confirmed': return '#10b981';
+    case 'in_progress': return '#0ea5e9';
+    case 'completed': return '#6366f1';
+    case 'cancelled': return '#ef4444';
+    case 'pending': return '#f59e0b';
+    default: return '#64748b';
+  }
+};
+
+/**
+ * The server's status history when it sends one; otherwise the milestones we can
+ * infer from the booking's own timestamps.
+ */
+const buildTimeline = (booking: Booking): BookingStatusChange[] => {
+  if (booking.statusHistory && booking.statusHistory.length > 0) {
+    return booking.statusHistory;
+  }
+
+  const timeline: BookingStatusChange[] = [{ status: 'pending', changedAt: booking.createdAt }];
+  if (booking.checkedInAt) {
+    timeline.push({ status: 'in_progress', changedAt: booking.checkedInAt });
+  }
+  if (booking.status !== 'pending' && booking.status !== 'in_progress') {
+    timeline.push({ status: booking.status, changedAt: booking.updatedAt });
+  }
+  if (booking.paymentStatus === 'refunded') {
+    timeline.push({ status: 'refunded', changedAt: booking.updatedAt });
+  }
+  return timeline;
+};
+
+export default function BookingDetailsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [zone, setZone] = useState<GameZone | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [sharingInvite, setSharingInvite] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (id) {
+      loadBooking();
+    }
+  }, [id]);
+
+  const loadBooking = async (forceRefresh: boolean = false) => {
+    try {
+      setError(null);
+      const response = await apiService.getBooking(id, forceRefresh);
+      setBooking(response.booking);
+
+      const zoneId = typeof response.booking.zoneId === 'object' ? response.booking.zoneId?._id : response.booking.zoneId;
+      try {
+        setZone(await apiService.getGameZone(zoneId));
+      } catch (zoneError) {
+        console.warn('⚠️ Could not load zone for booking details:', zoneError);
+      }
+    } catch (err) {
+      console.error('❌ Failed to load booking details:', err);
+      setError(getErrorMessage(err, 'Could not load this booking.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadBooking(true);
+    setRefreshing(false);
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+  const formatTime = (timeString: string) => {
+    const [hours, minutes] = timeString.split(':');
+    const hour = parseInt(hours);
+    const ampm = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour % 12 || 12;
+    return `${displayHour}:${minutes} ${ampm}`;
+  };
+
+  const formatTimestamp = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const toCalendarBooking = (current: Booking, status: string): CalendarBooking => ({
+    id: current._id,
+    reference: current.reference,
+    zoneName: zone?.name || current.zoneId?.name || 'GameZone',
+    address: zone ? [zone.location.address, zone.location.city, zone.location.state].filter(Boolean).join(', ') : undefined,
+    date: current.date,
+    timeSlot: current.timeSlot,
+    duration: current.duration,
+    status,
+  });
+
+  const handleCancelBooking = () => {
+    if (!booking) return;
+
+    const policy = normalizeCancellationPolicy(zone?.cancellationPolicy);
+    const quote = evaluateCancellation(booking, policy);
+    if (!quote.cancellable) {
+      Alert.alert('Cannot Cancel Booking', formatRefundPreview(quote));
+      return;
+    }
+
+    Alert.alert(
+      'Cancel Booking',
+      `${formatRefundPreview(quote)}\n\nCancellation policy:\n${describeCancellationPolicy(policy).join('\n')}`,
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Yes, Cancel',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setCancelling(true);
+              const result = await OfflineQueue.runOrQueue('cancelBooking', {
+                bookingId: booking._id,
+                reference: booking.reference,
+              });
+
+              if (result.queued) {
+                Alert.alert(
+                  'Cancellation Queued',
+                  'You appear to be offline. Your cancellation will be sent automatically once you\'re back online.'
+                );
+                return;
+              }
+
+              const refund = result.response.refund;
+              if (result.response.booking) {
+                setBooking({ ...booking, ...result.response.booking });
+              }
+              const exported = await hasCalendarExport(booking._id);
+              Alert.alert(
+                'Booking Cancelled',
+                refund && refund.amount > 0
+                  ? `$${refund.amount} will be refunded to your original payment method.`
+                  : result.response.message || 'Booking cancelled successfully',
+                [
+                  ...(exported ? [{
+                    text: 'Remove from Calendar',
+                    onPress: () => {
+                      exportBookingToCalendar(toCalendarBooking(booking, 'cancelled')).catch(exportError =>
+                        console.error('❌ Calendar cancellation export failed:', exportError)
+                      );
+                    },
+                  }] : []),
+                  { text: 'OK' },
+                ]
+              );
+            } catch (err) {
+              console.error('Cancel booking error:', err);
+
+              if (err instanceof ApiError && err.kind === 'auth_expired') {
+                Alert.alert(
+                  'Session Expired',
+                  'Please log in again to manage your bookings.',
+                  [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Login', onPress: () => router.push('/login') }
+                  ]
+                );
+              } else if (err instanceof ApiError && (err.kind === 'conflict' || err.kind === 'not_found')) {
+                // Booking already changed on the server - show why and resync
+                Alert.alert('Cannot Cancel Booking', getErrorMessage(err));
+                await loadBooking(true);
+              } else if (err instanceof ApiError && err.retryable) {
+                Alert.alert(
+                  'Cancellation Failed',
+                  getErrorMessage(err),
+                  [
+                    { text: 'OK', style: 'cancel' },
+                    { text: 'Retry', onPress: () => handleCancelBooking() }
+                  ]
+                );
+              } else {
+                Alert.alert(
+                  'Cancellation Failed',
+                  'We couldn\'t cancel your booking. Please try again or contact support.'
+                );
+              }
+            } finally {
+              setCancelling(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleShareInvite = async () => {
+    if (!booking) return;
+
+    try {
+      setSharingInvite(true);
+      const invite = await apiService.getBookingInvite(booking._id);
+      const zoneName = zone?.name || booking.zoneId?.name || 'GameZone';
+      await Share.share({
+        message: `Join my gaming session at ${zoneName} on ${formatDate(booking.date)} at ${formatTime(booking.timeSlot)}: ${inviteLink(invite)}`,
+      });
+    } catch (err) {
+      console.error('❌ Failed to share invite:', err);
+      Alert.alert('Invite Friends', getErrorMessage(err, 'Could not create an invite link. Please try again.'));
+    } finally {
+      setSharingInvite(false);
+    }
+  };
+
+  const handleRemoveGuest = (guest: BookingGuest) => {
+    if (!booking) return;
+
+    Alert.alert('Remove Guest', `Remove ${guest.name} from this booking? Their check-in code will stop working.`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const updated = await apiService.removeBookingGuest(booking._id, guest._id);
+            setBooking({ ...booking, ...updated });
+          } catch (err) {
+            console.error('❌ Failed to remove guest:', err);
+            Alert.alert('Error', getErrorMessage(err, 'Could not remove this guest.'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLeaveBooking = () => {
+    if (!booking) return;
+
+    Alert.alert('Leave Booking', 'You will no longer see this booking or get its reminders.', [
+      { text: 'Stay', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await apiService.leaveBooking(booking._id);
+            router.replace('/(tabs)/bookings');
+          } catch (err) {
+            console.error('❌ Failed to leave booking:', err);
+            Alert.alert('Error', getErrorMessage(err, 'Could not leave this booking.'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleContactVendor = (method: 'email' | 'phone') => {
+    const vendor = zone?.vendorId;
+    if (!vendor || !booking) return;
+
+    const url = method === 'phone'
+      ? `tel:${vendor.phone}`
+      : `mailto:${vendor.email}?subject=${encodeURIComponent(`Booking ${booking.reference}`)}`;
+    Linking.openURL(url).catch(() => Alert.alert('Contact Vendor', `Could not open ${method === 'phone' ? 'the dialer' : 'your email app'}.`));
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+        <Text style={styles.loadingText}>Loading booking...</Text>
+      </View>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <View style={styles.centerContainer}>
+        <Ionicons name="alert-circle" size={64} color="#ef4444" />
+        <Text style={styles.errorTitle}>Booking Not Available</Text>
+        <Text style={styles.errorText}>{error || 'This booking could not be found.'}</Text>
+        <View style={styles.errorActions}>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => { setLoading(true); loadBooking(true); }}>
+            <Text style={styles.primaryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/(tabs)/bookings')}>
+            <Text style={styles.secondaryButtonText}>My Bookings</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const zoneId = typeof booking.zoneId === 'object' ? booking.zoneId?._id : booking.zoneId;
+  const zoneName = zone?.name || booking.zoneId?.name || 'Gaming Zone';
+  const pricePerHour = zone?.pricePerHour ?? booking.zoneId?.pricePerHour;
+  const subtotal = pricePerHour !== undefined ? pricePerHour * booking.duration : undefined;
+  const adjustment = subtotal !== undefined ? Math.round((booking.totalAmount - subtotal) * 100) / 100 : 0;
+  const isActive = ACTIVE_STATUSES.includes(booking.status);
+  const timeline = buildTimeline(booking);
+  // Guests see the booking and their own check-in code; changing it stays with the host
+  const isGuest = isBookingGuest(booking, user?._id);
+  const hostName = typeof booking.userId === 'object' ? booking.userId.name : undefined;
+  const guests = booking.guests || [];
+  const players = booking.players || 1;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6366f1']} tintColor="#6366f1" />}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backIcon}
+          onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)/bookings'))}
+        >
+          <Ionicons name="arrow-back" size={24} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{zoneName}</Text>
+        <Text style={styles.headerReference}>#{booking.reference}</Text>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(booking.status) }]}>
+          <Text style={styles.statusText}>{booking.status.replace('_', ' ').toUpperCase()}</Text>
+        </View>
+      </View>
+
+      {/* Session */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🎮 Session</Text>
+        <View style={styles.detailRow}>
+          <Ionicons name="calendar" size={18} color="#64748b" />
+          <Text style={styles.detailText}>{formatDate(booking.date)}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Ionicons name="time" size={18} color="#64748b" />
+          <Text style={styles.detailText}>
+            {formatTime(booking.timeSlot)} • {booking.duration} hour{booking.duration > 1 ? 's' : ''}
+          </Text>
+        </View>
+        {booking.stations && booking.stations.length > 0 && (
+          <View style={styles.detailRow}>
+            <Ionicons name="desktop" size={18} color="#64748b" />
+            <Text style={styles.detailText}>{booking.stations.map(station => station.name).join(', ')}</Text>
+          </View>
+        )}
+        {zone && (
+          <View style={styles.detailRow}>
+            <Ionicons name="location" size={18} color="#64748b" />
+            <Text style={styles.detailText}>
+              {[zone.location.address, zone.location.city, zone.location.state].filter(Boolean).join(', ')}
+            </Text>
+          </View>
+        )}
+        {zone && (
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push(`/gamezone/${zoneId}`)}>
+            <Text style={styles.linkText}>View zone</Text>
+            <Ionicons name="chevron-forward" size={16} color="#6366f1" />
+          </TouchableOpacity>
+        )}
+        {zone && (
+          <TouchableOpacity style={styles.linkRow} onPress={() => openDirections(zone).catch(error => console.error('❌ Failed to open maps:', error))}>
+            <Text style={styles.linkText}>Get directions</Text>
+            <Ionicons name="navigate-outline" size={16} color="#6366f1" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Group */}
+      {(players > 1 || guests.length > 0) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>👥 Group</Text>
+          <Text style={styles.groupSummary}>
+            {1 + joinedGuestCount(guests)} of {players} players joined
+          </Text>
+          <View style={styles.guestRow}>
+            <Ionicons name="person" size={18} color="#64748b" />
+            <Text style={styles.detailText}>{isGuest ? hostName || 'Host' : 'You'} (host)</Text>
+          </View>
+          {guests.map(guest => (
+            <View key={guest._id} style={styles.guestRow}>
+              <Ionicons name="person-outline" size={18} color="#64748b" />
+              <Text style={styles.detailText}>
+                {guest.name}{isGuest && guest.userId === user?._id ? ' (you)' : ''}
+              </Text>
+              <Text style={[styles.guestStatus, guest.status === 'joined' && styles.guestStatusJoined]}>
+                {guest.checkedInAt ? 'Checked in' : guest.status === 'joined' ? 'Joined' : 'Invited'}
+              </Text>
+              {!isGuest && isActive && (
+                <TouchableOpacity style={styles.removeGuest} onPress={() => handleRemoveGuest(guest)}>
+                  <Ionicons name="close-circle-outline" size={20} color="#ef4444" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          {!isGuest && isActive && (
+            <TouchableOpacity style={styles.linkRow} onPress={handleShareInvite} disabled={sharingInvite}>
+              {sharingInvite ? (
+                <ActivityIndicator color="#6366f1" />
+              ) : (
+                <>
+                  <Text style={styles.linkText}>Invite friends</Text>
+                  <Ionicons name="share-outline" size={16} color="#6366f1" />
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* QR Code */}
+      {(isActive || booking.status === 'in_progress') && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>📱 {isGuest ? 'Your Check-in Code' : 'Check-in Code'}</Text>
+          {/* The booking's qrCode is the host's; a guest's own code comes from the check-in endpoint */}
+          <BookingQRCode bookingId={booking._id} reference={booking.reference} qrCode={isGuest ? undefined : booking.qrCode} />
+        </View>
+      )}
+
+      {/* Payment (host only) */}
+      {!isGuest && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>💳 Payment</Text>
+          {booking.priceBreakdown ? (
+            <PriceBreakdown quote={booking.priceBreakdown} />
+          ) : (
+            <>
+              {pricePerHour !== undefined && (
+                <View style={styles.paymentRow}>
+                  <Text style={styles.paymentLabel}>${pricePerHour}/hour × {booking.duration}h</Text>
+                  <Text style={styles.paymentValue}>${subtotal}</Text>
+                </View>
+              )}
+              {adjustment !== 0 && (
+                <View style={styles.paymentRow}>
+                  <Text style={styles.paymentLabel}>{adjustment < 0 ? 'Discounts' : 'Fees'}</Text>
+                  <Text style={styles.paymentValue}>{adjustment < 0 ? '-' : ''}${Math.abs(adjustment)}</Text>
+                </View>
+              )}
+              <View style={[styles.paymentRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Total</Text>
+                <Text style={styles.totalValue}>${booking.totalAmount}</Text>
+              </View>
+            </>
+          )}
+          {booking.paymentStatus === 'refunded' && booking.refundAmount !== undefined && (
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Refunded</Text>
+              <Text style={[styles.paymentValue, styles.refundValue]}>-${booking.refundAmount}</Text>
+            </View>
+          )}
+          <Text style={styles.paymentStatus}>Payment status: {booking.paymentStatus}</Text>
+        </View>
+      )}
+
+      {/* Notes */}
+      {!!booking.notes && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>📝 Notes</Text>
+          <Text style={styles.notesText}>{booking.notes}</Text>
+        </View>
+      )}
+
+      {/* Timeline */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🕒 Timeline</Text>
+        {timeline.map((entry, index) => (
+          <View key={`${entry.status}-${index}`} style={styles.timelineRow}>
+            <View style={styles.timelineMarker}>
+              <View style={[styles.timelineDot, { backgroundColor: getStatusColor(entry.status) }]} />
+              {index < timeline.length - 1 && <View style={styles.timelineLine} />}
+            </View>
+            <View style={styles.timelineContent}>
+              <Text style={styles.timelineTitle}>{STATUS_LABELS[entry.status] || entry.status}</Text>
+              <Text style={styles.timelineTime}>{formatTimestamp(entry.changedAt)}</Text>
+              {!!entry.note && <Text style={styles.timelineNote}>{entry.note}</Text>}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      {/* Vendor contact */}
+      {zone?.vendorId && zone.vendorId._id !== 'unknown' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🏢 Contact the Zone</Text>
+          <Text style={styles.vendorName}>{zone.vendorId.name}</Text>
+          <View style={styles.contactRow}>
+            <TouchableOpacity style={styles.contactButton} onPress={() => handleContactVendor('email')}>
+              <Ionicons name="mail-outline" size={18} color="#6366f1" />
+              <Text style={styles.contactText}>Email</Text>
+            </TouchableOpacity>
+            {!!zone.vendorId.phone && (
+              <TouchableOpacity style={styles.contactButton} onPress={() => handleContactVendor('phone')}>
+                <Ionicons name="call-outline" size={18} color="#6366f1" />
+                <Text style={styles.contactText}>Call</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        {isActive && !isGuest && (
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push(`/reschedule/${booking._id}`)}>
+            <Ionicons name="swap-horizontal-outline" size={20} color="#6366f1" />
+            <Text style={styles.actionButtonText}>Reschedule</Text>
+          </TouchableOpacity>
+        )}
+        {canReviewBooking(booking) && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => router.push({ pathname: '/gamezone/[id]', params: { id: zoneId, reviewBookingId: booking._id } })}
+          >
+            <Ionicons name="star-outline" size={20} color="#6366f1" />
+            <Text style={styles.actionButtonText}>Leave a Review</Text>
+          </TouchableOpacity>
+        )}
+        {isActive && isGuest && (
+          <TouchableOpacity style={[styles.actionButton, styles.cancelButton]} onPress={handleLeaveBooking}>
+            <Ionicons name="exit-outline" size={20} color="#ef4444" />
+            <Text style={styles.cancelButtonText}>Leave Booking</Text>
+          </TouchableOpacity>
+        )}
+        {isActive && !isGuest && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.cancelButton]}
+            onPress={handleCancelBooking}
+            disabled={cancelling}
+          >
+            {cancelling ? (
+              <ActivityIndicator color="#ef4444" />
+            ) : (
+              <>
+                <Ionicons name="close-circle-outline" size={20} color="#ef4444" />
+                <Text style={styles.cancelButtonText}>Cancel Booking</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  errorTitle: {
+    marginTop: 16,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  errorText: {
+    marginTop: 8,
+    marginBottom: 24,
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  errorActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 20,
+    paddingTop: 60,
+    position: 'relative',
+  },
+  backIcon: {
+    position: 'absolute',
+    top: 50,
+    left: 20,
+    zIndex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    paddingLeft: 40,
+  },
+  headerReference: {
+    fontSize: 14,
+    color: 'white',
+    opacity: 0.9,
+    paddingLeft: 40,
+    marginTop: 4,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    marginLeft: 40,
+    marginTop: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  section: {
+    backgroundColor: 'white',
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  detailText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 16,
+    color: '#374151',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  groupSummary: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  guestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  guestStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400e',
+    backgroundColor: '#fef3c7',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  guestStatusJoined: {
+    color: '#047857',
+    backgroundColor: '#d1fae5',
+  },
+  removeGuest: {
+    marginLeft: 8,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  paymentLabel: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  paymentValue: {
+    fontSize: 16,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  refundValue: {
+    color: '#10b981',
+  },
+  totalRow: {
+    marginTop: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  totalLabel: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  paymentStatus: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  notesText: {
+    fontSize: 15,
+    color: '#374151',
+    lineHeight: 22,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    width: 20,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e5e7eb',
+    marginVertical: 2,
+  },
+  timelineContent: {
+    flex: 1,
+    marginLeft: 10,
+    paddingBottom: 16,
+  },
+  timelineTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  timelineTime: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  timelineNote: {
+    fontSize: 13,
+    color: '#374151',
+    marginTop: 4,
+  },
+  vendorName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  contactButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  contactText: {
+    marginLeft: 6,
+    fontSize: 15,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  actions: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  actionButton: {
+    backgroundColor: 'white',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6366f1',
+  },
+  actionButtonText: {
+    marginLeft: 8,
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    borderColor: '#ef4444',
+  },
+  cancelButtonText: {
+    marginLeft: 8,
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
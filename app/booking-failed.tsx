@@ -0,0 +1,480 @@
+// app/booking-failed.tsx - Checkout failure screen: resolves what actually happened and offers recovery
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import apiService from '../services/api';
+import { ApiError, getErrorMessage } from '../services/apiErrors';
+import {
+  BookingFailureOutcome,
+  BookingRecoveryData,
+  SUPPORT_EMAIL,
+  buildBookingSuccessData,
+  buildSupportMailto,
+  isPaymentSettled,
+} from '../utils/bookingRecovery';
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLLS = 24; // ~2 minutes, then the customer is pointed at support
+
+const OUTCOME_COPY: Record<BookingFailureOutcome, { icon: keyof typeof Ionicons.glyphMap; color: string; title: string; description: string }> = {
+  payment_taken: {
+    icon: 'alert-circle',
+    color: '#f59e0b',
+    title: 'Booking Not Confirmed Yet',
+    description: 'Your payment was authorized, but we couldn\'t confirm your booking. We\'re checking with the server - you will not be charged twice.',
+  },
+  payment_pending: {
+    icon: 'time',
+    color: '#6366f1',
+    title: 'Payment Pending',
+    description: 'Your booking has been created and is waiting for the payment to complete. This usually takes a few seconds.',
+  },
+  not_charged: {
+    icon: 'close-circle',
+    color: '#ef4444',
+    title: 'Booking Failed',
+    description: 'Something went wrong before your payment was taken. You have not been charged.',
+  },
+};
+
+export default function BookingFailedScreen() {
+  const { recoveryData } = useLocalSearchParams<{ recoveryData: string }>();
+  const [data, setData] = useState<BookingRecoveryData | null>(null);
+  const [pollCount, setPollCount] = useState(0);
+  const [checking, setChecking] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [paymentFailed, setPaymentFailed] = useState(false);
+  const resolvedRef = useRef(false);
+
+  useEffect(() => {
+    if (!recoveryData) return;
+    try {
+      const parsed: BookingRecoveryData = JSON.parse(recoveryData);
+      setData(parsed);
+      console.log('🧯 Booking recovery:', parsed.outcome, parsed.reference || parsed.paymentIntentId || '');
+    } catch (error) {
+      console.error('Error parsing recovery data:', error);
+      router.replace('/(tabs)/bookings');
+    }
+  }, [recoveryData]);
+
+  const canPoll = !!data && data.outcome !== 'not_charged' && !paymentFailed;
+
+  useEffect(() => {
+    if (!canPoll || resolvedRef.current || pollCount >= MAX_POLLS) return;
+
+    const timer = setTimeout(async () => {
+      await checkStatus();
+      setPollCount(count => count + 1);
+    }, pollCount === 0 ? 0 : POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [canPoll, pollCount, data?.outcome]);
+
+  const goToSuccess = (booking: any) => {
+    if (!data) return;
+    resolvedRef.current = true;
+    router.replace({
+      pathname: '/booking-success',
+      params: {
+        bookingData: JSON.stringify(buildBookingSuccessData(booking, data.checkout)),
+      }
+    });
+  };
+
+  // A booking turned up: either we're done, or we keep waiting on its payment
+  const handleBookingFound = (booking: any) => {
+    if (isPaymentSettled(booking)) {
+      goToSuccess(booking);
+    } else if (booking.paymentStatus === 'failed') {
+      setPaymentFailed(true);
+    } else {
+      setData(prev => prev && {
+        ...prev,
+        outcome: 'payment_pending',
+        bookingId: booking.id || booking._id,
+        reference: booking.reference,
+      });
+    }
+  };
+
+  const checkStatus = async () => {
+    if (!data || resolvedRef.current) return;
+
+    try {
+      setChecking(true);
+
+      if (data.outcome === 'payment_pending' && data.bookingId) {
+        const response = await apiService.getBooking(data.bookingId, true);
+        handleBookingFound(response.booking);
+        return;
+      }
+
+      if (data.outcome === 'payment_taken') {
+        if (data.idempotencyKey) {
+          const booking = await apiService.findBookingByIdempotencyKey(data.idempotencyKey);
+          if (booking) {
+            handleBookingFound(booking);
+            return;
+          }
+        }
+
+        if (data.paymentIntentId) {
+          const { payment } = await apiService.getPaymentStatus(data.paymentIntentId);
+          // The authorization was released without a booking, so nothing was charged
+          if (payment.status === 'canceled' || payment.status === 'requires_payment_method') {
+            setData(prev => prev && { ...prev, outcome: 'not_charged' });
+          }
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Booking status check failed:', error);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleCheckNow = () => {
+    // Restart the polling window
+    setPollCount(0);
+  };
+
+  const handleRetryBooking = async () => {
+    if (!data?.request || !data.idempotencyKey || retrying) return;
+
+    try {
+      setRetrying(true);
+      // Same key as the original attempt: the server returns the existing booking if there is one
+      const response = await apiService.createBooking(data.request, data.idempotencyKey);
+      handleBookingFound(response.booking);
+    } catch (error) {
+      console.error('❌ Booking retry failed:', error);
+      if (error instanceof ApiError && !error.retryable) {
+        setData(prev => prev && { ...prev, errorMessage: getErrorMessage(error) });
+        Alert.alert(
+          'Booking Failed',
+          `${getErrorMessage(error)}\n\nIf you were charged, please contact support with the details on this screen.`
+        );
+      } else {
+        Alert.alert('Still Unable to Connect', 'Please check your connection. We\'ll keep checking the status of your booking.');
+      }
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleTryAgain = () => {
+    if (!data) return;
+    const { checkout } = data;
+    router.replace({
+      pathname: '/payment',
+      params: {
+        bookingData: JSON.stringify({
+          zoneId: checkout.zoneId,
+          zoneName: checkout.zoneName,
+          date: checkout.date,
+          timeSlot: checkout.timeSlot,
+          duration: checkout.duration,
+          totalAmount: checkout.totalAmount,
+          pricePerHour: checkout.pricePerHour,
+          promoCode: checkout.promoCode,
+          players: checkout.players,
+          stations: checkout.stations,
+          guests: checkout.guests,
+          capacity: checkout.capacity,
+        }),
+      }
+    });
+  };
+
+  const handleContactSupport = async () => {
+    if (!data) return;
+    const url = buildSupportMailto(data);
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      console.error('❌ Failed to open mail client:', error);
+      Alert.alert(
+        'Contact Support',
+        `Please email ${SUPPORT_EMAIL} and include this reference:\n\n${data.reference || data.paymentIntentId || data.idempotencyKey || 'N/A'}`
+      );
+    }
+  };
+
+  if (!data) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  const copy = paymentFailed
+    ? {
+        icon: 'close-circle' as const,
+        color: '#ef4444',
+        title: 'Payment Failed',
+        description: 'Your booking was created but the payment did not go through, so it won\'t be held. Contact support if you were charged.',
+      }
+    : OUTCOME_COPY[data.outcome];
+  const { checkout } = data;
+  const supportReference = data.reference || data.paymentIntentId;
+  const pollingExhausted = canPoll && pollCount >= MAX_POLLS;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Ionicons name={copy.icon} size={72} color={copy.color} />
+          <Text style={styles.title}>{copy.title}</Text>
+          <Text style={styles.description}>{copy.description}</Text>
+        </View>
+
+        {supportReference && (
+          <View style={styles.referenceContainer}>
+            <Text style={styles.referenceLabel}>{data.reference ? 'Booking Reference' : 'Payment Reference'}</Text>
+            <Text style={styles.referenceValue} selectable>{supportReference}</Text>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{checkout.zoneName}</Text>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Date</Text>
+            <Text style={styles.detailValue}>{checkout.date}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Time</Text>
+            <Text style={styles.detailValue}>{checkout.timeSlot} ({checkout.duration}h)</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Amount</Text>
+            <Text style={styles.detailValue}>${checkout.totalAmount}</Text>
+          </View>
+          {data.errorMessage && (
+            <Text style={styles.errorText}>{data.errorMessage}</Text>
+          )}
+        </View>
+
+        {canPoll && (
+          <View style={styles.statusCard}>
+            {(checking || !pollingExhausted) && (
+              <View style={styles.statusRow}>
+                <ActivityIndicator size="small" color="#6366f1" />
+                <Text style={styles.statusText}>Checking booking status...</Text>
+              </View>
+            )}
+            {pollingExhausted && !checking && (
+              <Text style={styles.statusText}>
+                We still can't confirm this booking. Check again, or contact support with the reference above.
+              </Text>
+            )}
+            <TouchableOpacity style={styles.linkButton} onPress={handleCheckNow} disabled={checking}>
+              <Text style={styles.linkButtonText}>Check Now</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.actions}>
+          {data.outcome === 'payment_taken' && data.request && !paymentFailed && (
+            <TouchableOpacity
+              style={[styles.primaryButton, retrying && styles.disabledButton]}
+              onPress={handleRetryBooking}
+              disabled={retrying}
+            >
+              {retrying ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Retry Booking</Text>
+              )}
+            </TouchableOpacity>
+          )}
+
+          {data.outcome === 'not_charged' && (
+            <TouchableOpacity style={styles.primaryButton} onPress={handleTryAgain}>
+              <Text style={styles.primaryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleContactSupport}>
+            <Ionicons name="mail-outline" size={18} color="#6366f1" />
+            <Text style={styles.secondaryButtonText}>Contact Support</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.textButton} onPress={() => router.replace('/(tabs)/bookings')}>
+            <Text style={styles.textButtonText}>Go to My Bookings</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginTop: 12,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: 15,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  referenceContainer: {
+    backgroundColor: '#eef2ff',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  referenceLabel: {
+    fontSize: 12,
+    color: '#6366f1',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  referenceValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 13,
+    color: '#b91c1c',
+  },
+  statusCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#374151',
+    marginLeft: 8,
+    textAlign: 'center',
+  },
+  linkButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  actions: {
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6366f1',
+    backgroundColor: 'white',
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  textButton: {
+    padding: 12,
+    alignItems: 'center',
+  },
+  textButtonText: {
+    color: '#64748b',
+    fontSize: 15,
+  },
+});
@@ -13,6 +13,7 @@ import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
+import { describeQuote } from '../utils/pricing';
 
 export default function BookingSuccessScreen() {
   const { bookingData } = useLocalSearchParams<{ bookingData: string }>();
@@ -150,7 +151,9 @@ export default function BookingSuccessScreen() {
       `Time: ${formatTime(booking.timeSlot)}\n` +
       `Duration: ${booking.duration} hour${booking.duration > 1 ? 's' : ''}\n` +
       `Reference: ${booking.reference}\n\n` +
-      `Total Paid: $${booking.totalAmount}\n\n` +
+      (booking.priceBreakdown
+        ? `${describeQuote(booking.priceBreakdown).join('\n')}\n\n`
+        : `Total Paid: $${booking.totalAmount}\n\n`) +
       `Thank you for choosing GameZone!`;
 
     try {
@@ -11,6 +11,25 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useAvailability } from '../../hooks/useAvailability';
+import {
+  availabilityForParty,
+  availabilityForSelection,
+  busyStationsForWindow,
+  candidateStations,
+  pickStationsForWindow,
+  validateBookingWindow,
+} from '../../utils/availability';
+import SlotPicker from '../../components/SlotPicker';
+import apiService, { SlotHold, Station } from '../../services/api';
+import { ConflictError, getErrorMessage } from '../../services/apiErrors';
+import { pricingRulesForZone, quoteBooking } from '../../utils/pricing';
+import { PriceBreakdown } from '../../components/PriceBreakdown';
+import { normalizeZonePhotos } from '../../utils/zonePhotos';
+import { normalizeStations, selectionSize, StationSelection } from '../../utils/stations';
+import { StationPicker } from '../../components/StationPicker';
+import { PartyPicker } from '../../components/PartyPicker';
+import { describeGuests, guestsForRequest, maxPartySize, resizeGuestNames } from '../../utils/groupBooking';
 
 interface GameZone {
   _id: string;
@@ -32,6 +51,8 @@ interface GameZone {
   capacity: number;
   amenities: string[];
   isActive: boolean;
+  pricing?: any;
+  stations: Station[];
 }
 
 export default function BookingFormScreen() {
@@ -41,7 +62,17 @@ export default function BookingFormScreen() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [selectedTime, setSelectedTime] = useState('');
   const [duration, setDuration] = useState(1);
-  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
+  const [players, setPlayers] = useState(1);
+  const [guestNames, setGuestNames] = useState<string[]>([]);
+  const [stationSelection, setStationSelection] = useState<StationSelection>({ mode: 'any' });
+  const [checkingAvailability, setCheckingAvailability] = useState(false);
+  const selectedDateString = selectedDate.toISOString().split('T')[0];
+  const {
+    availability,
+    loading: loadingSlots,
+    error: slotsError,
+    refresh: refreshAvailability,
+  } = useAvailability(zone ? id : undefined, selectedDateString, zone?.capacity || 1);
 
   useEffect(() => {
     if (id) {
@@ -49,13 +80,6 @@ export default function BookingFormScreen() {
     }
   }, [id]);
 
-  // Generate time slots after zone details are loaded
-  useEffect(() => {
-    if (zone) {
-      generateTimeSlots();
-    }
-  }, [zone]);
-
   const loadZoneDetails = async () => {
     try {
       setLoading(true);
@@ -105,7 +129,7 @@ export default function BookingFormScreen() {
         pricePerHour: gameZone.pricePerHour || 0,
         rating: gameZone.rating || 0,
         totalReviews: gameZone.totalReviews || 0,
-        images: gameZone.images || [],
+        images: normalizeZonePhotos(gameZone.images).map(photo => photo.url),
         location: gameZone.location || {
           address: '',
           city: '',
@@ -117,7 +141,9 @@ export default function BookingFormScreen() {
         },
         capacity: gameZone.capacity || 1,
         amenities: gameZone.amenities || [],
-        isActive: gameZone.isActive !== false
+        isActive: gameZone.isActive !== false,
+        pricing: gameZone.pricing,
+        stations: normalizeStations(gameZone.stations)
       };
       
       setZone(formattedZone);
@@ -142,56 +168,41 @@ export default function BookingFormScreen() {
     }
   };
 
-  const generateTimeSlots = () => {
-    const slots = [];
-    
-    if (zone && zone.operatingHours) {
-      // Use actual zone operating hours
-      const startHour = parseInt(zone.operatingHours.start.split(':')[0]);
-      const endHour = parseInt(zone.operatingHours.end.split(':')[0]);
-      
-      console.log(`🕐 Generating time slots from ${zone.operatingHours.start} to ${zone.operatingHours.end}`);
-      console.log(`🕐 Start hour: ${startHour}, End hour: ${endHour}`);
-      
-      for (let hour = startHour; hour < endHour; hour++) {
-        slots.push(`${hour.toString().padStart(2, '0')}:00`);
-        // Add 30-minute slot if not the last hour
-        if (hour < endHour - 1) {
-          slots.push(`${hour.toString().padStart(2, '0')}:30`);
-        }
-      }
-    } else {
-      // Fallback to default hours if zone operating hours not available
-      console.log('⚠️ Using fallback operating hours (9 AM - 10 PM)');
-      for (let hour = 9; hour <= 22; hour++) {
-        slots.push(`${hour.toString().padStart(2, '0')}:00`);
-        if (hour < 22) {
-          slots.push(`${hour.toString().padStart(2, '0')}:30`);
-        }
-      }
-    }
-    
-    console.log(`🕐 Generated ${slots.length} time slots:`, slots);
-    setAvailableSlots(slots);
-  };
+  // Slots as seen through the group size and station choice, so the picker only offers times they fit
+  const slotAvailability = availability && zone
+    ? availabilityForSelection(availabilityForParty(availability, players), zone.stations, stationSelection)
+    : availability;
+  const busyStationIds = availability && zone && selectedTime
+    ? busyStationsForWindow(availability, zone.stations, selectedTime, duration)
+    : undefined;
 
-  const getNextWeekDates = () => {
-    const dates = [];
-    const today = new Date();
-    
-    for (let i = 0; i < 14; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      dates.push(date);
+  // The stations this session would reserve; before a time is picked, the first that match
+  const stationsFor = (hours: number): Station[] | null => {
+    if (!zone || stationSelection.mode === 'any') return [];
+    if (availability && selectedTime) {
+      return pickStationsForWindow(availability, zone.stations, stationSelection, selectedTime, hours);
     }
-    
-    return dates;
+    return candidateStations(zone.stations, stationSelection).slice(0, selectionSize(stationSelection));
   };
+  const reservedStations = stationsFor(duration);
 
-  const calculateTotal = () => {
-    if (!zone) return 0;
-    return zone.pricePerHour * duration;
-  };
+  const pricingRules = zone ? pricingRulesForZone(zone) : null;
+  const quoteFor = (hours: number) =>
+    quoteBooking(
+      {
+        date: selectedDateString,
+        timeSlot: selectedTime || zone!.operatingHours.start,
+        duration: hours,
+        players,
+        stations: stationsFor(hours) || candidateStations(zone!.stations, stationSelection),
+      },
+      pricingRules!
+    );
+  const quote = zone ? quoteFor(duration) : null;
+  const maxPlayers = maxPartySize(zone?.capacity || 1, pricingRules?.perPlayer?.maxPlayers);
+  const guests = guestsForRequest(resizeGuestNames(guestNames, players));
+
+  const calculateTotal = () => quote?.total ?? 0;
 
   const handleBooking = async () => {
     if (!selectedTime) {
@@ -204,40 +215,72 @@ export default function BookingFormScreen() {
       return;
     }
 
-    // Validate that selected time is within operating hours
-    const selectedHour = parseInt(selectedTime.split(':')[0]);
-    const selectedMinutes = parseInt(selectedTime.split(':')[1]);
-    const startHour = parseInt(zone.operatingHours.start.split(':')[0]);
-    const endHour = parseInt(zone.operatingHours.end.split(':')[0]);
-    const bookingEndHour = selectedHour + duration;
-    
-    console.log('⏰ Booking validation:', {
-      selectedTime,
-      selectedHour,
-      duration,
-      bookingEndHour,
-      operatingHours: zone.operatingHours,
-      startHour,
-      endHour
-    });
-    
-    if (selectedHour < startHour || bookingEndHour > endHour) {
+    if (availability && slotAvailability) {
+      // The group check first, since its reason says how many spots are left
+      const partyCheck = validateBookingWindow(availability, selectedTime, duration, players);
+      const check = partyCheck.valid ? validateBookingWindow(slotAvailability, selectedTime, duration) : partyCheck;
+      if (!check.valid) {
+        Alert.alert('Invalid Time Selection', check.reason, [{ text: 'OK' }]);
+        return;
+      }
+    }
+
+    if (stationSelection.mode !== 'any' && selectionSize(stationSelection) === 0) {
+      Alert.alert('Choose Stations', 'Pick at least one station, or switch to "Any".');
+      return;
+    }
+    if (!reservedStations) {
       Alert.alert(
-        'Invalid Time Selection',
-        `Please select a time within operating hours (${zone.operatingHours.start} - ${zone.operatingHours.end}). Your booking of ${duration} hour(s) starting at ${selectedTime} would end at ${bookingEndHour}:00.`,
-        [{ text: 'OK' }]
+        'Stations Unavailable',
+        "There aren't enough matching stations free for the whole session. Try a shorter session or another time."
       );
       return;
     }
+    const stationIds = reservedStations.length > 0 ? reservedStations.map(station => station._id) : undefined;
+
+    // Reserve the slot so nobody else can take it while we pay
+    let hold: SlotHold;
+    try {
+      setCheckingAvailability(true);
+      hold = await apiService.createSlotHold({
+        zoneId: id,
+        date: selectedDateString,
+        timeSlot: selectedTime,
+        duration: duration,
+        players,
+        stationIds,
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        Alert.alert('Time No Longer Available', 'Someone just booked part of this time. Please pick another slot.');
+        refreshAvailability();
+        return;
+      }
+      console.error('❌ Slot hold failed:', error);
+      Alert.alert('Connection Problem', getErrorMessage(error, 'We couldn\'t reserve this time. Please try again.'));
+      return;
+    } finally {
+      setCheckingAvailability(false);
+    }
 
     const bookingData = {
       zoneId: id,
       zoneName: zone.name,
-      date: selectedDate.toISOString().split('T')[0],
+      date: selectedDateString,
       timeSlot: selectedTime,
       duration: duration,
+      players,
+      guests,
+      capacity: zone.capacity,
       totalAmount: calculateTotal(),
       pricePerHour: zone.pricePerHour,
+      priceBreakdown: quote,
+      holdId: hold.id,
+      holdExpiresAt: hold.expiresAt,
+      // Names and rates so the payment screen can show and re-quote them
+      stations: stationIds
+        ? reservedStations.map(({ _id, name, pricePerHour }) => ({ _id, name, pricePerHour }))
+        : undefined,
     };
 
     console.log('📅 Booking data:', bookingData);
@@ -259,24 +302,6 @@ export default function BookingFormScreen() {
     });
   };
 
-  const formatFullDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-
-  const isToday = (date: Date) => {
-    const today = new Date();
-    return date.toDateString() === today.toDateString();
-  };
-
-  const isSameDate = (date1: Date, date2: Date) => {
-    return date1.toDateString() === date2.toDateString();
-  };
-
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -329,100 +354,40 @@ export default function BookingFormScreen() {
         </View>
       </View>
 
-      {/* Date Selection */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>📅 Select Date</Text>
-        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dateScroll}>
-          {getNextWeekDates().map((date, index) => (
-            <TouchableOpacity
-              key={index}
-              style={[
-                styles.dateCard,
-                isSameDate(date, selectedDate) && styles.selectedDateCard
-              ]}
-              onPress={() => setSelectedDate(date)}
-            >
-              <Text style={[
-                styles.dateCardDay,
-                isSameDate(date, selectedDate) && styles.selectedDateText
-              ]}>
-                {date.toLocaleDateString('en-US', { weekday: 'short' })}
-              </Text>
-              <Text style={[
-                styles.dateCardDate,
-                isSameDate(date, selectedDate) && styles.selectedDateText
-              ]}>
-                {date.getDate()}
-              </Text>
-              {isToday(date) && (
-                <Text style={[
-                  styles.todayLabel,
-                  isSameDate(date, selectedDate) && styles.selectedTodayLabel
-                ]}>
-                  Today
-                </Text>
-              )}
-            </TouchableOpacity>
-          ))}
-        </ScrollView>
-        <Text style={styles.selectedFullDate}>
-          Selected: {formatFullDate(selectedDate)}
-        </Text>
-      </View>
+      {maxPlayers > 1 && (
+        <PartyPicker
+          players={players}
+          maxPlayers={maxPlayers}
+          onChangePlayers={count => setPlayers(Math.min(maxPlayers, Math.max(1, count)))}
+          guestNames={guestNames}
+          onChangeGuestNames={setGuestNames}
+          perPlayer={pricingRules?.perPlayer}
+        />
+      )}
 
-      {/* Time Selection */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>⏰ Select Time</Text>
-        <View style={styles.timeGrid}>
-          {availableSlots.map((timeSlot) => (
-            <TouchableOpacity
-              key={timeSlot}
-              style={[
-                styles.timeSlot,
-                selectedTime === timeSlot && styles.selectedTimeSlot,
-              ]}
-              onPress={() => setSelectedTime(timeSlot)}
-            >
-              <Text style={[
-                styles.timeSlotText,
-                selectedTime === timeSlot && styles.selectedTimeSlotText,
-              ]}>
-                {timeSlot}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
+      {zone.stations.length > 0 && (
+        <StationPicker
+          stations={zone.stations}
+          selection={stationSelection}
+          onChange={setStationSelection}
+          busyStationIds={busyStationIds}
+        />
+      )}
 
-      {/* Duration Selection */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>⏱️ Duration</Text>
-        <View style={styles.durationContainer}>
-          {[1, 2, 3, 4, 5, 6].map((hours) => (
-            <TouchableOpacity
-              key={hours}
-              style={[
-                styles.durationButton,
-                duration === hours && styles.selectedDurationButton
-              ]}
-              onPress={() => setDuration(hours)}
-            >
-              <Text style={[
-                styles.durationButtonText,
-                duration === hours && styles.selectedDurationButtonText
-              ]}>
-                {hours}h
-              </Text>
-              <Text style={[
-                styles.durationPrice,
-                duration === hours && styles.selectedDurationPrice
-              ]}>
-                ${zone.pricePerHour * hours}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
+      <SlotPicker
+        selectedDate={selectedDate}
+        onSelectDate={setSelectedDate}
+        availability={slotAvailability}
+        loading={loadingSlots}
+        error={slotsError}
+        onRetry={refreshAvailability}
+        selectedTime={selectedTime}
+        onSelectTime={setSelectedTime}
+        duration={duration}
+        onSelectDuration={setDuration}
+        pricePerHour={zone.pricePerHour}
+        priceForDuration={hours => quoteFor(hours).total}
+      />
 
       {/* Booking Summary */}
       <View style={styles.section}>
@@ -444,28 +409,47 @@ export default function BookingFormScreen() {
             <Text style={styles.summaryLabel}>Duration:</Text>
             <Text style={styles.summaryValue}>{duration} hour{duration > 1 ? 's' : ''}</Text>
           </View>
+          {stationSelection.mode !== 'any' && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Stations:</Text>
+              <Text style={styles.summaryValue}>
+                {reservedStations && reservedStations.length > 0
+                  ? reservedStations.map(station => station.name).join(', ')
+                  : 'Not available'}
+              </Text>
+            </View>
+          )}
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Rate:</Text>
-            <Text style={styles.summaryValue}>${zone.pricePerHour}/hour</Text>
-          </View>
-          <View style={[styles.summaryRow, styles.totalRow]}>
-            <Text style={styles.totalLabel}>Total:</Text>
-            <Text style={styles.totalValue}>${calculateTotal()}</Text>
+            <Text style={styles.summaryLabel}>Players:</Text>
+            <Text style={styles.summaryValue}>{players}</Text>
           </View>
+          {guests && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Guests:</Text>
+              <Text style={styles.summaryValue}>{describeGuests(guests)}</Text>
+            </View>
+          )}
+          {quote && <PriceBreakdown quote={quote} />}
         </View>
       </View>
 
       {/* Book Button */}
       <View style={styles.bookingButtonContainer}>
         <TouchableOpacity 
-          style={[styles.bookButton, !selectedTime && styles.disabledButton]}
+          style={[styles.bookButton, (!selectedTime || checkingAvailability) && styles.disabledButton]}
           onPress={handleBooking}
-          disabled={!selectedTime}
+          disabled={!selectedTime || checkingAvailability}
         >
-          <Text style={styles.bookButtonText}>
-            Continue to Payment - ${calculateTotal()}
-          </Text>
-          <Ionicons name="arrow-forward" size={20} color="white" />
+          {checkingAvailability ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <>
+              <Text style={styles.bookButtonText}>
+                Continue to Payment - ${calculateTotal()}
+              </Text>
+              <Ionicons name="arrow-forward" size={20} color="white" />
+            </>
+          )}
         </TouchableOpacity>
       </View>
     </ScrollView>
@@ -603,114 +587,6 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     marginBottom: 16,
   },
-  dateScroll: {
-    marginBottom: 16,
-  },
-  dateCard: {
-    alignItems: 'center',
-    padding: 12,
-    marginRight: 12,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#e5e7eb',
-    backgroundColor: '#f8fafc',
-    minWidth: 70,
-  },
-  selectedDateCard: {
-    backgroundColor: '#6366f1',
-    borderColor: '#6366f1',
-  },
-  dateCardDay: {
-    fontSize: 12,
-    color: '#64748b',
-    fontWeight: '500',
-  },
-  dateCardDate: {
-    fontSize: 18,
-    color: '#1f2937',
-    fontWeight: 'bold',
-    marginTop: 4,
-  },
-  selectedDateText: {
-    color: 'white',
-  },
-  todayLabel: {
-    fontSize: 10,
-    color: '#6366f1',
-    fontWeight: '600',
-    marginTop: 4,
-  },
-  selectedTodayLabel: {
-    color: 'white',
-  },
-  selectedFullDate: {
-    fontSize: 14,
-    color: '#64748b',
-    textAlign: 'center',
-  },
-  timeGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 8,
-  },
-  timeSlot: {
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#e5e7eb',
-    backgroundColor: '#f8fafc',
-    minWidth: 80,
-    alignItems: 'center',
-  },
-  selectedTimeSlot: {
-    backgroundColor: '#6366f1',
-    borderColor: '#6366f1',
-  },
-  timeSlotText: {
-    fontSize: 14,
-    color: '#4b5563',
-    fontWeight: '500',
-  },
-  selectedTimeSlotText: {
-    color: 'white',
-  },
-  durationContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 12,
-  },
-  durationButton: {
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#e5e7eb',
-    backgroundColor: '#f8fafc',
-    minWidth: 90,
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  selectedDurationButton: {
-    backgroundColor: '#6366f1',
-    borderColor: '#6366f1',
-  },
-  durationButtonText: {
-    fontSize: 16,
-    color: '#4b5563',
-    fontWeight: '600',
-  },
-  selectedDurationButtonText: {
-    color: 'white',
-  },
-  durationPrice: {
-    fontSize: 12,
-    color: '#64748b',
-    marginTop: 4,
-  },
-  selectedDurationPrice: {
-    color: 'white',
-    opacity: 0.9,
-  },
   summaryContainer: {
     backgroundColor: '#f8fafc',
     padding: 16,
@@ -723,13 +599,6 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
-  totalRow: {
-    borderBottomWidth: 0,
-    marginTop: 8,
-    paddingTop: 16,
-    borderTopWidth: 2,
-    borderTopColor: '#6366f1',
-  },
   summaryLabel: {
     fontSize: 16,
     color: '#64748b',
@@ -742,19 +611,6 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
-  totalLabel: {
-    fontSize: 18,
-    color: '#1f2937',
-    fontWeight: 'bold',
-    flex: 1,
-  },
-  totalValue: {
-    fontSize: 18,
-    color: '#6366f1',
-    fontWeight: 'bold',
-    flex: 1,
-    textAlign: 'right',
-  },
   bookingButtonContainer: {
     padding: 20,
     backgroundColor: 'white',
@@ -0,0 +1,245 @@
+// app/forgot-password.tsx - Request a password reset email
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import apiService from '../services/api';
+import { ApiError, ValidationError, getErrorMessage } from '../services/apiErrors';
+import { validateEmail } from '../utils/authValidation';
+
+export default function ForgotPasswordScreen() {
+  const params = useLocalSearchParams<{ email?: string }>();
+  const [email, setEmail] = useState(params.email || '');
+  const [loading, setLoading] = useState(false);
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [emailSent, setEmailSent] = useState(false);
+
+  const handleSendReset = async () => {
+    const validationError = validateEmail(email);
+    setEmailError(validationError);
+    setFormError(null);
+    if (validationError) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await apiService.requestPasswordReset(email.trim().toLowerCase());
+      setEmailSent(true);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+
+      if (error instanceof ApiError && error.kind === 'not_found') {
+        // Don't reveal whether the account exists
+        setEmailSent(true);
+      } else if (error instanceof ValidationError) {
+        setEmailError(error.fieldErrors.email || error.message);
+      } else {
+        setFormError(getErrorMessage(error, 'Could not send the reset email. Please try again.'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnterCode = () => {
+    router.push({
+      pathname: '/reset-password',
+      params: { email: email.trim() }
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.content}>
+          <View style={styles.titleSection}>
+            <Text style={styles.title}>Forgot Password?</Text>
+            <Text style={styles.subtitle}>
+              {emailSent
+                ? `If an account exists for ${email.trim()}, we've sent a reset link and code to it.`
+                : 'Enter your account email and we\'ll send you a link to reset your password.'}
+            </Text>
+          </View>
+
+          {formError && (
+            <View style={styles.formError}>
+              <Text style={styles.formErrorText}>{formError}</Text>
+            </View>
+          )}
+
+          {!emailSent ? (
+            <>
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>Email</Text>
+                <TextInput
+                  style={[styles.input, emailError && styles.inputError]}
+                  placeholder="Enter your email"
+                  value={email}
+                  onChangeText={setEmail}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                {emailError && <Text style={styles.fieldErrorText}>{emailError}</Text>}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+                onPress={handleSendReset}
+                disabled={loading}
+              >
+                {loading ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Send Reset Email</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TouchableOpacity style={styles.primaryButton} onPress={handleEnterCode}>
+                <Text style={styles.primaryButtonText}>I Have a Reset Code</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={handleSendReset}
+                disabled={loading}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {loading ? 'Sending...' : 'Resend Email'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  keyboardContainer: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 10,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+  },
+  titleSection: {
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  formError: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  formErrorText: {
+    fontSize: 14,
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  fieldErrorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 6,
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -11,12 +11,27 @@ import {
   Image,
   Dimensions,
   ImageBackground,
+  Pressable,
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { ApiError, createHttpError, getErrorMessage, toApiError } from '../../services/apiErrors';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { recordRecentZone } from '../../utils/savedZones';
+import { ZoneReviewsSection } from '../../components/ZoneReviewsSection';
+import { useUserLocation } from '../../hooks/useUserLocation';
+import { formatDistance, openDirections, zoneDistanceKm } from '../../utils/location';
+import { ZonePhotoGallery } from '../../components/ZonePhotoGallery';
+import { PhotoThumbnailStrip } from '../../components/PhotoThumbnailStrip';
+import { DEFAULT_ZONE_IMAGE, normalizeZonePhotos } from '../../utils/zonePhotos';
+import type { EquipmentCounts, Station, ZonePhoto } from '../../services/api';
+import { normalizeEquipment, normalizeStations, summarizeStationTypes } from '../../utils/stations';
+import { StationCard } from '../../components/StationCard';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+const STATIONS_PREVIEW = 4;
+
 interface GameZone {
   _id: string;
   name: string;
@@ -33,6 +48,7 @@ interface GameZone {
   amenities: string[];
   pricePerHour: number;
   images: string[];
+  photos: ZonePhoto[];
   vendorId: {
     _id: string;
     name: string;
@@ -48,21 +64,21 @@ interface GameZone {
   capacity: number;
   isActive: boolean;
   gameTypes?: string[];
-  equipment?: {
-    pcs: number;
-    consoles: number;
-    vrHeadsets: number;
-    arcadeMachines: number;
-  };
+  equipment?: EquipmentCounts;
+  stations: Station[];
   createdAt: string;
 }
 
 export default function ZoneDetailsScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, reviewBookingId } = useLocalSearchParams<{ id: string; reviewBookingId?: string }>();
   const [zone, setZone] = useState<GameZone | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [galleryVisible, setGalleryVisible] = useState(false);
+  const [showAllStations, setShowAllStations] = useState(false);
+  const { location: userLocation } = useUserLocation();
+  const { isFavorite, toggleFavorite } = useFavorites();
 
   useEffect(() => {
     if (id) {
@@ -73,9 +89,9 @@ export default function ZoneDetailsScreen() {
     }
   }, [id]);
 
-  const loadZoneDetails = async () => {
+  const loadZoneDetails = async (showSpinner: boolean = true) => {
     try {
-      setLoading(true);
+      if (showSpinner) setLoading(true);
       setError(null);
       
       console.log('🔍 Loading zone details for ID:', id);
@@ -88,7 +104,7 @@ export default function ZoneDetailsScreen() {
       const response = await fetch(`https://gamezone-production.up.railway.app/api/gamezones/${id}`);
       
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw createHttpError(response.status, response.statusText, `/api/gamezones/${id}`);
       }
       
       const data = await response.json();
@@ -120,6 +136,8 @@ export default function ZoneDetailsScreen() {
         throw new Error('Zone not found in response');
       }
       
+      const photos = normalizeZonePhotos(gameZone.images);
+
       // Ensure required fields exist with proper defaults
       const formattedZone: GameZone = {
         _id: gameZone._id,
@@ -128,7 +146,8 @@ export default function ZoneDetailsScreen() {
         pricePerHour: gameZone.pricePerHour || 0,
         rating: gameZone.rating || 0,
         totalReviews: gameZone.totalReviews || 0,
-        images: gameZone.images || [],
+        images: photos.map(photo => photo.url),
+        photos,
         location: {
           address: gameZone.location?.address || '',
           city: gameZone.location?.city || '',
@@ -149,28 +168,31 @@ export default function ZoneDetailsScreen() {
           name: 'Unknown Vendor',
           email: 'unknown@example.com'
         },
-        equipment: gameZone.equipment,
+        equipment: normalizeEquipment(gameZone.equipment, gameZone.stations),
+        stations: normalizeStations(gameZone.stations),
         createdAt: gameZone.createdAt || new Date().toISOString()
       };
       
       setZone(formattedZone);
       console.log('✅ Zone details loaded:', formattedZone.name);
+      recordRecentZone(formattedZone);
       
     } catch (error) {
       console.error('❌ Error loading zone details:', error);
       
       let errorMessage = 'Failed to load zone details';
       
-      if (error instanceof Error) {
-        if (error.message.includes('not found') || error.message.includes('404')) {
+      if (error instanceof ApiError || error instanceof TypeError) {
+        const apiError = toApiError(error, `/api/gamezones/${id}`);
+        if (apiError.kind === 'not_found') {
           errorMessage = 'Gaming zone not found or has been removed';
-        } else if (error.message.includes('Network')) {
-          errorMessage = 'Network error. Please check your connection.';
-        } else if (error.message.includes('Invalid')) {
+        } else if (apiError.kind === 'validation') {
           errorMessage = 'Invalid zone ID';
         } else {
-          errorMessage = error.message;
+          errorMessage = apiError.message;
         }
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
       }
       
       setError(errorMessage);
@@ -206,25 +228,23 @@ export default function ZoneDetailsScreen() {
     );
   };
 
-  const handleDirections = () => {
+  const handleToggleFavorite = async () => {
     if (!zone) return;
-    
-    const coordinates = zone.location.coordinates?.coordinates;
-    if (coordinates && coordinates.length >= 2) {
-      const [lng, lat] = coordinates;
-      
-      Alert.alert(
-        'Get Directions',
-        `Open maps to ${zone.location.address}?`,
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { text: 'Open Maps', onPress: () => {
-            console.log(`Opening maps to: ${lat}, ${lng}`);
-            Alert.alert('Maps', `Opening directions to ${zone.location.address}`);
-          }}
-        ]
-      );
-    } else {
+
+    try {
+      await toggleFavorite(zone);
+    } catch (error) {
+      Alert.alert('Favorites', getErrorMessage(error, 'Could not update your favorites. Please try again.'));
+    }
+  };
+
+  const handleDirections = async () => {
+    if (!zone) return;
+
+    try {
+      await openDirections(zone);
+    } catch (error) {
+      console.error('❌ Failed to open maps:', error);
       Alert.alert('Maps', `Address: ${zone.location.address}, ${zone.location.city}, ${zone.location.state}`);
     }
   };
@@ -256,10 +276,6 @@ export default function ZoneDetailsScreen() {
     return stars;
   };
 
-  const getDefaultImage = () => {
-    return 'https://images.unsplash.com/photo-1542751371-adc38448a05e?w=800&h=400&fit=crop';
-  };
-
   const handleImageChange = (direction: 'next' | 'prev') => {
     if (!zone?.images || zone.images.length === 0) return;
     
@@ -290,7 +306,7 @@ export default function ZoneDetailsScreen() {
           <View style={styles.errorActions}>
             <TouchableOpacity
               style={styles.retryButton}
-              onPress={loadZoneDetails}
+              onPress={() => loadZoneDetails()}
             >
               <Ionicons name="refresh" size={20} color="white" />
               <Text style={styles.retryButtonText}>Try Again</Text>
@@ -328,7 +344,9 @@ export default function ZoneDetailsScreen() {
 
   const currentImage = zone.images && zone.images.length > 0 
     ? zone.images[currentImageIndex] 
-    : getDefaultImage();
+    : DEFAULT_ZONE_IMAGE;
+
+  const distance = zoneDistanceKm(userLocation?.coords, zone);
 
   return (
     <View style={styles.container}>
@@ -340,13 +358,21 @@ export default function ZoneDetailsScreen() {
             style={styles.heroImage}
             imageStyle={styles.heroImageStyle}
           >
-            <View style={styles.heroOverlay}>
+            <Pressable
+              style={styles.heroOverlay}
+              onPress={() => setGalleryVisible(true)}
+              disabled={zone.photos.length === 0}
+            >
               <View style={styles.heroHeader}>
                 <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
                   <Ionicons name="arrow-back" size={24} color="white" />
                 </TouchableOpacity>
-                <TouchableOpacity style={styles.favoriteButton}>
-                  <Ionicons name="heart-outline" size={24} color="white" />
+                <TouchableOpacity style={styles.favoriteButton} onPress={handleToggleFavorite}>
+                  <Ionicons
+                    name={isFavorite(zone._id) ? 'heart' : 'heart-outline'}
+                    size={24}
+                    color={isFavorite(zone._id) ? '#ef4444' : 'white'}
+                  />
                 </TouchableOpacity>
               </View>
               
@@ -380,7 +406,16 @@ export default function ZoneDetailsScreen() {
                   </TouchableOpacity>
                 </View>
               )}
-            </View>
+
+              {zone.photos.length > 0 && (
+                <View style={styles.photoCountBadge}>
+                  <Ionicons name="expand" size={14} color="white" />
+                  <Text style={styles.photoCountText}>
+                    {zone.photos.length > 1 ? `${currentImageIndex + 1}/${zone.photos.length}` : 'View'}
+                  </Text>
+                </View>
+              )}
+            </Pressable>
           </ImageBackground>
         </View>
 
@@ -457,8 +492,38 @@ export default function ZoneDetailsScreen() {
             </View>
           )}
 
+          {/* Stations */}
+          {zone.stations.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>💻 Stations</Text>
+              <View style={styles.equipmentGrid}>
+                {summarizeStationTypes(zone.stations).map(summary => (
+                  <View key={summary.value} style={styles.equipmentCard}>
+                    <Text style={styles.equipmentNumber}>{summary.count}</Text>
+                    <Text style={styles.equipmentLabel}>{summary.count === 1 ? summary.label : summary.pluralLabel}</Text>
+                    {summary.fromPrice !== undefined && (
+                      <Text style={styles.equipmentPrice}>from ${summary.fromPrice}/h</Text>
+                    )}
+                  </View>
+                ))}
+              </View>
+              <View style={styles.stationList}>
+                {(showAllStations ? zone.stations : zone.stations.slice(0, STATIONS_PREVIEW)).map(station => (
+                  <StationCard key={station._id} station={station} />
+                ))}
+              </View>
+              {zone.stations.length > STATIONS_PREVIEW && (
+                <TouchableOpacity onPress={() => setShowAllStations(!showAllStations)}>
+                  <Text style={styles.showAllStationsText}>
+                    {showAllStations ? 'Show fewer' : `Show all ${zone.stations.length} stations`}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
           {/* Equipment */}
-          {zone.equipment && (
+          {zone.stations.length === 0 && zone.equipment && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>💻 Equipment</Text>
               <View style={styles.equipmentGrid}>
@@ -490,6 +555,21 @@ export default function ZoneDetailsScreen() {
             </View>
           )}
 
+          {/* Photos */}
+          {zone.photos.length > 1 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>📸 Photos ({zone.photos.length})</Text>
+              <PhotoThumbnailStrip
+                photos={zone.photos}
+                size={88}
+                onSelect={index => {
+                  setCurrentImageIndex(index);
+                  setGalleryVisible(true);
+                }}
+              />
+            </View>
+          )}
+
           {/* Location */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>📍 Location</Text>
@@ -501,11 +581,25 @@ export default function ZoneDetailsScreen() {
                 <Text style={styles.locationCity}>
                   {zone.location.city}, {zone.location.state} {zone.location.zipCode}
                 </Text>
+                {distance !== null && (
+                  <Text style={styles.locationDistance}>
+                    {formatDistance(distance)} from {userLocation?.label}
+                  </Text>
+                )}
               </View>
               <Ionicons name="chevron-forward" size={20} color="#6366f1" />
             </TouchableOpacity>
           </View>
 
+          {/* Reviews */}
+          <ZoneReviewsSection
+            zoneId={zone._id}
+            zoneName={zone.name}
+            totalReviews={zone.totalReviews}
+            reviewBookingId={reviewBookingId}
+            onReviewsChanged={() => loadZoneDetails(false)}
+          />
+
           {/* Vendor Info */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>🏢 Managed by</Text>
@@ -531,6 +625,14 @@ export default function ZoneDetailsScreen() {
           <Text style={styles.bookingButtonPrice}>${zone.pricePerHour}/hour</Text>
         </TouchableOpacity>
       </View>
+
+      <ZonePhotoGallery
+        photos={zone.photos}
+        visible={galleryVisible}
+        initialIndex={currentImageIndex}
+        onIndexChange={setCurrentImageIndex}
+        onClose={() => setGalleryVisible(false)}
+      />
     </View>
   );
 }
@@ -678,6 +780,23 @@ const styles = StyleSheet.create({
   activeImageIndicator: {
     backgroundColor: 'white',
   },
+  photoCountBadge: {
+    position: 'absolute',
+    top: 104,
+    right: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  photoCountText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   infoContainer: {
     backgroundColor: 'white',
     marginTop: -20,
@@ -823,6 +942,21 @@ const styles = StyleSheet.create({
     color: '#92400e',
     marginTop: 4,
   },
+  equipmentPrice: {
+    fontSize: 11,
+    color: '#b45309',
+    marginTop: 2,
+  },
+  stationList: {
+    marginTop: 16,
+  },
+  showAllStationsText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingVertical: 4,
+  },
   locationCard: {
     backgroundColor: '#f8fafc',
     padding: 16,
@@ -844,6 +978,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  locationDistance: {
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginTop: 4,
+  },
   vendorCard: {
     backgroundColor: '#f8fafc',
     padding: 16,
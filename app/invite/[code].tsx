@@ -0,0 +1,368 @@
+// app/invite/[code].tsx - Landing screen for a shared booking invite link (deep-linkable)
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import apiService, { Booking, BookingInvitePreview } from '../../services/api';
+import { ConflictError, NotFoundError, getErrorMessage } from '../../services/apiErrors';
+import { useAuth } from '../../contexts/AuthContext';
+import { bookingDetailsPath } from '../../utils/bookingRoutes';
+import { exportBookingToCalendar } from '../../utils/calendar';
+import { joinedGuestCount } from '../../utils/groupBooking';
+
+const JOINABLE_STATUSES = ['pending', 'confirmed'];
+
+export default function InviteScreen() {
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const { isLoggedIn } = useAuth();
+  const [invite, setInvite] = useState<BookingInvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload after logging in: whether this user already joined depends on who's asking
+  useEffect(() => {
+    if (code) {
+      loadInvite();
+    }
+  }, [code, isLoggedIn]);
+
+  const loadInvite = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setInvite(await apiService.getInvite(code));
+    } catch (err) {
+      console.error('❌ Failed to load invite:', err);
+      setError(
+        err instanceof NotFoundError
+          ? 'This invite link has expired or was cancelled by the host.'
+          : getErrorMessage(err, 'Could not load this invite.')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openBooking = (bookingId: string) => router.replace(bookingDetailsPath(bookingId));
+
+  const offerCalendar = (booking: Booking) => {
+    if (!invite) return;
+
+    Alert.alert(
+      "You're In!",
+      `You've joined ${invite.hostName}'s session. You'll get the same reminders, and your own check-in code is on the booking.`,
+      [
+        {
+          text: 'Add to Calendar',
+          onPress: () => {
+            exportBookingToCalendar({
+              id: booking._id,
+              reference: booking.reference,
+              zoneName: invite.zone.name,
+              address: [invite.zone.location?.address, invite.zone.location?.city, invite.zone.location?.state]
+                .filter(Boolean)
+                .join(', ') || undefined,
+              date: booking.date,
+              timeSlot: booking.timeSlot,
+              duration: booking.duration,
+              status: booking.status,
+            })
+              .catch(exportError => console.error('❌ Calendar export failed:', exportError))
+              .finally(() => openBooking(booking._id));
+          },
+        },
+        { text: 'View Booking', onPress: () => openBooking(booking._id) },
+      ]
+    );
+  };
+
+  const handleJoin = async () => {
+    if (!invite) return;
+
+    if (!isLoggedIn) {
+      Alert.alert('Login Required', 'Log in or create an account to join this booking.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Login', onPress: () => router.push('/login') },
+      ]);
+      return;
+    }
+
+    try {
+      setJoining(true);
+      const booking = await apiService.acceptInvite(invite.code);
+      offerCalendar(booking);
+    } catch (err) {
+      console.error('❌ Failed to join booking:', err);
+      if (err instanceof ConflictError) {
+        Alert.alert('Group Full', 'Every spot in this booking has been taken. Ask the host to add more players.');
+        await loadInvite();
+      } else {
+        Alert.alert('Could Not Join', getErrorMessage(err, 'Please try again.'));
+      }
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+        <Text style={styles.loadingText}>Loading invite...</Text>
+      </View>
+    );
+  }
+
+  if (!invite) {
+    return (
+      <View style={styles.centerContainer}>
+        <Ionicons name="link-outline" size={64} color="#ef4444" />
+        <Text style={styles.errorTitle}>Invite Not Available</Text>
+        <Text style={styles.errorText}>{error || 'This invite could not be found.'}</Text>
+        <View style={styles.errorActions}>
+          <TouchableOpacity style={styles.primaryButton} onPress={loadInvite}>
+            <Text style={styles.primaryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/(tabs)')}>
+            <Text style={styles.secondaryButtonText}>Home</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const joinable = JOINABLE_STATUSES.includes(invite.status);
+  const spotsTaken = 1 + joinedGuestCount(invite.guests);
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backIcon}
+          onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+        >
+          <Ionicons name="arrow-back" size={24} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>You're Invited</Text>
+        <Text style={styles.headerSubtitle}>{invite.hostName} wants you to join their session</Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🎮 {invite.zone.name}</Text>
+        <View style={styles.detailRow}>
+          <Ionicons name="calendar" size={18} color="#64748b" />
+          <Text style={styles.detailText}>{formatDate(invite.date)}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Ionicons name="time" size={18} color="#64748b" />
+          <Text style={styles.detailText}>
+            {invite.timeSlot} • {invite.duration} hour{invite.duration > 1 ? 's' : ''}
+          </Text>
+        </View>
+        {!!invite.zone.location?.city && (
+          <View style={styles.detailRow}>
+            <Ionicons name="location" size={18} color="#64748b" />
+            <Text style={styles.detailText}>
+              {[invite.zone.location.address, invite.zone.location.city].filter(Boolean).join(', ')}
+            </Text>
+          </View>
+        )}
+        <View style={styles.detailRow}>
+          <Ionicons name="people" size={18} color="#64748b" />
+          <Text style={styles.detailText}>{spotsTaken} of {invite.players} players joined</Text>
+        </View>
+      </View>
+
+      {invite.guests.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>👥 Who's Coming</Text>
+          <Text style={styles.guestName}>{invite.hostName} (host)</Text>
+          {invite.guests.map(guest => (
+            <Text key={guest._id} style={styles.guestName}>
+              {guest.name}{guest.status === 'invited' ? ' (invited)' : ''}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        {invite.alreadyJoined ? (
+          <TouchableOpacity style={styles.joinButton} onPress={() => openBooking(invite.bookingId)}>
+            <Text style={styles.joinButtonText}>View Booking</Text>
+          </TouchableOpacity>
+        ) : joinable ? (
+          <TouchableOpacity
+            style={[styles.joinButton, joining && styles.disabledButton]}
+            onPress={handleJoin}
+            disabled={joining}
+          >
+            {joining ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.joinButtonText}>{isLoggedIn ? 'Join Booking' : 'Log In to Join'}</Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.closedText}>This booking is {invite.status.replace('_', ' ')} and can't be joined.</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  errorTitle: {
+    marginTop: 16,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  errorText: {
+    marginTop: 8,
+    marginBottom: 24,
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  errorActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 20,
+    paddingTop: 60,
+    position: 'relative',
+  },
+  backIcon: {
+    position: 'absolute',
+    top: 50,
+    left: 20,
+    zIndex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    paddingLeft: 40,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'white',
+    opacity: 0.9,
+    paddingLeft: 40,
+    marginTop: 4,
+  },
+  section: {
+    backgroundColor: 'white',
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  detailText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 16,
+    color: '#374151',
+  },
+  guestName: {
+    fontSize: 16,
+    color: '#374151',
+    paddingVertical: 6,
+  },
+  actions: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  joinButton: {
+    backgroundColor: '#6366f1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  joinButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  closedText: {
+    fontSize: 15,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+});
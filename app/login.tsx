@@ -1,4 +1,4 @@
-// app/login.tsx - Updated Login Screen with AuthContext integration
+// app/login.tsx - Email/password login backed by the auth API
 import React, { useState } from 'react';
 import {
   View,
@@ -14,6 +14,12 @@ import {
 } from 'react-native';
 import { router } from 'expo-router';
 import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api';
+import { ApiError, ValidationError, getErrorMessage } from '../services/apiErrors';
+import { FieldErrors, hasErrors, validateLoginForm } from '../utils/authValidation';
+
+// Demo credentials are only offered in development builds that opt in explicitly
+const DEMO_LOGIN_ENABLED = __DEV__ && process.env.EXPO_PUBLIC_ENABLE_DEMO_LOGIN === 'true';
 
 export default function LoginScreen() {
   const { login } = useAuth();
@@ -21,69 +27,62 @@ export default function LoginScreen() {
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
 
-  const handleLogin = async () => {
-    if (!email || !password) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
+  const navigateAfterLogin = (role: string) => {
+    if (role === 'vendor') {
+      router.replace('/vendor/dashboard');
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
     }
+  };
 
-    if (!email.includes('@')) {
-      Alert.alert('Error', 'Please enter a valid email address');
+  const handleLogin = async () => {
+    const errors = validateLoginForm(email, password);
+    setFieldErrors(errors);
+    setFormError(null);
+    if (hasErrors(errors)) {
       return;
     }
 
     try {
       setLoading(true);
       
-      // Mock login - replace with your actual authentication
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const response = await apiService.login(email.trim().toLowerCase(), password);
       
-      // Demo credentials
-      if (email === 'sunil@example.com' && password === 'password') {
-        // Create user object
-        const userData = {
-          _id: '1',
-          name: 'Sunil',
-          email: 'sunil@example.com',
-          role: 'user',
-          phone: '+1234567890',
-          isVerified: true,
-          createdAt: new Date().toISOString(),
-          lastLogin: new Date().toISOString(),
-        };
-
-        // Login via AuthContext
-        await login(userData, 'demo_token_123');
-        
-        // Simulate successful login
-        Alert.alert(
-          'Login Successful!',
-          'Welcome back, Sunil!',
-          [
-            {
-              text: 'Continue',
-              onPress: () => {
-                router.back(); // Go back to previous screen
-              },
-            },
-          ]
-        );
-      } else {
-        Alert.alert(
-          'Login Failed',
-          'Invalid email or password. Try:\nEmail: sunil@example.com\nPassword: password'
-        );
+      if (!response.success || !response.token) {
+        setFormError(response.message || 'Login failed. Please try again.');
+        return;
       }
+
+      // Login via AuthContext
+      await login(response.user, response.token, response.refreshToken);
+      console.log('✅ Email login successful:', response.user.email);
+      
+      navigateAfterLogin(response.user.role);
     } catch (error) {
       console.error('Login error:', error);
-      Alert.alert('Error', 'Login failed. Please try again.');
+      
+      if (error instanceof ApiError && error.kind === 'auth_expired') {
+        // A 401 from the login endpoint means the credentials were rejected
+        setFormError('Invalid email or password.');
+      } else if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+        setFormError(error.message);
+      } else {
+        setFormError(getErrorMessage(error, 'Login failed. Please try again.'));
+      }
     } finally {
       setLoading(false);
     }
   };
 
   const handleDemoLogin = async () => {
+    if (!DEMO_LOGIN_ENABLED) return;
+
     try {
       setLoading(true);
       
@@ -121,14 +120,10 @@ export default function LoginScreen() {
   };
 
   const handleForgotPassword = () => {
-    Alert.alert(
-      'Forgot Password',
-      'Password reset functionality would be implemented here.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Send Reset Email', onPress: () => {} },
-      ]
-    );
+    router.push({
+      pathname: '/forgot-password',
+      params: email.trim() ? { email: email.trim() } : {}
+    });
   };
 
   const handleSignUp = () => {
@@ -157,10 +152,16 @@ export default function LoginScreen() {
 
           {/* Login Form */}
           <View style={styles.form}>
+            {formError && (
+              <View style={styles.formError}>
+                <Text style={styles.formErrorText}>{formError}</Text>
+              </View>
+            )}
+
             <View style={styles.inputContainer}>
               <Text style={styles.label}>Email</Text>
               <TextInput
-                style={styles.input}
+                style={[styles.input, fieldErrors.email && styles.inputError]}
                 placeholder="Enter your email"
                 value={email}
                 onChangeText={setEmail}
@@ -168,11 +169,12 @@ export default function LoginScreen() {
                 autoCapitalize="none"
                 autoCorrect={false}
               />
+              {fieldErrors.email && <Text style={styles.fieldErrorText}>{fieldErrors.email}</Text>}
             </View>
 
             <View style={styles.inputContainer}>
               <Text style={styles.label}>Password</Text>
-              <View style={styles.passwordContainer}>
+              <View style={[styles.passwordContainer, fieldErrors.password && styles.inputError]}>
                 <TextInput
                   style={styles.passwordInput}
                   placeholder="Enter your password"
@@ -188,6 +190,7 @@ export default function LoginScreen() {
                   <Text style={styles.eyeIcon}>{showPassword ? '👁️' : '👁️‍🗨️'}</Text>
                 </TouchableOpacity>
               </View>
+              {fieldErrors.password && <Text style={styles.fieldErrorText}>{fieldErrors.password}</Text>}
             </View>
 
             <TouchableOpacity style={styles.forgotPassword} onPress={handleForgotPassword}>
@@ -207,23 +210,26 @@ export default function LoginScreen() {
             </TouchableOpacity>
 
             {/* Demo Login Button */}
-            <TouchableOpacity
-              style={[styles.demoButton, loading && styles.loginButtonDisabled]}
-              onPress={handleDemoLogin}
-              disabled={loading}
-            >
-              <Text style={styles.demoButtonText}>
-                🚀 Quick Demo Login
-              </Text>
-            </TouchableOpacity>
+            {DEMO_LOGIN_ENABLED && (
+              <TouchableOpacity
+                style={[styles.demoButton, loading && styles.loginButtonDisabled]}
+                onPress={handleDemoLogin}
+                disabled={loading}
+              >
+                <Text style={styles.demoButtonText}>
+                  🚀 Quick Demo Login
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Demo Credentials */}
-          <View style={styles.demoSection}>
-            <Text style={styles.demoTitle}>Demo Credentials:</Text>
-            <Text style={styles.demoText}>Email: sunil@example.com</Text>
-            <Text style={styles.demoText}>Password: password</Text>
-          </View>
+          {DEMO_LOGIN_ENABLED && (
+            <View style={styles.demoSection}>
+              <Text style={styles.demoTitle}>Development Demo Account</Text>
+              <Text style={styles.demoText}>Uses a local demo token - no server account</Text>
+            </View>
+          )}
 
           {/* Sign Up Link */}
           <View style={styles.signupSection}>
@@ -290,6 +296,25 @@ const styles = StyleSheet.create({
     color: '#374151',
     marginBottom: 8,
   },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  fieldErrorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 6,
+  },
+  formError: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  formErrorText: {
+    fontSize: 14,
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
   input: {
     borderWidth: 1,
     borderColor: '#d1d5db',
@@ -1,5 +1,5 @@
-// app/payment.tsx - Fixed payment screen with improved validation
-import React, { useState, useEffect } from 'react';
+// app/payment.tsx - Payment screen: provider-authorized payment captured with the booking
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -14,7 +14,28 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import apiService from '../services/api';
+import apiService, { PromoCode } from '../services/api';
+import { ApiError, getErrorMessage } from '../services/apiErrors';
+import {
+  PaymentError,
+  PaymentIntent,
+  PaymentMethodSummary,
+  PaymentProvider,
+  toMinorUnits,
+} from '../services/PaymentProvider';
+import { getPaymentProvider } from '../services/paymentProviders';
+import { IdempotentAttempt, keyForAttempt } from '../utils/idempotency';
+import { recheckBookingWindow } from '../utils/availability';
+import { formatCountdown, useCountdown } from '../hooks/useCountdown';
+import { PriceQuote, PricingRules, pricingRulesForZone, quoteBooking } from '../utils/pricing';
+import { PriceBreakdown } from '../components/PriceBreakdown';
+import { describeGuests } from '../utils/groupBooking';
+import {
+  BookingRecoveryData,
+  CheckoutContext,
+  buildBookingSuccessData,
+  isPaymentSettled,
+} from '../utils/bookingRecovery';
 
 // Try to import useAuth, but handle case where it's not available
 let useAuth: any;
@@ -36,20 +57,50 @@ interface BookingData {
   duration: number;
   totalAmount: number;
   pricePerHour: number;
+  players?: number;
+  /** Quote shown on the booking screen; totalAmount is its total */
+  priceBreakdown?: PriceQuote;
+  /** Code from an earlier attempt, offered again in the promo field */
+  promoCode?: string;
+  holdId?: string;
+  holdExpiresAt?: string;
+  /** Reserved stations, for zones with a station inventory */
+  stations?: { _id: string; name: string; pricePerHour?: number }[];
+  /** Guests named on the booking screen */
+  guests?: { name: string }[];
+  /** Zone capacity, for re-checking availability when there's no hold */
+  capacity?: number;
+}
+
+interface ActiveHold {
+  id: string;
+  zoneId: string;
+  expiresAt: string;
 }
 
+const CURRENCY = 'usd';
+
 export default function PaymentScreen() {
   const { bookingData } = useLocalSearchParams<{ bookingData: string }>();
   const authData = useAuth();
   const { user, isLoggedIn } = authData || { user: null, isLoggedIn: false };
   const [booking, setBooking] = useState<BookingData | null>(null);
   const [loading, setLoading] = useState(false);
+  const [paymentStep, setPaymentStep] = useState<string | null>(null);
+  // Guards against double taps before the `loading` re-render disables the button
+  const submittingRef = useRef(false);
+  // One key per booking attempt, kept across retries so a lost response can't double-book
+  const bookingAttemptRef = useRef<IdempotentAttempt | null>(null);
+
+  // Reserved capacity for the chosen slot; released if the user leaves without booking
+  const [hold, setHold] = useState<ActiveHold | null>(null);
+  const [holdExpired, setHoldExpired] = useState(false);
+  const holdRef = useRef<ActiveHold | null>(null);
+  const holdSecondsLeft = useCountdown(hold?.expiresAt);
   
-  // Card details state
-  const [cardNumber, setCardNumber] = useState('');
-  const [expiryDate, setExpiryDate] = useState('');
-  const [cvv, setCvv] = useState('');
-  const [cardholderName, setCardholderName] = useState('');
+  // Only a display-safe summary; card details stay inside the provider's UI
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodSummary | null>(null);
+  const [selectingMethod, setSelectingMethod] = useState(false);
   
   // Billing address state
   const [email, setEmail] = useState('');
@@ -59,11 +110,21 @@ export default function PaymentScreen() {
   const [zipCode, setZipCode] = useState('');
   const [notes, setNotes] = useState('');
 
+  // Promo code; the zone's rules are needed to re-quote fees and tax around the discount
+  const [pricingRules, setPricingRules] = useState<PricingRules | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+
   useEffect(() => {
     if (bookingData) {
       try {
         const parsedData = JSON.parse(bookingData);
         setBooking(parsedData);
+        if (parsedData.promoCode) {
+          setPromoInput(parsedData.promoCode);
+        }
         console.log('📋 Booking data loaded:', parsedData);
       } catch (error) {
         console.error('Error parsing booking data:', error);
@@ -76,225 +137,446 @@ export default function PaymentScreen() {
     if (user) {
       setEmail(user.email || '');
       setPhone(user.phone || '');
-      setCardholderName(user.name || '');
     }
   }, [bookingData, user]);
 
-  const formatCardNumber = (text: string) => {
-    const cleaned = text.replace(/\D/g, '');
-    const formatted = cleaned.replace(/(\d{4})(?=\d)/g, '$1 ');
-    return formatted.slice(0, 19);
-  };
+  useEffect(() => {
+    if (!bookingData) return;
+    try {
+      const { holdId, holdExpiresAt, zoneId } = JSON.parse(bookingData);
+      if (holdId && holdExpiresAt) {
+        trackHold({ id: holdId, zoneId, expiresAt: holdExpiresAt });
+      }
+    } catch (error) {
+      // Reported by the booking data effect
+    }
+  }, [bookingData]);
 
-  const formatExpiryDate = (text: string) => {
-    const cleaned = text.replace(/\D/g, '');
-    if (cleaned.length >= 2) {
-      return cleaned.slice(0, 2) + '/' + cleaned.slice(2, 4);
+  useEffect(() => {
+    if (!booking) return;
+    apiService.getGameZone(booking.zoneId)
+      .then(zone => setPricingRules(pricingRulesForZone(zone)))
+      .catch(error => console.warn('⚠️ Could not load pricing rules for promo codes:', error));
+  }, [booking?.zoneId]);
+
+  // Leaving the screen (back, or a failed checkout) gives the slot back
+  useEffect(() => {
+    return () => {
+      if (holdRef.current) {
+        apiService.releaseSlotHold(holdRef.current.id, holdRef.current.zoneId);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (holdSecondsLeft === 0 && holdRef.current && !submittingRef.current) {
+      handleHoldExpired();
     }
-    return cleaned;
+  }, [holdSecondsLeft]);
+
+  const trackHold = (next: ActiveHold | null) => {
+    holdRef.current = next;
+    setHold(next);
+    setHoldExpired(false);
   };
 
-  const handleCardNumberChange = (text: string) => {
-    const formatted = formatCardNumber(text);
-    setCardNumber(formatted);
+  // The booking now owns the held capacity; nothing to release on unmount
+  const consumeHold = () => {
+    holdRef.current = null;
   };
 
-  const handleExpiryChange = (text: string) => {
-    const formatted = formatExpiryDate(text);
-    setExpiryDate(formatted);
+  const handleHoldExpired = () => {
+    console.log('⌛ Slot hold expired:', holdRef.current?.id);
+    holdRef.current = null;
+    setHold(null);
+    setHoldExpired(true);
+    Alert.alert(
+      'Reservation Expired',
+      'We could only hold this time slot for a limited time. You can try to reserve it again or pick another time.',
+      [
+        { text: 'Pick Another Time', style: 'cancel', onPress: () => router.back() },
+        { text: 'Reserve Again', onPress: () => reholdSlot() },
+      ]
+    );
   };
 
-  const validateForm = () => {
-    console.log('🔍 Validating form fields:');
-    console.log('Card Number:', cardNumber, 'Length:', cardNumber.replace(/\s/g, '').length);
-    console.log('Expiry Date:', expiryDate, 'Length:', expiryDate.length);
-    console.log('CVV:', cvv, 'Length:', cvv.length);
-    console.log('Cardholder Name:', cardholderName.trim());
-    console.log('Email:', email.trim());
-    
-    // Card number validation (remove spaces and check length)
-    const cleanCardNumber = cardNumber.replace(/\s/g, '');
-    if (!cleanCardNumber || cleanCardNumber.length < 13 || cleanCardNumber.length > 19) {
-      console.log('❌ Card number validation failed');
-      Alert.alert('Invalid Card', 'Please enter a valid card number (13-19 digits)');
-      return false;
+  const reholdSlot = async () => {
+    if (!booking) return;
+    try {
+      const next = await apiService.createSlotHold({
+        zoneId: booking.zoneId,
+        date: booking.date,
+        timeSlot: booking.timeSlot,
+        duration: booking.duration,
+        players: booking.players,
+        stationIds: booking.stations?.map(station => station._id),
+      });
+      trackHold({ id: next.id, zoneId: next.zoneId || booking.zoneId, expiresAt: next.expiresAt });
+    } catch (error) {
+      if (error instanceof ApiError && error.kind === 'conflict') {
+        showSlotUnavailable('Someone else booked this time while it wasn\'t reserved.');
+      } else {
+        Alert.alert('Reservation Failed', getErrorMessage(error, 'We couldn\'t reserve this time. Please try again.'));
+      }
     }
-    
-    // Expiry date validation
-    if (!expiryDate || expiryDate.length !== 5) {
-      console.log('❌ Expiry date validation failed');
-      Alert.alert('Invalid Expiry', 'Please enter a valid expiry date (MM/YY)');
-      return false;
+  };
+
+  const showSlotUnavailable = (reason: string) => {
+    bookingAttemptRef.current = null;
+    Alert.alert(
+      'Time No Longer Available',
+      `${reason} You have not been charged. Please pick another time.`,
+      [{ text: 'Choose Another Time', onPress: () => router.back() }]
+    );
+  };
+
+  const quoteWith = (promo: PromoCode | null): PriceQuote | undefined =>
+    booking && pricingRules
+      ? quoteBooking(
+          {
+            date: booking.date,
+            timeSlot: booking.timeSlot,
+            duration: booking.duration,
+            players: booking.players,
+            stations: booking.stations,
+          },
+          pricingRules,
+          promo || undefined
+        )
+      : booking?.priceBreakdown;
+
+  // Re-quoted from the zone's rules once they load, so a stale total from the previous screen can't be charged
+  const quote = quoteWith(appliedPromo);
+  const totalDue = quote?.total ?? booking?.totalAmount ?? 0;
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim();
+    if (!booking || !code || applyingPromo) return;
+
+    const baseQuote = quoteWith(null);
+    if (!pricingRules || !baseQuote) {
+      setPromoError('Promo codes are unavailable right now. Please try again in a moment.');
+      return;
     }
-    
-    // Check if expiry date is in the future
-    const [month, year] = expiryDate.split('/');
-    const currentDate = new Date();
-    const currentYear = currentDate.getFullYear() % 100; // Get last 2 digits
-    const currentMonth = currentDate.getMonth() + 1;
-    
-    if (parseInt(year) < currentYear || (parseInt(year) === currentYear && parseInt(month) < currentMonth)) {
-      console.log('❌ Expiry date is in the past');
-      Alert.alert('Invalid Expiry', 'Please enter a future expiry date');
-      return false;
+
+    try {
+      setApplyingPromo(true);
+      setPromoError(null);
+      const response = await apiService.validatePromoCode({
+        code,
+        zoneId: booking.zoneId,
+        date: booking.date,
+        timeSlot: booking.timeSlot,
+        duration: booking.duration,
+        amount: baseQuote.subtotal - baseQuote.discount,
+      });
+      setAppliedPromo(response.promo);
+      setPromoInput('');
+      // The amount changed; a fresh attempt gets a fresh idempotency key
+      bookingAttemptRef.current = null;
+    } catch (error) {
+      console.error('❌ Promo code rejected:', error);
+      setPromoError(getErrorMessage(error, 'This code can\'t be applied to this booking.'));
+    } finally {
+      setApplyingPromo(false);
     }
-    
-    // CVV validation
-    if (!cvv || cvv.length < 3 || cvv.length > 4) {
-      console.log('❌ CVV validation failed');
-      Alert.alert('Invalid CVV', 'Please enter a valid CVV (3-4 digits)');
-      return false;
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoError(null);
+    bookingAttemptRef.current = null;
+  };
+
+  const handleSelectPaymentMethod = async () => {
+    if (!booking || selectingMethod) return;
+
+    try {
+      setSelectingMethod(true);
+      const method = await getPaymentProvider().collectPaymentMethod({
+        amount: toMinorUnits(totalDue),
+        currency: CURRENCY,
+      });
+      if (method) {
+        setPaymentMethod(method);
+      }
+    } catch (error) {
+      console.error('❌ Failed to collect payment method:', error);
+      Alert.alert('Payment Method', getErrorMessage(error, 'Could not add a payment method. Please try again.'));
+    } finally {
+      setSelectingMethod(false);
     }
-    
-    // Cardholder name validation
-    if (!cardholderName.trim() || cardholderName.trim().length < 2) {
-      console.log('❌ Cardholder name validation failed');
-      Alert.alert('Invalid Name', 'Please enter a valid cardholder name');
+  };
+
+  const validateForm = () => {
+    if (!paymentMethod) {
+      Alert.alert('Payment Method Required', 'Please add a payment method to continue.');
       return false;
     }
     
-    // Email validation (more flexible)
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!email.trim() || !emailRegex.test(email.trim())) {
-      console.log('❌ Email validation failed');
       Alert.alert('Invalid Email', 'Please enter a valid email address');
       return false;
     }
     
-    console.log('✅ All form validations passed');
     return true;
   };
 
+  // Release an authorization (or refund a capture) when the booking it paid for was rejected
+  const releasePayment = async (provider: PaymentProvider, intent: PaymentIntent): Promise<boolean> => {
+    try {
+      await provider.refund(intent.id);
+      console.log('↩️ Released payment for rejected booking:', intent.id);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to release payment:', intent.id, error);
+      return false;
+    }
+  };
+
+  const getCheckoutContext = (): CheckoutContext => ({
+    zoneId: booking!.zoneId,
+    zoneName: booking!.zoneName,
+    date: booking!.date,
+    timeSlot: booking!.timeSlot,
+    duration: booking!.duration,
+    totalAmount: totalDue,
+    pricePerHour: booking!.pricePerHour,
+    priceBreakdown: quote,
+    promoCode: appliedPromo?.code,
+    players: booking!.players,
+    stations: booking!.stations,
+    guests: booking!.guests,
+    capacity: booking!.capacity,
+    cardLast4: paymentMethod?.last4,
+    userEmail: email,
+    userPhone: phone,
+    userAddress: address ? `${address}, ${city}, ${zipCode}` : undefined,
+    notes: notes || undefined,
+  });
+
+  const showRecovery = (data: Omit<BookingRecoveryData, 'checkout'>) => {
+    router.replace({
+      pathname: '/booking-failed',
+      params: {
+        recoveryData: JSON.stringify({ ...data, checkout: getCheckoutContext() }),
+      }
+    });
+  };
+
   const handlePayment = async () => {
+    if (submittingRef.current) {
+      console.log('⏳ Payment already in progress, ignoring tap');
+      return;
+    }
+
     console.log('💳 Payment button clicked');
-    console.log('📋 Current booking:', booking);
     console.log('🔐 Auth status:', { isLoggedIn, user: user?.name });
     
-    // Add detailed form state logging
-    console.log('📝 Form state:', {
-      cardNumber: cardNumber,
-      cardNumberLength: cardNumber.replace(/\s/g, '').length,
-      expiryDate: expiryDate,
-      expiryDateLength: expiryDate.length,
-      cvv: cvv,
-      cvvLength: cvv.length,
-      cardholderName: cardholderName,
-      cardholderNameTrimmed: cardholderName.trim(),
-      email: email,
-      emailTrimmed: email.trim(),
-      phone: phone
-    });
-    
     if (!booking) {
       Alert.alert('Error', 'No booking data found');
       return;
     }
 
-    if (!validateForm()) {
-      console.log('❌ Form validation failed');
+    if (!validateForm() || !paymentMethod) {
+      return;
+    }
+
+    if (holdExpired) {
+      handleHoldExpired();
       return;
     }
 
+    submittingRef.current = true;
     setLoading(true);
+
+    const bookingRequest = {
+      zoneId: booking.zoneId,
+      date: booking.date,
+      timeSlot: booking.timeSlot,
+      duration: booking.duration,
+      players: booking.players,
+      notes: notes || undefined,
+      holdId: holdRef.current?.id,
+      promoCode: appliedPromo?.code,
+      stationIds: booking.stations?.map(station => station._id),
+      guests: booking.guests,
+    };
+    const attempt = keyForAttempt(bookingAttemptRef.current, 'booking', JSON.stringify(bookingRequest));
+    bookingAttemptRef.current = attempt;
+
+    let provider: PaymentProvider | null = null;
+    let authorizedIntent: PaymentIntent | null = null;
     
     try {
-      // Simulate payment processing
-      console.log('🔄 Processing payment...');
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Try to create booking via API
-      console.log('🔄 Creating booking:', {
-        zoneId: booking.zoneId,
-        date: booking.date,
-        timeSlot: booking.timeSlot,
-        duration: booking.duration,
-        notes: notes || undefined
-      });
+      // Without a hold, re-check right before money moves; the server still enforces it either way
+      if (!bookingRequest.holdId) {
+        setPaymentStep('Checking availability...');
+        try {
+          const check = await recheckBookingWindow(
+            booking.zoneId,
+            booking.date,
+            booking.timeSlot,
+            booking.duration,
+            { seats: booking.players || 1, zoneCapacity: booking.capacity }
+          );
+          if (!check.valid) {
+            showSlotUnavailable(check.reason);
+            return;
+          }
+        } catch (error) {
+          console.warn('⚠️ Availability re-check failed, continuing to checkout:', error);
+        }
+      }
 
-      try {
-        const response = await apiService.createBooking({
-          zoneId: booking.zoneId,
-          date: booking.date,
-          timeSlot: booking.timeSlot,
-          duration: booking.duration,
-          notes: notes || undefined
-        });
+      provider = getPaymentProvider();
 
-        console.log('✅ Booking created successfully:', response);
-
-        // Navigate to success screen with real booking data
-        router.replace({
-          pathname: '/booking-success',
-          params: {
-            bookingData: JSON.stringify({
-              id: response.booking.id,
-              reference: response.booking.reference,
-              zoneName: response.booking.zone.name,
-              zoneId: response.booking.zone.id,
-              date: response.booking.date,
-              timeSlot: response.booking.timeSlot,
-              duration: response.booking.duration,
-              totalAmount: response.booking.totalAmount,
-              pricePerHour: booking.pricePerHour,
-              status: response.booking.status,
-              paymentStatus: response.booking.paymentStatus,
-              qrCode: response.booking.qrCode,
-              cardLast4: cardNumber.slice(-4),
-              createdAt: response.booking.createdAt,
-              userEmail: email,
-              userPhone: phone,
-              userAddress: address ? `${address}, ${city}, ${zipCode}` : undefined,
-              notes: notes || undefined
-            }),
-          }
-        });
-      } catch (apiError) {
-        console.warn('⚠️ API booking failed, using mock success:', apiError);
-        
-        // If API fails, create mock booking for demo
-        const mockBooking = {
-          id: 'mock_' + Date.now(),
-          reference: 'GZ-' + Math.random().toString(36).substr(2, 9).toUpperCase(),
-          zoneName: booking.zoneName,
+      // 1. Authorize. The intent shares the attempt's key, so a retry picks up the same intent.
+      setPaymentStep('Authorizing payment...');
+      let intent = await provider.createIntent({
+        amount: toMinorUnits(totalDue),
+        currency: CURRENCY,
+        idempotencyKey: attempt.key,
+        customerEmail: email.trim(),
+        metadata: {
           zoneId: booking.zoneId,
           date: booking.date,
           timeSlot: booking.timeSlot,
-          duration: booking.duration,
-          totalAmount: booking.totalAmount,
-          pricePerHour: booking.pricePerHour,
-          status: 'confirmed',
-          paymentStatus: 'paid',
-          qrCode: JSON.stringify({
-            bookingId: 'mock_' + Date.now(),
-            reference: 'GZ-' + Math.random().toString(36).substr(2, 9).toUpperCase(),
-            zoneName: booking.zoneName,
-            date: booking.date,
-            timeSlot: booking.timeSlot,
-            duration: booking.duration
-          }),
-          cardLast4: cardNumber.slice(-4),
-          createdAt: new Date().toISOString(),
-          userEmail: email,
-          userPhone: phone,
-          userAddress: address ? `${address}, ${city}, ${zipCode}` : undefined,
-          notes: notes || undefined
-        };
-
-        console.log('✅ Mock booking created:', mockBooking);
-
-        // Navigate to success screen with mock data
-        router.replace({
-          pathname: '/booking-success',
-          params: {
-            bookingData: JSON.stringify(mockBooking),
-          }
+        },
+      });
+
+      if (intent.status !== 'requires_capture' && intent.status !== 'succeeded') {
+        intent = await provider.confirmIntent(intent.id, paymentMethod.id);
+      }
+
+      if (intent.status === 'requires_action') {
+        setPaymentStep('Waiting for card authentication...');
+        intent = await provider.handleNextAction(intent);
+      }
+
+      if (intent.status !== 'requires_capture' && intent.status !== 'succeeded') {
+        throw new PaymentError('authentication_failed', 'Your payment could not be authorized. Please try again.');
+      }
+      authorizedIntent = intent;
+
+      // 2. The server captures the payment in the same transaction that creates the booking
+      setPaymentStep('Confirming booking...');
+      console.log('🔄 Creating booking with payment intent:', intent.id);
+
+      const response = await apiService.createBooking(
+        { ...bookingRequest, paymentIntentId: intent.id },
+        attempt.key
+      );
+
+      console.log(response.recovered ? '✅ Booking recovered by idempotency key:' : '✅ Booking created successfully:', response.booking.reference);
+      consumeHold();
+
+      if (!isPaymentSettled(response.booking)) {
+        // Booking exists but the capture hasn't settled; the recovery screen polls until it does
+        showRecovery({
+          outcome: 'payment_pending',
+          bookingId: response.booking.id || response.booking._id,
+          reference: response.booking.reference,
+          paymentIntentId: intent.id,
         });
+        return;
       }
-      
+
+      router.replace({
+        pathname: '/booking-success',
+        params: {
+          bookingData: JSON.stringify(buildBookingSuccessData(response.booking, getCheckoutContext())),
+        }
+      });
     } catch (error) {
-      console.error('❌ Payment processing error:', error);
-      Alert.alert('Payment Failed', 'There was an error processing your payment. Please try again.');
+      if (error instanceof PaymentError) {
+        console.log(`❌ Payment not authorized (${error.code})`);
+        if (error.code !== 'canceled') {
+          Alert.alert('Payment Failed', error.message);
+        }
+        return;
+      }
+
+      console.error('❌ Checkout failed:', error);
+
+      // Errors the server answered definitively: nothing was booked
+      if (error instanceof ApiError && !error.retryable) {
+        bookingAttemptRef.current = null;
+
+        // Don't hold the customer's money for a booking that was rejected
+        if (provider && authorizedIntent) {
+          const released = await releasePayment(provider, authorizedIntent);
+          if (!released) {
+            consumeHold();
+            showRecovery({
+              outcome: 'payment_taken',
+              paymentIntentId: authorizedIntent.id,
+              idempotencyKey: attempt.key,
+              errorMessage: getErrorMessage(error),
+            });
+            return;
+          }
+        }
+
+        switch (error.kind) {
+          case 'auth_expired':
+            Alert.alert(
+              'Session Expired',
+              'Please log in again to complete your booking. You have not been charged.',
+              [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Login', onPress: () => router.push('/login') }
+              ]
+            );
+            return;
+          case 'conflict':
+            showSlotUnavailable(
+              bookingRequest.holdId
+                ? 'Your reservation for this time slot ran out and it was booked by someone else.'
+                : 'This time slot was just booked by someone else.'
+            );
+            return;
+          case 'validation':
+            if (error.code?.startsWith('promo_') && appliedPromo) {
+              // The code stopped being valid between applying it and paying (limit reached, expired)
+              setAppliedPromo(null);
+              Alert.alert('Promo Code Removed', `${getErrorMessage(error)} You have not been charged.`);
+              return;
+            }
+            Alert.alert('Booking Failed', `${getErrorMessage(error)} You have not been charged.`);
+            return;
+          case 'forbidden':
+          case 'not_found':
+            Alert.alert('Booking Failed', `${getErrorMessage(error)} You have not been charged.`);
+            return;
+          default:
+            // Rejected for some other reason; any authorization was released above
+            showRecovery({
+              outcome: 'not_charged',
+              idempotencyKey: attempt.key,
+              errorMessage: getErrorMessage(error),
+            });
+            return;
+        }
+      }
+
+      // We never heard back. If the payment was authorized the booking may or may not
+      // exist - the recovery screen finds out instead of guessing.
+      if (authorizedIntent) {
+        // A retry from the recovery screen converts the same hold
+        consumeHold();
+      }
+      showRecovery({
+        outcome: authorizedIntent ? 'payment_taken' : 'not_charged',
+        paymentIntentId: authorizedIntent?.id,
+        idempotencyKey: attempt.key,
+        request: authorizedIntent ? { ...bookingRequest, paymentIntentId: authorizedIntent.id } : undefined,
+        errorMessage: getErrorMessage(error),
+      });
     } finally {
+      submittingRef.current = false;
+      setPaymentStep(null);
       setLoading(false);
     }
   };
@@ -309,25 +591,6 @@ export default function PaymentScreen() {
     });
   };
 
-  const getCardType = (number: string) => {
-    const cleaned = number.replace(/\s/g, '');
-    if (cleaned.startsWith('4')) return 'Visa';
-    if (cleaned.startsWith('5') || cleaned.startsWith('2')) return 'Mastercard';
-    if (cleaned.startsWith('3')) return 'Amex';
-    return 'Card';
-  };
-
-  // Add a test fill function for debugging
-  const fillTestData = () => {
-    setCardNumber('4111 1111 1111 1111');
-    setExpiryDate('12/25');
-    setCvv('123');
-    setCardholderName('John Doe');
-    setEmail('john@example.com');
-    setPhone('+1234567890');
-    console.log('🧪 Test data filled');
-  };
-
   if (!booking) {
     return (
       <View style={styles.loadingContainer}>
@@ -349,11 +612,27 @@ export default function PaymentScreen() {
             <Ionicons name="arrow-back" size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>💳 Payment</Text>
-          <TouchableOpacity style={styles.headerRight} onPress={fillTestData}>
-            <Text style={styles.testButton}>Test</Text>
-          </TouchableOpacity>
+          <View style={styles.headerRight} />
         </View>
 
+        {/* Slot Hold */}
+        {hold && holdSecondsLeft !== null && (
+          <View style={[styles.holdBanner, holdSecondsLeft < 60 && styles.holdBannerUrgent]}>
+            <Ionicons name="time-outline" size={18} color={holdSecondsLeft < 60 ? '#b91c1c' : '#4338ca'} />
+            <Text style={[styles.holdText, holdSecondsLeft < 60 && styles.holdTextUrgent]}>
+              Your slot is reserved for {formatCountdown(holdSecondsLeft)}
+            </Text>
+          </View>
+        )}
+        {holdExpired && (
+          <TouchableOpacity style={[styles.holdBanner, styles.holdBannerUrgent]} onPress={reholdSlot}>
+            <Ionicons name="alert-circle-outline" size={18} color="#b91c1c" />
+            <Text style={[styles.holdText, styles.holdTextUrgent]}>
+              Reservation expired - tap to reserve this slot again
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Booking Summary */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>📋 Booking Summary</Text>
@@ -371,74 +650,108 @@ export default function PaymentScreen() {
               <Text style={styles.summaryLabel}>Duration:</Text>
               <Text style={styles.summaryValue}>{booking.duration} hour{booking.duration > 1 ? 's' : ''}</Text>
             </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Rate:</Text>
-              <Text style={styles.summaryValue}>${booking.pricePerHour}/hour</Text>
-            </View>
-            <View style={[styles.summaryRow, styles.totalRow]}>
-              <Text style={styles.totalLabel}>Total Amount:</Text>
-              <Text style={styles.totalValue}>${booking.totalAmount}</Text>
-            </View>
+            {booking.stations && booking.stations.length > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Stations:</Text>
+                <Text style={styles.summaryValue}>{booking.stations.map(station => station.name).join(', ')}</Text>
+              </View>
+            )}
+            {!!booking.players && booking.players > 1 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Players:</Text>
+                <Text style={styles.summaryValue}>{booking.players}</Text>
+              </View>
+            )}
+            {booking.guests && booking.guests.length > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Guests:</Text>
+                <Text style={styles.summaryValue}>{describeGuests(booking.guests)}</Text>
+              </View>
+            )}
+            {quote ? (
+              <PriceBreakdown quote={quote} totalLabel="Total Amount:" />
+            ) : (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Rate:</Text>
+                  <Text style={styles.summaryValue}>${booking.pricePerHour}/hour</Text>
+                </View>
+                <View style={[styles.summaryRow, styles.totalRow]}>
+                  <Text style={styles.totalLabel}>Total Amount:</Text>
+                  <Text style={styles.totalValue}>${booking.totalAmount}</Text>
+                </View>
+              </>
+            )}
           </View>
         </View>
 
-        {/* Payment Method */}
+        {/* Promo Code */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>💳 Payment Method</Text>
-          
-          <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Card Number</Text>
-            <View style={styles.cardInputContainer}>
-              <TextInput
-                style={styles.cardInput}
-                value={cardNumber}
-                onChangeText={handleCardNumberChange}
-                placeholder="1234 5678 9012 3456"
-                keyboardType="numeric"
-                maxLength={19}
-              />
-              <View style={styles.cardTypeContainer}>
-                <Text style={styles.cardType}>{getCardType(cardNumber)}</Text>
+          <Text style={styles.sectionTitle}>🏷️ Promo Code</Text>
+          {appliedPromo ? (
+            <View style={styles.promoApplied}>
+              <Ionicons name="pricetag" size={18} color="#10b981" />
+              <View style={styles.promoAppliedInfo}>
+                <Text style={styles.promoAppliedCode}>{appliedPromo.code}</Text>
+                {!!appliedPromo.description && (
+                  <Text style={styles.promoAppliedDescription}>{appliedPromo.description}</Text>
+                )}
               </View>
+              <TouchableOpacity onPress={handleRemovePromo} disabled={loading}>
+                <Text style={styles.promoRemoveText}>Remove</Text>
+              </TouchableOpacity>
             </View>
-          </View>
-
-          <View style={styles.rowInputs}>
-            <View style={styles.halfInput}>
-              <Text style={styles.inputLabel}>Expiry Date</Text>
-              <TextInput
-                style={styles.input}
-                value={expiryDate}
-                onChangeText={handleExpiryChange}
-                placeholder="MM/YY"
-                keyboardType="numeric"
-                maxLength={5}
-              />
-            </View>
-            <View style={styles.halfInput}>
-              <Text style={styles.inputLabel}>CVV</Text>
+          ) : (
+            <View style={styles.promoRow}>
               <TextInput
-                style={styles.input}
-                value={cvv}
-                onChangeText={setCvv}
-                placeholder="123"
-                keyboardType="numeric"
-                maxLength={4}
-                secureTextEntry
+                style={[styles.input, styles.promoInput]}
+                value={promoInput}
+                onChangeText={text => {
+                  setPromoInput(text);
+                  setPromoError(null);
+                }}
+                placeholder="Enter code"
+                autoCapitalize="characters"
+                autoCorrect={false}
+                editable={!loading && !applyingPromo}
               />
+              <TouchableOpacity
+                style={[styles.promoButton, (!promoInput.trim() || applyingPromo || loading) && styles.disabledButton]}
+                onPress={handleApplyPromo}
+                disabled={!promoInput.trim() || applyingPromo || loading}
+              >
+                {applyingPromo ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.promoButtonText}>Apply</Text>
+                )}
+              </TouchableOpacity>
             </View>
-          </View>
+          )}
+          {promoError && <Text style={styles.promoErrorText}>{promoError}</Text>}
+        </View>
 
-          <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Cardholder Name</Text>
-            <TextInput
-              style={styles.input}
-              value={cardholderName}
-              onChangeText={setCardholderName}
-              placeholder="John Doe"
-              autoCapitalize="words"
-            />
-          </View>
+        {/* Payment Method */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>💳 Payment Method</Text>
+          
+          <TouchableOpacity
+            style={styles.paymentMethodRow}
+            onPress={handleSelectPaymentMethod}
+            disabled={loading || selectingMethod}
+          >
+            <Ionicons name="card-outline" size={22} color="#6366f1" />
+            <Text style={[styles.paymentMethodText, !paymentMethod && styles.paymentMethodPlaceholder]}>
+              {paymentMethod
+                ? paymentMethod.label || `${paymentMethod.brand} •••• ${paymentMethod.last4}`
+                : 'Add a payment method'}
+            </Text>
+            {selectingMethod ? (
+              <ActivityIndicator size="small" color="#6366f1" />
+            ) : (
+              <Text style={styles.paymentMethodAction}>{paymentMethod ? 'Change' : 'Add'}</Text>
+            )}
+          </TouchableOpacity>
         </View>
 
         {/* Billing Information */}
@@ -517,7 +830,7 @@ export default function PaymentScreen() {
         <View style={styles.securityNote}>
           <Ionicons name="shield-checkmark" size={20} color="#10b981" />
           <Text style={styles.securityText}>
-            Your payment information is encrypted and secure
+            Card details are handled by our payment provider and never stored on this device
           </Text>
         </View>
       </ScrollView>
@@ -533,13 +846,13 @@ export default function PaymentScreen() {
           {loading ? (
             <View style={styles.loadingPayment}>
               <ActivityIndicator color="white" />
-              <Text style={styles.loadingPaymentText}>Processing Payment...</Text>
+              <Text style={styles.loadingPaymentText}>{paymentStep || 'Processing Payment...'}</Text>
             </View>
           ) : (
             <>
               <Ionicons name="card" size={20} color="white" />
               <Text style={styles.paymentButtonText}>
-                Pay ${booking.totalAmount}
+                Pay ${totalDue}
               </Text>
             </>
           )}
@@ -588,10 +901,27 @@ const styles = StyleSheet.create({
   headerRight: {
     width: 32,
   },
-  testButton: {
-    color: 'white',
+  holdBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eef2ff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+  },
+  holdBannerUrgent: {
+    backgroundColor: '#fef2f2',
+  },
+  holdText: {
+    marginLeft: 8,
     fontSize: 14,
+    color: '#4338ca',
     fontWeight: '600',
+    flex: 1,
+  },
+  holdTextUrgent: {
+    color: '#b91c1c',
   },
   section: {
     backgroundColor: 'white',
@@ -673,33 +1003,84 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: '#f9fafb',
   },
+  promoRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  promoInput: {
+    flex: 1,
+  },
+  promoButton: {
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+    borderRadius: 8,
+  },
+  promoButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  promoErrorText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#ecfdf5',
+    borderWidth: 1,
+    borderColor: '#a7f3d0',
+  },
+  promoAppliedInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  promoAppliedCode: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#047857',
+  },
+  promoAppliedDescription: {
+    fontSize: 13,
+    color: '#065f46',
+    marginTop: 2,
+  },
+  promoRemoveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
   textArea: {
     height: 80,
     textAlignVertical: 'top',
   },
-  cardInputContainer: {
+  paymentMethodRow: {
     flexDirection: 'row',
     alignItems: 'center',
     borderWidth: 1,
     borderColor: '#d1d5db',
     borderRadius: 8,
+    padding: 14,
     backgroundColor: '#f9fafb',
   },
-  cardInput: {
+  paymentMethodText: {
     flex: 1,
-    padding: 12,
+    marginLeft: 10,
     fontSize: 16,
+    color: '#1f2937',
+    fontWeight: '500',
   },
-  cardTypeContainer: {
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    backgroundColor: '#e5e7eb',
-    borderTopRightRadius: 8,
-    borderBottomRightRadius: 8,
+  paymentMethodPlaceholder: {
+    color: '#9ca3af',
+    fontWeight: '400',
   },
-  cardType: {
-    fontSize: 12,
-    color: '#6b7280',
+  paymentMethodAction: {
+    fontSize: 14,
+    color: '#6366f1',
     fontWeight: '600',
   },
   rowInputs: {
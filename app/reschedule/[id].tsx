@@ -0,0 +1,688 @@
+// app/reschedule/[id].tsx - Move an existing booking to a new time, settling any price difference
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import SlotPicker from '../../components/SlotPicker';
+import { useAvailability } from '../../hooks/useAvailability';
+import apiService, { PromoCode, Station } from '../../services/api';
+import { ApiError, getErrorMessage } from '../../services/apiErrors';
+import {
+  PaymentError,
+  PaymentIntent,
+  PaymentMethodSummary,
+  PaymentProvider,
+  toMinorUnits,
+} from '../../services/PaymentProvider';
+import { getPaymentProvider } from '../../services/paymentProviders';
+import {
+  availabilityForParty,
+  availabilityForSelection,
+  recheckBookingWindow,
+  validateBookingWindow,
+  validateStationWindow,
+} from '../../utils/availability';
+import { IdempotentAttempt, keyForAttempt } from '../../utils/idempotency';
+import { exportBookingToCalendar, hasCalendarExport } from '../../utils/calendar';
+import {
+  calculatePriceDifference,
+  checkRescheduleAllowed,
+  getBookingStart,
+  getRescheduleCutoffHours,
+} from '../../utils/reschedule';
+import { PricingRules, pricingRulesForZone, promoForBooking, quoteBooking } from '../../utils/pricing';
+import type { StationSelection } from '../../utils/stations';
+
+const CURRENCY = 'usd';
+
+interface RescheduleBooking {
+  _id: string;
+  reference: string;
+  zoneId: string;
+  date: string;
+  timeSlot: string;
+  duration: number;
+  /** What was charged, after any promo */
+  totalAmount: number;
+  /** The promo the booking was charged with; the new slot is quoted with it too */
+  promo?: PromoCode;
+  players?: number;
+  /** Reserved stations with the zone's current rates; the booking keeps them when it moves */
+  stations: Station[];
+  status: string;
+}
+
+interface RescheduleZone {
+  name: string;
+  pricePerHour: number;
+  pricing: PricingRules;
+  capacity: number;
+  address: string;
+  reschedulePolicy?: { cutoffHours?: number };
+}
+
+export default function RescheduleBookingScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [booking, setBooking] = useState<RescheduleBooking | null>(null);
+  const [zone, setZone] = useState<RescheduleZone | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [selectedTime, setSelectedTime] = useState('');
+  const [duration, setDuration] = useState(1);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodSummary | null>(null);
+  const [selectingMethod, setSelectingMethod] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [step, setStep] = useState<string | null>(null);
+  const submittingRef = useRef(false);
+  const attemptRef = useRef<IdempotentAttempt | null>(null);
+
+  const selectedDateString = selectedDate.toISOString().split('T')[0];
+  const {
+    availability,
+    loading: loadingSlots,
+    error: slotsError,
+    refresh: refreshAvailability,
+  } = useAvailability(booking?.zoneId, selectedDateString, zone?.capacity || 1, booking?._id);
+
+  useEffect(() => {
+    if (id) {
+      loadBooking();
+    }
+  }, [id]);
+
+  const loadBooking = async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getBooking(id, true);
+      const raw = response.booking;
+      const zoneId = typeof raw.zoneId === 'object' ? raw.zoneId?._id : raw.zoneId;
+      const gameZone = await apiService.getGameZone(zoneId);
+
+      setBooking({
+        _id: raw._id,
+        reference: raw.reference,
+        zoneId,
+        date: raw.date.split('T')[0],
+        timeSlot: raw.timeSlot,
+        duration: raw.duration,
+        totalAmount: raw.totalAmount,
+        promo: promoForBooking(raw),
+        players: raw.players,
+        stations: (raw.stations || []).map(reserved =>
+          gameZone.stations?.find(station => station._id === reserved._id) || { ...reserved, games: [], isActive: true }
+        ),
+        status: raw.status,
+      });
+      setZone({
+        name: gameZone.name,
+        pricePerHour: gameZone.pricePerHour,
+        pricing: pricingRulesForZone(gameZone),
+        capacity: gameZone.capacity,
+        address: [gameZone.location.address, gameZone.location.city, gameZone.location.state].filter(Boolean).join(', '),
+        reschedulePolicy: gameZone.reschedulePolicy,
+      });
+
+      // Start from the current booking; midday keeps the date stable across time zones
+      setSelectedDate(getBookingStart(raw.date, '12:00'));
+      setSelectedTime(raw.timeSlot);
+      setDuration(raw.duration);
+    } catch (error) {
+      console.error('❌ Failed to load booking for reschedule:', error);
+      Alert.alert('Error', getErrorMessage(error, 'Could not load this booking.'), [
+        { text: 'Try Again', onPress: () => loadBooking() },
+        { text: 'Go Back', onPress: () => router.back() },
+      ]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cutoffHours = getRescheduleCutoffHours(zone);
+  const eligibility = booking ? checkRescheduleAllowed(booking, cutoffHours) : null;
+  const quoteFor = (hours: number) =>
+    quoteBooking(
+      {
+        date: selectedDateString,
+        timeSlot: selectedTime || booking!.timeSlot,
+        duration: hours,
+        players: booking!.players,
+        stations: booking!.stations.length > 0 ? booking!.stations : undefined,
+      },
+      zone!.pricing,
+      booking!.promo
+    );
+  // The whole group moves together, so the new time needs a spot for every player
+  const seats = booking?.players || 1;
+  // ...and, for a station booking, its stations free throughout
+  const stationSelection: StationSelection = booking && booking.stations.length > 0
+    ? { mode: 'stations', stationIds: booking.stations.map(station => station._id) }
+    : { mode: 'any' };
+  const partyAvailability = availability && booking
+    ? availabilityForSelection(availabilityForParty(availability, seats), booking.stations, stationSelection)
+    : availability;
+  const price = booking && zone ? calculatePriceDifference(booking.totalAmount, quoteFor(duration).total) : null;
+  const unchanged = !!booking
+    && selectedDateString === booking.date
+    && selectedTime === booking.timeSlot
+    && duration === booking.duration;
+
+  const formatDeadline = (deadline: Date) =>
+    deadline.toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const handleSelectPaymentMethod = async () => {
+    if (!price) return;
+    try {
+      setSelectingMethod(true);
+      const method = await getPaymentProvider().collectPaymentMethod({
+        amount: toMinorUnits(price.difference),
+        currency: CURRENCY,
+      });
+      if (method) {
+        setPaymentMethod(method);
+      }
+    } catch (error) {
+      console.error('❌ Failed to collect payment method:', error);
+      Alert.alert('Payment Method', getErrorMessage(error, 'Could not add a payment method. Please try again.'));
+    } finally {
+      setSelectingMethod(false);
+    }
+  };
+
+  // Authorize the extra amount; the server captures it when it moves the booking
+  const authorizeDifference = async (provider: PaymentProvider, amount: number, key: string): Promise<PaymentIntent> => {
+    let intent = await provider.createIntent({
+      amount: toMinorUnits(amount),
+      currency: CURRENCY,
+      idempotencyKey: key,
+      metadata: { bookingId: booking!._id, reason: 'reschedule' },
+    });
+
+    if (intent.status !== 'requires_capture' && intent.status !== 'succeeded') {
+      intent = await provider.confirmIntent(intent.id, paymentMethod!.id);
+    }
+    if (intent.status === 'requires_action') {
+      setStep('Waiting for card authentication...');
+      intent = await provider.handleNextAction(intent);
+    }
+    if (intent.status !== 'requires_capture' && intent.status !== 'succeeded') {
+      throw new PaymentError('authentication_failed', 'The price difference could not be authorized. Please try again.');
+    }
+    return intent;
+  };
+
+  const handleReschedule = async () => {
+    if (submittingRef.current || !booking || !zone || !price || !eligibility) return;
+
+    if (!eligibility.allowed) {
+      Alert.alert('Cannot Reschedule', eligibility.reason);
+      return;
+    }
+    if (!selectedTime || unchanged) {
+      Alert.alert('Pick a New Time', 'Choose a different date, time or duration to reschedule.');
+      return;
+    }
+    if (availability) {
+      const partyCheck = validateBookingWindow(availability, selectedTime, duration, seats);
+      const check = partyCheck.valid
+        ? validateStationWindow(availability, booking.stations, selectedTime, duration)
+        : partyCheck;
+      if (!check.valid) {
+        Alert.alert('Invalid Time Selection', check.reason);
+        return;
+      }
+    }
+    if (price.kind === 'charge' && !paymentMethod) {
+      Alert.alert('Payment Method Required', `Please add a payment method to pay the $${price.difference} difference.`);
+      return;
+    }
+
+    submittingRef.current = true;
+    setSubmitting(true);
+
+    const changes = { date: selectedDateString, timeSlot: selectedTime, duration };
+    const attempt = keyForAttempt(attemptRef.current, 'reschedule', JSON.stringify({ id: booking._id, ...changes }));
+    attemptRef.current = attempt;
+
+    let provider: PaymentProvider | null = null;
+    let authorizedIntent: PaymentIntent | null = null;
+
+    try {
+      setStep('Checking availability...');
+      try {
+        const check = await recheckBookingWindow(booking.zoneId, changes.date, changes.timeSlot, duration, {
+          excludeBookingId: booking._id,
+          seats,
+          zoneCapacity: zone.capacity,
+          stations: booking.stations,
+        });
+        if (!check.valid) {
+          Alert.alert('Time No Longer Available', check.reason);
+          refreshAvailability();
+          return;
+        }
+      } catch (error) {
+        console.warn('⚠️ Availability re-check failed, continuing with reschedule:', error);
+      }
+
+      if (price.kind === 'charge') {
+        provider = getPaymentProvider();
+        setStep('Authorizing payment...');
+        authorizedIntent = await authorizeDifference(provider, price.difference, attempt.key);
+      }
+
+      setStep('Updating booking...');
+      const response = await apiService.rescheduleBooking(
+        booking._id,
+        { ...changes, paymentIntentId: authorizedIntent?.id },
+        attempt.key
+      );
+      console.log('✅ Booking rescheduled:', response.booking.reference);
+      attemptRef.current = null;
+
+      const settled = response.priceDifference ?? price.difference;
+      const settlement = settled > 0
+        ? `You were charged $${settled}.`
+        : settled < 0
+          ? `$${Math.abs(settled)} will be refunded to your original payment method.`
+          : 'The price is unchanged.';
+
+      const done = () => router.replace('/(tabs)/bookings');
+      const exported = await hasCalendarExport(booking._id);
+      Alert.alert(
+        'Booking Rescheduled',
+        `${zone.name} is now booked for ${changes.date} at ${changes.timeSlot} (${duration}h). ${settlement}`,
+        [
+          // Same event UID with a higher SEQUENCE, so the calendar moves the existing entry
+          ...(exported ? [{
+            text: 'Update Calendar',
+            onPress: async () => {
+              await exportBookingToCalendar({
+                id: booking._id,
+                reference: booking.reference,
+                zoneName: zone.name,
+                address: zone.address,
+                status: response.booking.status,
+                ...changes,
+              }).catch(error => console.error('❌ Calendar update export failed:', error));
+              done();
+            },
+          }] : []),
+          { text: 'OK', onPress: done },
+        ]
+      );
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        console.log(`❌ Reschedule payment not authorized (${error.code})`);
+        if (error.code !== 'canceled') {
+          Alert.alert('Payment Failed', error.message);
+        }
+        return;
+      }
+
+      console.error('❌ Reschedule failed:', error);
+
+      if (error instanceof ApiError && !error.retryable) {
+        attemptRef.current = null;
+        if (provider && authorizedIntent) {
+          try {
+            await provider.refund(authorizedIntent.id);
+          } catch (refundError) {
+            console.error('❌ Failed to release reschedule payment:', authorizedIntent.id, refundError);
+          }
+        }
+
+        if (error.kind === 'conflict') {
+          Alert.alert('Time No Longer Available', 'Someone just booked part of this time. Please pick another slot.');
+          refreshAvailability();
+          return;
+        }
+        Alert.alert('Reschedule Failed', `${getErrorMessage(error)} Your booking has not changed.`);
+        return;
+      }
+
+      // No definitive answer: retrying reuses the same key, so it can't move or charge twice
+      Alert.alert(
+        'Reschedule Not Confirmed',
+        'We couldn\'t confirm the change. Please try again - you won\'t be charged twice.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Retry', onPress: () => handleReschedule() },
+        ]
+      );
+    } finally {
+      submittingRef.current = false;
+      setStep(null);
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+        <Text style={styles.loadingText}>Loading booking...</Text>
+      </View>
+    );
+  }
+
+  if (!booking || !zone || !price || !eligibility) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Booking not available</Text>
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.back()}>
+          <Text style={styles.linkButtonText}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const buttonDisabled = submitting || !eligibility.allowed || !selectedTime || unchanged;
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backIcon} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reschedule Booking</Text>
+        <Text style={styles.headerSubtitle}>{zone.name} • {booking.reference}</Text>
+        <Text style={styles.headerSubtitle}>
+          Currently {booking.date} at {booking.timeSlot} ({booking.duration}h)
+        </Text>
+      </View>
+
+      <View style={[styles.policyBanner, !eligibility.allowed && styles.policyBannerBlocked]}>
+        <Ionicons
+          name={eligibility.allowed ? 'time-outline' : 'lock-closed-outline'}
+          size={18}
+          color={eligibility.allowed ? '#6366f1' : '#ef4444'}
+        />
+        <Text style={[styles.policyText, !eligibility.allowed && styles.policyTextBlocked]}>
+          {eligibility.allowed
+            ? `You can reschedule until ${formatDeadline(eligibility.deadline)} (${cutoffHours}h before start).`
+            : eligibility.reason}
+        </Text>
+      </View>
+
+      {eligibility.allowed && (
+        <SlotPicker
+          selectedDate={selectedDate}
+          onSelectDate={setSelectedDate}
+          availability={partyAvailability}
+          loading={loadingSlots}
+          error={slotsError}
+          onRetry={refreshAvailability}
+          selectedTime={selectedTime}
+          onSelectTime={setSelectedTime}
+          duration={duration}
+          onSelectDuration={setDuration}
+          pricePerHour={zone.pricePerHour}
+          priceForDuration={hours => quoteFor(hours).total}
+        />
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>💵 Price Difference</Text>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>Paid</Text>
+          <Text style={styles.summaryValue}>${booking.totalAmount}</Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>New total ({duration}h)</Text>
+          <Text style={styles.summaryValue}>${price.newTotal}</Text>
+        </View>
+        <View style={[styles.summaryRow, styles.totalRow]}>
+          <Text style={styles.totalLabel}>
+            {price.kind === 'charge' ? 'To pay' : price.kind === 'refund' ? 'To refund' : 'Difference'}
+          </Text>
+          <Text style={[styles.totalValue, price.kind === 'refund' && styles.refundValue]}>
+            ${Math.abs(price.difference)}
+          </Text>
+        </View>
+
+        {price.kind === 'charge' && (
+          <TouchableOpacity
+            style={styles.paymentMethodRow}
+            onPress={handleSelectPaymentMethod}
+            disabled={selectingMethod || submitting}
+          >
+            <Ionicons name="card-outline" size={20} color="#6366f1" />
+            <Text style={styles.paymentMethodText}>
+              {paymentMethod
+                ? paymentMethod.label || `${paymentMethod.brand} •••• ${paymentMethod.last4}`
+                : 'Add a payment method'}
+            </Text>
+            {selectingMethod ? (
+              <ActivityIndicator size="small" color="#6366f1" />
+            ) : (
+              <Text style={styles.paymentMethodAction}>{paymentMethod ? 'Change' : 'Add'}</Text>
+            )}
+          </TouchableOpacity>
+        )}
+        {price.kind === 'refund' && (
+          <Text style={styles.refundNote}>
+            The difference is refunded to your original payment method once the change is confirmed.
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity
+          style={[styles.confirmButton, buttonDisabled && styles.disabledButton]}
+          onPress={handleReschedule}
+          disabled={buttonDisabled}
+        >
+          {submitting ? (
+            <>
+              <ActivityIndicator color="white" />
+              {step && <Text style={styles.confirmButtonText}>  {step}</Text>}
+            </>
+          ) : (
+            <Text style={styles.confirmButtonText}>
+              {unchanged ? 'Pick a New Time' : 'Confirm New Time'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  linkButton: {
+    marginTop: 16,
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  linkButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    backgroundColor: '#6366f1',
+    padding: 20,
+    paddingTop: 60,
+    position: 'relative',
+  },
+  backIcon: {
+    position: 'absolute',
+    top: 50,
+    left: 20,
+    zIndex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    marginBottom: 4,
+    paddingLeft: 40,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'white',
+    opacity: 0.9,
+    paddingLeft: 40,
+    marginTop: 2,
+  },
+  policyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eef2ff',
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+  },
+  policyBannerBlocked: {
+    backgroundColor: '#fef2f2',
+  },
+  policyText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#4338ca',
+  },
+  policyTextBlocked: {
+    color: '#b91c1c',
+  },
+  section: {
+    backgroundColor: 'white',
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  totalRow: {
+    borderBottomWidth: 0,
+    marginTop: 8,
+    paddingTop: 16,
+    borderTopWidth: 2,
+    borderTopColor: '#6366f1',
+  },
+  summaryLabel: {
+    fontSize: 16,
+    color: '#64748b',
+    flex: 1,
+  },
+  summaryValue: {
+    fontSize: 16,
+    color: '#1f2937',
+    fontWeight: '500',
+    textAlign: 'right',
+  },
+  totalLabel: {
+    fontSize: 18,
+    color: '#1f2937',
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  totalValue: {
+    fontSize: 18,
+    color: '#6366f1',
+    fontWeight: 'bold',
+    textAlign: 'right',
+  },
+  refundValue: {
+    color: '#10b981',
+  },
+  refundNote: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+  },
+  paymentMethodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+  },
+  paymentMethodText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  paymentMethodAction: {
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  buttonContainer: {
+    padding: 20,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    marginTop: 16,
+  },
+  confirmButton: {
+    backgroundColor: '#6366f1',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+  },
+  disabledButton: {
+    backgroundColor: '#9ca3af',
+    opacity: 0.6,
+  },
+  confirmButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,279 @@
+// app/reset-password.tsx - Confirm a password reset with the emailed token
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import apiService from '../services/api';
+import { ApiError, ValidationError, getErrorMessage } from '../services/apiErrors';
+import { FieldErrors, PASSWORD_MIN_LENGTH, hasErrors, validateResetForm } from '../utils/authValidation';
+
+export default function ResetPasswordScreen() {
+  // The reset email deep-links here with ?token=..., otherwise the code is typed in
+  const params = useLocalSearchParams<{ token?: string; email?: string }>();
+  const [token, setToken] = useState(params.token || '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleResetPassword = async () => {
+    const errors = validateResetForm(token, password, confirmPassword);
+    setFieldErrors(errors);
+    setFormError(null);
+    if (hasErrors(errors)) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await apiService.resetPassword(token.trim(), password);
+
+      Alert.alert(
+        'Password Updated',
+        'Your password has been reset. Please log in with your new password.',
+        [{ text: 'Login', onPress: () => router.replace('/login') }]
+      );
+    } catch (error) {
+      console.error('Password reset error:', error);
+
+      if (error instanceof ApiError && (error.kind === 'not_found' || error.kind === 'auth_expired')) {
+        setFieldErrors({ token: 'This reset code is invalid or has expired. Please request a new one.' });
+      } else if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+        setFormError(error.message);
+      } else {
+        setFormError(getErrorMessage(error, 'Could not reset your password. Please try again.'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.titleSection}>
+            <Text style={styles.title}>Reset Password</Text>
+            <Text style={styles.subtitle}>
+              {params.email
+                ? `Enter the code sent to ${params.email} and choose a new password.`
+                : 'Enter your reset code and choose a new password.'}
+            </Text>
+          </View>
+
+          {formError && (
+            <View style={styles.formError}>
+              <Text style={styles.formErrorText}>{formError}</Text>
+            </View>
+          )}
+
+          {!params.token && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Reset Code</Text>
+              <TextInput
+                style={[styles.input, fieldErrors.token && styles.inputError]}
+                placeholder="Paste the code from your email"
+                value={token}
+                onChangeText={setToken}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+          )}
+          {fieldErrors.token && <Text style={styles.tokenErrorText}>{fieldErrors.token}</Text>}
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>New Password</Text>
+            <TextInput
+              style={[styles.input, fieldErrors.password && styles.inputError]}
+              placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry={!showPassword}
+              autoCapitalize="none"
+            />
+            {fieldErrors.password && <Text style={styles.fieldErrorText}>{fieldErrors.password}</Text>}
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Confirm New Password</Text>
+            <TextInput
+              style={[styles.input, fieldErrors.confirmPassword && styles.inputError]}
+              placeholder="Re-enter your new password"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry={!showPassword}
+              autoCapitalize="none"
+            />
+            {fieldErrors.confirmPassword && (
+              <Text style={styles.fieldErrorText}>{fieldErrors.confirmPassword}</Text>
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.showPasswordToggle} onPress={() => setShowPassword(!showPassword)}>
+            <Text style={styles.showPasswordText}>{showPassword ? 'Hide passwords' : 'Show passwords'}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+            onPress={handleResetPassword}
+            disabled={loading}
+          >
+            {loading ? (
+              <ActivityIndicator color="#ffffff" size="small" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Reset Password</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => router.replace({ pathname: '/forgot-password', params: { email: params.email || '' } })}
+          >
+            <Text style={styles.linkText}>Request a new code</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  keyboardContainer: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 10,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  titleSection: {
+    alignItems: 'center',
+    marginBottom: 30,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  formError: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  formErrorText: {
+    fontSize: 14,
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  fieldErrorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 6,
+  },
+  tokenErrorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  showPasswordToggle: {
+    alignSelf: 'flex-end',
+    marginBottom: 20,
+  },
+  showPasswordText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    padding: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,382 @@
+// app/signup.tsx - Email/password account creation for players and vendors
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api';
+import { ApiError, ValidationError, getErrorMessage } from '../services/apiErrors';
+import { FieldErrors, PASSWORD_MIN_LENGTH, hasErrors, validateSignUpForm } from '../utils/authValidation';
+
+type SignUpRole = 'user' | 'vendor';
+
+export default function SignUpScreen() {
+  const { login } = useAuth();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [role, setRole] = useState<SignUpRole>('user');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSignUp = async () => {
+    const errors = validateSignUpForm({ name, email, phone, password, confirmPassword });
+    setFieldErrors(errors);
+    setFormError(null);
+    if (hasErrors(errors)) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const response = await apiService.register({
+        name: name.trim(),
+        email: email.trim().toLowerCase(),
+        phone: phone.trim() || undefined,
+        password,
+        role,
+      });
+
+      if (!response.success || !response.token) {
+        setFormError(response.message || 'Sign up failed. Please try again.');
+        return;
+      }
+
+      await login(response.user, response.token, response.refreshToken);
+      console.log('✅ Account created:', response.user.email);
+
+      if (response.user.role === 'vendor') {
+        router.replace('/vendor/welcome');
+      } else {
+        router.replace('/(tabs)');
+      }
+    } catch (error) {
+      console.error('Sign up error:', error);
+
+      if (error instanceof ApiError && error.kind === 'conflict') {
+        setFieldErrors({ email: 'An account with this email already exists' });
+      } else if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+        setFormError(error.message);
+      } else {
+        setFormError(getErrorMessage(error, 'Sign up failed. Please try again.'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderRoleOption = (value: SignUpRole, title: string, description: string) => (
+    <TouchableOpacity
+      style={[styles.roleOption, role === value && styles.roleOptionSelected]}
+      onPress={() => setRole(value)}
+      disabled={loading}
+    >
+      <Text style={[styles.roleTitle, role === value && styles.roleTitleSelected]}>{title}</Text>
+      <Text style={styles.roleDescription}>{description}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.titleSection}>
+            <Text style={styles.title}>Create Account</Text>
+            <Text style={styles.subtitle}>Join GameZone to book and manage gaming sessions</Text>
+          </View>
+
+          <View style={styles.form}>
+            {formError && (
+              <View style={styles.formError}>
+                <Text style={styles.formErrorText}>{formError}</Text>
+              </View>
+            )}
+
+            <Text style={styles.label}>I want to</Text>
+            <View style={styles.roleRow}>
+              {renderRoleOption('user', '🎮 Play', 'Book gaming zones')}
+              {renderRoleOption('vendor', '🏢 Host', 'List and manage my zones')}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Full Name</Text>
+              <TextInput
+                style={[styles.input, fieldErrors.name && styles.inputError]}
+                placeholder="Enter your name"
+                value={name}
+                onChangeText={setName}
+                autoCapitalize="words"
+              />
+              {fieldErrors.name && <Text style={styles.fieldErrorText}>{fieldErrors.name}</Text>}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Email</Text>
+              <TextInput
+                style={[styles.input, fieldErrors.email && styles.inputError]}
+                placeholder="Enter your email"
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              {fieldErrors.email && <Text style={styles.fieldErrorText}>{fieldErrors.email}</Text>}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Phone (optional)</Text>
+              <TextInput
+                style={[styles.input, fieldErrors.phone && styles.inputError]}
+                placeholder="+1 (555) 123-4567"
+                value={phone}
+                onChangeText={setPhone}
+                keyboardType="phone-pad"
+              />
+              {fieldErrors.phone && <Text style={styles.fieldErrorText}>{fieldErrors.phone}</Text>}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Password</Text>
+              <View style={[styles.passwordContainer, fieldErrors.password && styles.inputError]}>
+                <TextInput
+                  style={styles.passwordInput}
+                  placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry={!showPassword}
+                  autoCapitalize="none"
+                />
+                <TouchableOpacity
+                  style={styles.eyeButton}
+                  onPress={() => setShowPassword(!showPassword)}
+                >
+                  <Text style={styles.eyeIcon}>{showPassword ? '👁️' : '👁️‍🗨️'}</Text>
+                </TouchableOpacity>
+              </View>
+              {fieldErrors.password && <Text style={styles.fieldErrorText}>{fieldErrors.password}</Text>}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Confirm Password</Text>
+              <TextInput
+                style={[styles.input, fieldErrors.confirmPassword && styles.inputError]}
+                placeholder="Re-enter your password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+              {fieldErrors.confirmPassword && (
+                <Text style={styles.fieldErrorText}>{fieldErrors.confirmPassword}</Text>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+              onPress={handleSignUp}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator color="#ffffff" size="small" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Create Account</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.footerSection}>
+            <Text style={styles.footerText}>Already have an account? </Text>
+            <TouchableOpacity onPress={() => router.replace('/login')}>
+              <Text style={styles.footerLink}>Login</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  keyboardContainer: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 10,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  titleSection: {
+    alignItems: 'center',
+    marginBottom: 30,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  form: {
+    marginBottom: 30,
+  },
+  formError: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  formErrorText: {
+    fontSize: 14,
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  roleRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  roleOption: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    padding: 14,
+    backgroundColor: '#ffffff',
+  },
+  roleOptionSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  roleTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  roleTitleSelected: {
+    color: '#4338ca',
+  },
+  roleDescription: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  fieldErrorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 6,
+  },
+  passwordContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+  },
+  passwordInput: {
+    flex: 1,
+    padding: 16,
+    fontSize: 16,
+  },
+  eyeButton: {
+    padding: 16,
+  },
+  eyeIcon: {
+    fontSize: 20,
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footerSection: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footerText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  footerLink: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+});
@@ -1,5 +1,5 @@
 // components/BookingCreation.tsx - Updated with notification integration
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -14,6 +14,9 @@ import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
 import apiService from '../services/api';
+import { ApiError } from '../services/apiErrors';
+import { IdempotentAttempt, keyForAttempt } from '../utils/idempotency';
+import { PricingRules, fetchPricingRules, normalizePricingRules, quoteBooking } from '../utils/pricing';
 
 // Try to import notification context
 let useNotifications: any;
@@ -63,6 +66,9 @@ export default function BookingCreation() {
   const [selectedDate, setSelectedDate] = useState('');
   const [selectedTimeSlot, setSelectedTimeSlot] = useState('');
   const [duration, setDuration] = useState(1);
+  const [pricingRules, setPricingRules] = useState<PricingRules>(() =>
+    normalizePricingRules(undefined, parseFloat(pricePerHour || '0'))
+  );
   const [notes, setNotes] = useState('');
   const [availability, setAvailability] = useState<ZoneAvailability | null>(null);
   const [loading, setLoading] = useState(false);
@@ -70,6 +76,8 @@ export default function BookingCreation() {
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
   const [bookingCreated, setBookingCreated] = useState(false);
   const [createdBookingId, setCreatedBookingId] = useState<string | null>(null);
+  const submittingRef = useRef(false);
+  const bookingAttemptRef = useRef<IdempotentAttempt | null>(null);
 
   useEffect(() => {
     // Set default date to tomorrow
@@ -123,6 +131,11 @@ export default function BookingCreation() {
   };
 
   const handleCreateBooking = async () => {
+    if (submittingRef.current) {
+      console.log('⏳ Booking already being created, ignoring tap');
+      return;
+    }
+
     if (!isLoggedIn) {
       Alert.alert(
         'Login Required',
@@ -164,6 +177,7 @@ export default function BookingCreation() {
     }
 
     try {
+      submittingRef.current = true;
       setLoading(true);
       
       const bookingData = {
@@ -176,7 +190,10 @@ export default function BookingCreation() {
       
       console.log('🔄 Creating booking:', bookingData);
       
-      const response = await apiService.createBooking(bookingData);
+      // Same selection => same key, so retrying after a timeout can't create a second booking
+      bookingAttemptRef.current = keyForAttempt(bookingAttemptRef.current, 'booking', JSON.stringify(bookingData));
+      const response = await apiService.createBooking(bookingData, bookingAttemptRef.current.key);
+      bookingAttemptRef.current = null;
       
       console.log('✅ Booking created successfully:', response);
       
@@ -210,8 +227,8 @@ export default function BookingCreation() {
     } catch (error) {
       console.error('❌ Error creating booking:', error);
       
-      if (error instanceof Error) {
-        if (error.message.includes('409') || error.message.includes('conflict')) {
+      if (error instanceof ApiError) {
+        if (error.kind === 'conflict') {
           Alert.alert(
             'Time Slot Conflict',
             'The selected time slot is no longer available. Please choose another time.',
@@ -220,21 +237,25 @@ export default function BookingCreation() {
               { text: 'Cancel', style: 'cancel' }
             ]
           );
-        } else if (error.message.includes('operating hours')) {
+        } else if (error.kind === 'validation') {
+          Alert.alert('Invalid Booking', error.message);
+        } else if (error.kind === 'auth_expired') {
           Alert.alert(
-            'Outside Operating Hours',
-            'Your selected time is outside the zone\'s operating hours. Please choose a different time.'
+            'Session Expired',
+            error.message,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Login', onPress: () => router.push('/login') }
+            ]
           );
         } else {
-          Alert.alert(
-            'Booking Failed',
-            'Failed to create booking. Please try again or contact support.'
-          );
+          Alert.alert('Booking Failed', error.message);
         }
       } else {
         Alert.alert('Error', 'An unexpected error occurred. Please try again.');
       }
     } finally {
+      submittingRef.current = false;
       setLoading(false);
     }
   };
@@ -247,9 +268,21 @@ export default function BookingCreation() {
     return `${displayHour}:${minutes} ${ampm}`;
   };
 
+  useEffect(() => {
+    if (zoneId) {
+      fetchPricingRules(zoneId, parseFloat(pricePerHour || '0')).then(setPricingRules);
+    }
+  }, [zoneId]);
+
   const calculateTotal = () => {
-    const hourlyRate = parseFloat(pricePerHour || '0');
-    return (hourlyRate * duration).toFixed(2);
+    if (!selectedDate) {
+      return (parseFloat(pricePerHour || '0') * duration).toFixed(2);
+    }
+    const quote = quoteBooking(
+      { date: selectedDate, timeSlot: selectedTimeSlot || '00:00', duration },
+      pricingRules
+    );
+    return quote.total.toFixed(2);
   };
 
   const getMinDate = () => {
@@ -0,0 +1,105 @@
+// components/BookingQRCode.tsx - Scannable check-in QR for a booking
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import apiService from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+import { isSignedCheckInCode } from '../utils/checkInCode';
+
+interface BookingQRCodeProps {
+  bookingId: string;
+  reference: string;
+  /** The booking's `qrCode`; used directly when it's already a signed code */
+  qrCode?: string;
+  size?: number;
+}
+
+export function BookingQRCode({ bookingId, reference, qrCode, size = 200 }: BookingQRCodeProps) {
+  const [code, setCode] = useState<string | null>(isSignedCheckInCode(qrCode) ? qrCode : null);
+  const [loading, setLoading] = useState(!code);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCode = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // Served from the persistent response cache when offline
+      const response = await apiService.getCheckInCode(bookingId);
+      setCode(response.code);
+    } catch (err) {
+      console.error('❌ Failed to load check-in code:', err);
+      setError(getErrorMessage(err, 'Could not load your check-in code.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isSignedCheckInCode(qrCode)) {
+      setCode(qrCode);
+      setLoading(false);
+      return;
+    }
+    loadCode();
+  }, [bookingId, qrCode]);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.codeBox, { width: size + 32, height: size + 32 }]}>
+        {code ? (
+          <QRCode value={code} size={size} ecl="M" />
+        ) : loading ? (
+          <ActivityIndicator size="large" color="#6366f1" />
+        ) : (
+          <TouchableOpacity onPress={loadCode} style={styles.retry}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText}>Tap to retry</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.reference}>#{reference}</Text>
+      <Text style={styles.hint}>Show this code at the zone to check in</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  codeBox: {
+    backgroundColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  retry: {
+    alignItems: 'center',
+    padding: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  retryText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  reference: {
+    marginTop: 12,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    letterSpacing: 1,
+  },
+  hint: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+});
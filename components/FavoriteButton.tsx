@@ -0,0 +1,49 @@
+// components/FavoriteButton.tsx - Heart toggle for saving a zone to favorites
+import React from 'react';
+import { TouchableOpacity, StyleSheet, Alert, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { getErrorMessage } from '../services/apiErrors';
+import type { ZoneSummary } from '../utils/savedZones';
+
+interface FavoriteButtonProps {
+  zone: ZoneSummary;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function FavoriteButton({ zone, size = 22, style }: FavoriteButtonProps) {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const favorite = isFavorite(zone._id);
+
+  const handlePress = async () => {
+    try {
+      await toggleFavorite(zone);
+    } catch (error) {
+      Alert.alert('Favorites', getErrorMessage(error, 'Could not update your favorites. Please try again.'));
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={handlePress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      accessibilityRole="button"
+      accessibilityLabel={favorite ? `Remove ${zone.name} from favorites` : `Add ${zone.name} to favorites`}
+    >
+      <Ionicons name={favorite ? 'heart' : 'heart-outline'} size={size} color={favorite ? '#ef4444' : '#64748b'} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,213 @@
+// components/LocationPicker.tsx - Choose the search location: device position or a typed city/postcode
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { UserLocationStatus } from '../hooks/useUserLocation';
+import type { UserLocation } from '../utils/location';
+
+interface LocationPickerProps {
+  visible: boolean;
+  location: UserLocation | null;
+  status: UserLocationStatus;
+  onUseDevice: () => void;
+  onSubmitPlace: (query: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const STATUS_MESSAGES: Partial<Record<UserLocationStatus, string>> = {
+  denied: 'Location access is off. Enter a city or postcode instead, or allow access in Settings.',
+  not_found: "We couldn't find that place. Try a city name or postcode.",
+  error: "We couldn't get your location. Please try again.",
+};
+
+export function LocationPicker({
+  visible,
+  location,
+  status,
+  onUseDevice,
+  onSubmitPlace,
+  onClear,
+  onClose,
+}: LocationPickerProps) {
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setQuery(location?.source === 'manual' ? location.label : '');
+    }
+  }, [visible]);
+
+  const locating = status === 'locating';
+  const message = STATUS_MESSAGES[status];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#374151" />
+            </TouchableOpacity>
+            <Text style={styles.sheetTitle}>Search Location</Text>
+            <TouchableOpacity onPress={onClear} disabled={!location}>
+              <Text style={[styles.clearText, !location && styles.disabledText]}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.content}>
+            <TouchableOpacity style={styles.deviceButton} onPress={onUseDevice} disabled={locating}>
+              <Ionicons name="navigate" size={20} color="#6366f1" />
+              <Text style={styles.deviceButtonText}>Use my current location</Text>
+              {locating && <ActivityIndicator size="small" color="#6366f1" />}
+            </TouchableOpacity>
+
+            <Text style={styles.orText}>or enter a city or postcode</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                value={query}
+                onChangeText={setQuery}
+                placeholder="e.g. Austin or 78701"
+                placeholderTextColor="#9ca3af"
+                returnKeyType="search"
+                onSubmitEditing={() => query.trim() && onSubmitPlace(query)}
+                editable={!locating}
+              />
+              <TouchableOpacity
+                style={[styles.goButton, (!query.trim() || locating) && styles.goButtonDisabled]}
+                onPress={() => onSubmitPlace(query)}
+                disabled={!query.trim() || locating}
+              >
+                <Text style={styles.goButtonText}>Set</Text>
+              </TouchableOpacity>
+            </View>
+
+            {message && <Text style={styles.messageText}>{message}</Text>}
+
+            {location && (
+              <View style={styles.currentRow}>
+                <Ionicons name="location" size={16} color="#10b981" />
+                <Text style={styles.currentText} numberOfLines={1}>
+                  Currently near {location.label}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  clearText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  deviceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#eef2ff',
+  },
+  deviceButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4338ca',
+  },
+  orText: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9fafb',
+  },
+  goButton: {
+    marginLeft: 12,
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 20,
+    paddingVertical: 13,
+    borderRadius: 8,
+  },
+  goButtonDisabled: {
+    opacity: 0.5,
+  },
+  goButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  messageText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#dc2626',
+    lineHeight: 20,
+  },
+  currentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  currentText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+});
@@ -0,0 +1,40 @@
+// components/MapUnavailable.tsx - Placeholder shown where the zone map can't be rendered
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface MapUnavailableProps {
+  title: string;
+}
+
+export function MapUnavailable({ title }: MapUnavailableProps) {
+  return (
+    <View style={styles.container}>
+      <Ionicons name="map-outline" size={64} color="#d1d5db" />
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.description}>Switch back to the list to browse zones.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#4b5563',
+    marginTop: 16,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+});
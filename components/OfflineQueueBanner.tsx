@@ -0,0 +1,102 @@
+// components/OfflineQueueBanner.tsx - Shows queued offline changes and their sync outcome
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+
+interface OfflineQueueBannerProps {
+  style?: any;
+}
+
+export function OfflineQueueBanner({ style }: OfflineQueueBannerProps) {
+  const { pendingCount, results, isSyncing, isOnline, flush, dismissResult } = useOfflineQueue();
+
+  // Successful syncs are silent; only conflicts and failures need the user's attention
+  const problems = results.filter(result => result.status !== 'synced');
+
+  if (pendingCount === 0 && problems.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      {pendingCount > 0 && (
+        <View style={[styles.row, styles.pendingRow]}>
+          {isSyncing ? (
+            <ActivityIndicator size="small" color="#92400e" />
+          ) : (
+            <Ionicons name="cloud-offline-outline" size={18} color="#92400e" />
+          )}
+          <Text style={styles.pendingText}>
+            {isSyncing
+              ? 'Syncing your offline changes...'
+              : `${pendingCount} change${pendingCount > 1 ? 's' : ''} waiting to sync${isOnline ? '' : ' (offline)'}`}
+          </Text>
+          {!isSyncing && (
+            <TouchableOpacity onPress={flush}>
+              <Text style={styles.actionText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {problems.map(result => (
+        <View
+          key={result.mutation.id}
+          style={[styles.row, result.status === 'conflict' ? styles.conflictRow : styles.failedRow]}
+        >
+          <Ionicons
+            name={result.status === 'conflict' ? 'git-compare-outline' : 'alert-circle-outline'}
+            size={18}
+            color="#991b1b"
+          />
+          <Text style={styles.problemText}>{result.message}</Text>
+          <TouchableOpacity onPress={() => dismissResult(result.mutation.id)}>
+            <Ionicons name="close" size={18} color="#991b1b" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 10,
+  },
+  pendingRow: {
+    backgroundColor: '#fef3c7',
+  },
+  conflictRow: {
+    backgroundColor: '#fee2e2',
+  },
+  failedRow: {
+    backgroundColor: '#fef2f2',
+  },
+  pendingText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#92400e',
+    fontWeight: '500',
+  },
+  problemText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#991b1b',
+  },
+  actionText: {
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+});
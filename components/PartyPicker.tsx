@@ -0,0 +1,153 @@
+// components/PartyPicker.tsx - Booking-flow group size and optional guest names
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { PerPlayerPricing } from '../utils/pricing';
+import { MAX_GUEST_NAME_LENGTH, resizeGuestNames } from '../utils/groupBooking';
+
+interface PartyPickerProps {
+  players: number;
+  maxPlayers: number;
+  onChangePlayers: (players: number) => void;
+  /** May be longer than the party; only the first `players - 1` are shown */
+  guestNames: string[];
+  onChangeGuestNames: (names: string[]) => void;
+  perPlayer?: PerPlayerPricing;
+}
+
+export function PartyPicker({
+  players,
+  maxPlayers,
+  onChangePlayers,
+  guestNames,
+  onChangeGuestNames,
+  perPlayer,
+}: PartyPickerProps) {
+  const fields = resizeGuestNames(guestNames, players);
+
+  const setGuestName = (index: number, name: string) => {
+    const next = [...guestNames];
+    next[index] = name;
+    onChangeGuestNames(next);
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>👥 Your Group</Text>
+
+      <View style={styles.countRow}>
+        <View>
+          <Text style={styles.countLabel}>Players</Text>
+          <Text style={styles.countHint}>Up to {maxPlayers} per booking</Text>
+        </View>
+        <View style={styles.stepper}>
+          <TouchableOpacity onPress={() => onChangePlayers(players - 1)} disabled={players <= 1}>
+            <Ionicons name="remove-circle-outline" size={26} color={players <= 1 ? '#d1d5db' : '#6366f1'} />
+          </TouchableOpacity>
+          <Text style={styles.countValue}>{players}</Text>
+          <TouchableOpacity onPress={() => onChangePlayers(players + 1)} disabled={players >= maxPlayers}>
+            <Ionicons name="add-circle-outline" size={26} color={players >= maxPlayers ? '#d1d5db' : '#6366f1'} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {perPlayer && (
+        <Text style={styles.hint}>
+          Includes {perPlayer.includedPlayers} player{perPlayer.includedPlayers === 1 ? '' : 's'}; each extra player
+          is ${perPlayer.pricePerExtraPlayerPerHour}/hour.
+        </Text>
+      )}
+
+      {fields.length > 0 && (
+        <>
+          <Text style={styles.guestsTitle}>Guests (optional)</Text>
+          {fields.map((name, index) => (
+            <TextInput
+              key={index}
+              style={styles.input}
+              value={name}
+              onChangeText={text => setGuestName(index, text)}
+              placeholder={`Player ${index + 2}`}
+              placeholderTextColor="#9ca3af"
+              maxLength={MAX_GUEST_NAME_LENGTH}
+              autoCapitalize="words"
+            />
+          ))}
+          <Text style={styles.hint}>
+            After booking, share the invite link so friends can see the booking, get reminders and check in with their
+            own QR code.
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  countLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  countHint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  countValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  guestsTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9fafb',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#64748b',
+    lineHeight: 18,
+    marginTop: 12,
+  },
+});
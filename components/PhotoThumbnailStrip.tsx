@@ -0,0 +1,90 @@
+// components/PhotoThumbnailStrip.tsx - Horizontal, lazily rendered row of cached photo thumbnails
+import React, { useEffect, useRef } from 'react';
+import { FlatList, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import type { ZonePhoto } from '../services/api';
+import { photoThumbnail } from '../utils/zonePhotos';
+
+interface PhotoThumbnailStripProps {
+  photos: ZonePhoto[];
+  onSelect: (index: number) => void;
+  /** Highlighted and kept in view */
+  selectedIndex?: number;
+  size?: number;
+  /** Gallery footer on black instead of the light page background */
+  dark?: boolean;
+}
+
+const THUMBNAIL_GAP = 8;
+
+export function PhotoThumbnailStrip({ photos, onSelect, selectedIndex, size = 72, dark = false }: PhotoThumbnailStripProps) {
+  const listRef = useRef<FlatList<ZonePhoto>>(null);
+
+  useEffect(() => {
+    if (selectedIndex === undefined || selectedIndex >= photos.length) return;
+    listRef.current?.scrollToIndex({ index: selectedIndex, viewPosition: 0.5, animated: true });
+  }, [selectedIndex, photos.length]);
+
+  return (
+    <FlatList
+      ref={listRef}
+      data={photos}
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      keyExtractor={photo => photo._id}
+      contentContainerStyle={styles.content}
+      // Only the visible thumbnails (plus a small window) are mounted and fetched
+      initialNumToRender={6}
+      maxToRenderPerBatch={6}
+      windowSize={3}
+      getItemLayout={(_, index) => ({ length: size + THUMBNAIL_GAP, offset: (size + THUMBNAIL_GAP) * index, index })}
+      renderItem={({ item, index }) => (
+        <TouchableOpacity
+          style={[
+            styles.thumbnail,
+            { width: size, height: size },
+            dark && styles.thumbnailDark,
+            index === selectedIndex && styles.thumbnailSelected,
+          ]}
+          onPress={() => onSelect(index)}
+          accessibilityLabel={item.caption || `Photo ${index + 1}`}
+        >
+          <Image
+            source={{ uri: photoThumbnail(item) }}
+            style={styles.image}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            recyclingKey={item._id}
+            transition={150}
+          />
+        </TouchableOpacity>
+      )}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 4,
+  },
+  thumbnail: {
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginRight: THUMBNAIL_GAP,
+    backgroundColor: '#e5e7eb',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  thumbnailDark: {
+    backgroundColor: '#1f2937',
+    opacity: 0.6,
+  },
+  thumbnailSelected: {
+    borderColor: '#6366f1',
+    opacity: 1,
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+});
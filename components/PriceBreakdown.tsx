@@ -0,0 +1,73 @@
+// components/PriceBreakdown.tsx - Itemised price lines and total for a booking quote
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PriceQuote, formatPrice } from '../utils/pricing';
+
+interface PriceBreakdownProps {
+  quote: PriceQuote;
+  totalLabel?: string;
+}
+
+export function PriceBreakdown({ quote, totalLabel = 'Total:' }: PriceBreakdownProps) {
+  return (
+    <View>
+      {quote.lines.map((line, index) => (
+        <View key={`${line.kind}-${index}`} style={styles.row}>
+          <Text style={styles.label}>{line.label}</Text>
+          <Text style={[styles.value, (line.kind === 'discount' || line.kind === 'promo') && styles.discountValue]}>
+            {formatPrice(line.amount)}
+          </Text>
+        </View>
+      ))}
+      <View style={[styles.row, styles.totalRow]}>
+        <Text style={styles.totalLabel}>{totalLabel}</Text>
+        <Text style={styles.totalValue}>{formatPrice(quote.total)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  totalRow: {
+    borderBottomWidth: 0,
+    marginTop: 8,
+    paddingTop: 16,
+    borderTopWidth: 2,
+    borderTopColor: '#6366f1',
+  },
+  label: {
+    fontSize: 16,
+    color: '#64748b',
+    flex: 2,
+  },
+  value: {
+    fontSize: 16,
+    color: '#1f2937',
+    fontWeight: '500',
+    flex: 1,
+    textAlign: 'right',
+  },
+  discountValue: {
+    color: '#10b981',
+  },
+  totalLabel: {
+    fontSize: 18,
+    color: '#1f2937',
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  totalValue: {
+    fontSize: 18,
+    color: '#6366f1',
+    fontWeight: 'bold',
+    flex: 1,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,159 @@
+// components/ReportReviewSheet.tsx - Pick a reason to flag a review for moderation
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { REPORT_REASONS } from '../utils/reviews';
+
+interface ReportReviewSheetProps {
+  visible: boolean;
+  submitting: boolean;
+  onSubmit: (reason: string, details?: string) => void;
+  onClose: () => void;
+}
+
+export function ReportReviewSheet({ visible, submitting, onSubmit, onClose }: ReportReviewSheetProps) {
+  const [reason, setReason] = useState<string | null>(null);
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+    }
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <TouchableOpacity onPress={onClose} disabled={submitting}>
+              <Ionicons name="close" size={24} color="#374151" />
+            </TouchableOpacity>
+            <Text style={styles.sheetTitle}>Report Review</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <View style={styles.content}>
+            <Text style={styles.prompt}>Why should we take a look at this review?</Text>
+            {REPORT_REASONS.map(option => (
+              <TouchableOpacity key={option.value} style={styles.reasonRow} onPress={() => setReason(option.value)}>
+                <Ionicons
+                  name={reason === option.value ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={reason === option.value ? '#6366f1' : '#9ca3af'}
+                />
+                <Text style={styles.reasonText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TextInput
+              style={styles.detailsInput}
+              value={details}
+              onChangeText={setDetails}
+              placeholder="Anything else we should know? (optional)"
+              placeholderTextColor="#9ca3af"
+              multiline
+              maxLength={500}
+              textAlignVertical="top"
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.submitButton, (!reason || submitting) && styles.submitButtonDisabled]}
+            onPress={() => reason && onSubmit(reason, details.trim() || undefined)}
+            disabled={!reason || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.submitButtonText}>Send Report</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 24,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  prompt: {
+    fontSize: 15,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+  },
+  reasonText: {
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  detailsInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: '#f9fafb',
+    minHeight: 80,
+    marginTop: 12,
+  },
+  submitButton: {
+    backgroundColor: '#ef4444',
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
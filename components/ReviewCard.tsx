@@ -0,0 +1,217 @@
+// components/ReviewCard.tsx - One review with sub-scores, vendor reply and actions
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { Review } from '../services/api';
+import { StarRating } from './StarRating';
+import { SUB_SCORE_OPTIONS, formatReviewDate } from '../utils/reviews';
+
+interface ReviewCardProps {
+  review: Review;
+  /** The signed-in user wrote it: offer edit/delete instead of report */
+  isOwn?: boolean;
+  /** Vendor listings name the zone, since they span several */
+  showZone?: boolean;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onReport?: () => void;
+  onReply?: () => void;
+}
+
+export function ReviewCard({ review, isOwn = false, showZone = false, onEdit, onDelete, onReport, onReply }: ReviewCardProps) {
+  const subScores = SUB_SCORE_OPTIONS.filter(option => review.subScores?.[option.key]);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        {review.user.profileImage ? (
+          <Image source={{ uri: review.user.profileImage }} style={styles.avatar} />
+        ) : (
+          <View style={styles.avatarPlaceholder}>
+            <Text style={styles.avatarText}>{review.user.name.charAt(0).toUpperCase()}</Text>
+          </View>
+        )}
+        <View style={styles.headerText}>
+          <Text style={styles.name} numberOfLines={1}>
+            {review.user.name}{isOwn ? ' (you)' : ''}
+          </Text>
+          <Text style={styles.date}>
+            {formatReviewDate(review.createdAt)}
+            {review.updatedAt && review.updatedAt !== review.createdAt ? ' • edited' : ''}
+          </Text>
+        </View>
+        <StarRating rating={review.rating} size={14} />
+      </View>
+
+      {showZone && review.zone && <Text style={styles.zoneName}>🎮 {review.zone.name}</Text>}
+
+      {!!review.comment && <Text style={styles.comment}>{review.comment}</Text>}
+
+      {subScores.length > 0 && (
+        <View style={styles.subScores}>
+          {subScores.map(option => (
+            <View key={option.key} style={styles.subScore}>
+              <Text style={styles.subScoreLabel}>{option.label}</Text>
+              <Text style={styles.subScoreValue}>{review.subScores![option.key]}/5</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {review.vendorReply && (
+        <View style={styles.reply}>
+          <Text style={styles.replyLabel}>Response from the venue</Text>
+          <Text style={styles.replyText}>{review.vendorReply.text}</Text>
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        {isOwn && onEdit && (
+          <TouchableOpacity style={styles.action} onPress={onEdit}>
+            <Ionicons name="create-outline" size={16} color="#6366f1" />
+            <Text style={styles.actionText}>Edit</Text>
+          </TouchableOpacity>
+        )}
+        {isOwn && onDelete && (
+          <TouchableOpacity style={styles.action} onPress={onDelete}>
+            <Ionicons name="trash-outline" size={16} color="#ef4444" />
+            <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+          </TouchableOpacity>
+        )}
+        {!isOwn && onReply && (
+          <TouchableOpacity style={styles.action} onPress={onReply}>
+            <Ionicons name="chatbubble-outline" size={16} color="#6366f1" />
+            <Text style={styles.actionText}>{review.vendorReply ? 'Edit Reply' : 'Reply'}</Text>
+          </TouchableOpacity>
+        )}
+        {!isOwn && onReport && (
+          <TouchableOpacity style={styles.action} onPress={onReport}>
+            <Ionicons name="flag-outline" size={16} color="#64748b" />
+            <Text style={[styles.actionText, styles.reportText]}>Report</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
+  avatarPlaceholder: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#6366f1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  date: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  zoneName: {
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '500',
+    marginTop: 10,
+  },
+  comment: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+    marginTop: 10,
+  },
+  subScores: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  subScore: {
+    flexDirection: 'row',
+    backgroundColor: '#eef2ff',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  subScoreLabel: {
+    fontSize: 12,
+    color: '#4338ca',
+    marginRight: 4,
+  },
+  subScoreValue: {
+    fontSize: 12,
+    color: '#4338ca',
+    fontWeight: '600',
+  },
+  reply: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: 'white',
+    borderLeftWidth: 3,
+    borderLeftColor: '#6366f1',
+    borderRadius: 6,
+  },
+  replyLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginBottom: 4,
+  },
+  replyText: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 10,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6366f1',
+  },
+  deleteText: {
+    color: '#ef4444',
+  },
+  reportText: {
+    color: '#64748b',
+  },
+});
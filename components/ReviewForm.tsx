@@ -0,0 +1,215 @@
+// components/ReviewForm.tsx - Write or edit a review: stars, text and optional sub-scores
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { ReviewInput, ReviewSubScores } from '../services/api';
+import { StarRating } from './StarRating';
+import { MAX_REVIEW_LENGTH, SUB_SCORE_OPTIONS, cleanSubScores, validateReview } from '../utils/reviews';
+
+interface ReviewFormProps {
+  visible: boolean;
+  zoneName: string;
+  /** Existing review when editing */
+  initial?: ReviewInput;
+  submitting: boolean;
+  onSubmit: (input: ReviewInput) => void;
+  onClose: () => void;
+}
+
+export function ReviewForm({ visible, zoneName, initial, submitting, onSubmit, onClose }: ReviewFormProps) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [subScores, setSubScores] = useState<ReviewSubScores>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setRating(initial?.rating || 0);
+      setComment(initial?.comment || '');
+      setSubScores(initial?.subScores || {});
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    const input: ReviewInput = { rating, comment: comment.trim(), subScores: cleanSubScores(subScores) };
+    const problem = validateReview(input);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSubmit(input);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <TouchableOpacity onPress={onClose} disabled={submitting}>
+              <Ionicons name="close" size={24} color="#374151" />
+            </TouchableOpacity>
+            <Text style={styles.sheetTitle}>{initial ? 'Edit Review' : 'Rate Your Visit'}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.zoneName}>{zoneName}</Text>
+            <View style={styles.overall}>
+              <StarRating rating={rating} size={36} onChange={value => { setRating(value); setError(null); }} />
+            </View>
+
+            <Text style={styles.sectionTitle}>Tell others about it</Text>
+            <TextInput
+              style={styles.commentInput}
+              value={comment}
+              onChangeText={setComment}
+              placeholder="What did you play? How was the setup?"
+              placeholderTextColor="#9ca3af"
+              multiline
+              maxLength={MAX_REVIEW_LENGTH}
+              textAlignVertical="top"
+            />
+            <Text style={styles.counter}>{comment.length}/{MAX_REVIEW_LENGTH}</Text>
+
+            <Text style={styles.sectionTitle}>Details (optional)</Text>
+            {SUB_SCORE_OPTIONS.map(option => (
+              <View key={option.key} style={styles.subScoreRow}>
+                <Text style={styles.subScoreLabel}>{option.label}</Text>
+                <StarRating
+                  rating={subScores[option.key] || 0}
+                  size={22}
+                  onChange={value => setSubScores(current => ({
+                    ...current,
+                    // Tapping the same score again clears it
+                    [option.key]: current[option.key] === value ? undefined : value,
+                  }))}
+                />
+              </View>
+            ))}
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.submitButtonText}>{initial ? 'Save Changes' : 'Post Review'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+    paddingBottom: 24,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  zoneName: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  overall: {
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  commentInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9fafb',
+    minHeight: 110,
+  },
+  counter: {
+    fontSize: 12,
+    color: '#9ca3af',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  subScoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  subScoreLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 14,
+    color: '#dc2626',
+  },
+  submitButton: {
+    backgroundColor: '#6366f1',
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,393 @@
+// components/SlotPicker.tsx - Date, time and duration picker backed by live availability
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  DayAvailability,
+  MAX_BOOKING_HOURS,
+  SlotAvailability,
+  maxDurationFrom,
+} from '../utils/availability';
+
+interface SlotPickerProps {
+  selectedDate: Date;
+  onSelectDate: (date: Date) => void;
+  availability: DayAvailability | null;
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  selectedTime: string;
+  onSelectTime: (time: string) => void;
+  duration: number;
+  onSelectDuration: (hours: number) => void;
+  pricePerHour: number;
+  /** Price shown under each duration; defaults to `pricePerHour * hours` */
+  priceForDuration?: (hours: number) => number;
+  /** Number of days offered, starting today */
+  days?: number;
+}
+
+const getUpcomingDates = (days: number) => {
+  const dates = [];
+  const today = new Date();
+  
+  for (let i = 0; i < days; i++) {
+    const date = new Date(today);
+    date.setDate(today.getDate() + i);
+    dates.push(date);
+  }
+  
+  return dates;
+};
+
+const formatFullDate = (date: Date) => {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+const isToday = (date: Date) => {
+  const today = new Date();
+  return date.toDateString() === today.toDateString();
+};
+
+const isSameDate = (date1: Date, date2: Date) => {
+  return date1.toDateString() === date2.toDateString();
+};
+
+const getSlotLabel = (slot: SlotAvailability) => {
+  if (slot.isPast) return 'Past';
+  if (slot.remaining <= 0) return 'Full';
+  if (slot.capacity > 1) return `${slot.remaining} left`;
+  return null;
+};
+
+export default function SlotPicker({
+  selectedDate,
+  onSelectDate,
+  availability,
+  loading,
+  error,
+  onRetry,
+  selectedTime,
+  onSelectTime,
+  duration,
+  onSelectDuration,
+  pricePerHour,
+  priceForDuration,
+  days = 14,
+}: SlotPickerProps) {
+  // Longest session that fits from the selected start before a full slot or closing time
+  const maxDuration = availability && selectedTime
+    ? maxDurationFrom(availability, selectedTime)
+    : MAX_BOOKING_HOURS;
+
+  // Drop selections that fresh availability no longer allows
+  useEffect(() => {
+    if (!availability || !selectedTime) return;
+
+    const slot = availability.slots.find(item => item.time === selectedTime);
+    if (!slot?.isAvailable) {
+      onSelectTime('');
+    } else if (duration > maxDuration) {
+      onSelectDuration(Math.max(1, maxDuration));
+    }
+  }, [availability]);
+
+  const handleSelectTime = (slot: SlotAvailability) => {
+    if (!slot.isAvailable) return;
+    onSelectTime(slot.time);
+    if (availability) {
+      const fits = maxDurationFrom(availability, slot.time);
+      if (duration > fits) {
+        onSelectDuration(Math.max(1, fits));
+      }
+    }
+  };
+
+  return (
+    <>
+      {/* Date Selection */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>📅 Select Date</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dateScroll}>
+          {getUpcomingDates(days).map((date, index) => (
+            <TouchableOpacity
+              key={index}
+              style={[
+                styles.dateCard,
+                isSameDate(date, selectedDate) && styles.selectedDateCard
+              ]}
+              onPress={() => onSelectDate(date)}
+            >
+              <Text style={[
+                styles.dateCardDay,
+                isSameDate(date, selectedDate) && styles.selectedDateText
+              ]}>
+                {date.toLocaleDateString('en-US', { weekday: 'short' })}
+              </Text>
+              <Text style={[
+                styles.dateCardDate,
+                isSameDate(date, selectedDate) && styles.selectedDateText
+              ]}>
+                {date.getDate()}
+              </Text>
+              {isToday(date) && (
+                <Text style={[
+                  styles.todayLabel,
+                  isSameDate(date, selectedDate) && styles.selectedTodayLabel
+                ]}>
+                  Today
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <Text style={styles.selectedFullDate}>
+          Selected: {formatFullDate(selectedDate)}
+        </Text>
+      </View>
+
+      {/* Time Selection */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>⏰ Select Time</Text>
+        {loading && !availability ? (
+          <ActivityIndicator color="#6366f1" style={styles.slotsLoading} />
+        ) : error ? (
+          <TouchableOpacity onPress={onRetry}>
+            <Text style={styles.slotsErrorText}>{error} Tap to retry.</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.timeGrid}>
+            {(availability?.slots || []).map((slot) => {
+              const label = getSlotLabel(slot);
+              return (
+                <TouchableOpacity
+                  key={slot.time}
+                  style={[
+                    styles.timeSlot,
+                    selectedTime === slot.time && styles.selectedTimeSlot,
+                    !slot.isAvailable && styles.unavailableTimeSlot,
+                  ]}
+                  onPress={() => handleSelectTime(slot)}
+                  disabled={!slot.isAvailable}
+                >
+                  <Text style={[
+                    styles.timeSlotText,
+                    selectedTime === slot.time && styles.selectedTimeSlotText,
+                    !slot.isAvailable && styles.unavailableTimeSlotText,
+                  ]}>
+                    {slot.time}
+                  </Text>
+                  {label && (
+                    <Text style={[styles.slotMeta, selectedTime === slot.time && styles.selectedTimeSlotText]}>
+                      {label}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+            {availability && availability.slots.length === 0 && (
+              <Text style={styles.slotsErrorText}>No times available on this date.</Text>
+            )}
+          </View>
+        )}
+      </View>
+
+      {/* Duration Selection */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>⏱️ Duration</Text>
+        <View style={styles.durationContainer}>
+          {Array.from({ length: MAX_BOOKING_HOURS }, (_, index) => index + 1).map((hours) => (
+            <TouchableOpacity
+              key={hours}
+              style={[
+                styles.durationButton,
+                duration === hours && styles.selectedDurationButton,
+                hours > maxDuration && styles.disabledButton
+              ]}
+              onPress={() => onSelectDuration(hours)}
+              disabled={hours > maxDuration}
+            >
+              <Text style={[
+                styles.durationButtonText,
+                duration === hours && styles.selectedDurationButtonText
+              ]}>
+                {hours}h
+              </Text>
+              <Text style={[
+                styles.durationPrice,
+                duration === hours && styles.selectedDurationPrice
+              ]}>
+                ${priceForDuration ? priceForDuration(hours) : pricePerHour * hours}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  disabledButton: {
+    backgroundColor: '#9ca3af',
+    opacity: 0.6,
+  },
+  dateScroll: {
+    marginBottom: 16,
+  },
+  dateCard: {
+    alignItems: 'center',
+    padding: 12,
+    marginRight: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f8fafc',
+    minWidth: 70,
+  },
+  selectedDateCard: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  dateCardDay: {
+    fontSize: 12,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  dateCardDate: {
+    fontSize: 18,
+    color: '#1f2937',
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  selectedDateText: {
+    color: 'white',
+  },
+  todayLabel: {
+    fontSize: 10,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  selectedTodayLabel: {
+    color: 'white',
+  },
+  selectedFullDate: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  timeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  timeSlot: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f8fafc',
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  selectedTimeSlot: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  unavailableTimeSlot: {
+    backgroundColor: '#e5e7eb',
+    opacity: 0.6,
+  },
+  unavailableTimeSlotText: {
+    color: '#9ca3af',
+  },
+  slotMeta: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  slotsLoading: {
+    paddingVertical: 20,
+  },
+  slotsErrorText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  timeSlotText: {
+    fontSize: 14,
+    color: '#4b5563',
+    fontWeight: '500',
+  },
+  selectedTimeSlotText: {
+    color: 'white',
+  },
+  durationContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  durationButton: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f8fafc',
+    minWidth: 90,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  selectedDurationButton: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  durationButtonText: {
+    fontSize: 16,
+    color: '#4b5563',
+    fontWeight: '600',
+  },
+  selectedDurationButtonText: {
+    color: 'white',
+  },
+  durationPrice: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  selectedDurationPrice: {
+    color: 'white',
+    opacity: 0.9,
+  },
+});
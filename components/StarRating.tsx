@@ -0,0 +1,48 @@
+// components/StarRating.tsx - Five-star display, or a picker when onChange is given
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  onChange?: (rating: number) => void;
+}
+
+export function StarRating({ rating, size = 16, onChange }: StarRatingProps) {
+  const iconFor = (star: number) => {
+    if (rating >= star) return 'star';
+    if (!onChange && rating >= star - 0.5) return 'star-half';
+    return 'star-outline';
+  };
+
+  return (
+    <View style={styles.row}>
+      {[1, 2, 3, 4, 5].map(star =>
+        onChange ? (
+          <TouchableOpacity
+            key={star}
+            onPress={() => onChange(star)}
+            style={styles.pickerStar}
+            accessibilityRole="button"
+            accessibilityLabel={`${star} star${star > 1 ? 's' : ''}`}
+          >
+            <Ionicons name={iconFor(star)} size={size} color="#fbbf24" />
+          </TouchableOpacity>
+        ) : (
+          <Ionicons key={star} name={iconFor(star)} size={size} color="#fbbf24" />
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pickerStar: {
+    paddingHorizontal: 4,
+  },
+});
@@ -0,0 +1,157 @@
+// components/StationCard.tsx - One station: type, platform, specs, games and its own rate
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { Station } from '../services/api';
+import { stationTypeInfo } from '../utils/stations';
+
+interface StationCardProps {
+  station: Station;
+  /** Shows a checkbox and highlights when selected */
+  selectable?: boolean;
+  selected?: boolean;
+  /** Taken for the chosen time */
+  busy?: boolean;
+  onPress?: () => void;
+  /** Extra controls on the right, e.g. the vendor's active switch */
+  accessory?: React.ReactNode;
+}
+
+const GAMES_SHOWN = 3;
+
+export function StationCard({ station, selectable = false, selected = false, busy = false, onPress, accessory }: StationCardProps) {
+  const typeInfo = stationTypeInfo(station.type);
+  const details = [station.platform, station.specs].filter(Boolean).join(' · ');
+  const extraGames = station.games.length - GAMES_SHOWN;
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.card,
+        selected && styles.cardSelected,
+        (busy || !station.isActive) && styles.cardDimmed,
+      ]}
+      onPress={onPress}
+      disabled={!onPress || busy}
+      activeOpacity={0.8}
+    >
+      <View style={[styles.iconBadge, selected && styles.iconBadgeSelected]}>
+        <Ionicons name={typeInfo.icon as any} size={22} color={selected ? 'white' : '#6366f1'} />
+      </View>
+
+      <View style={styles.info}>
+        <View style={styles.titleRow}>
+          <Text style={styles.name} numberOfLines={1}>{station.name}</Text>
+          {busy && <Text style={styles.busyTag}>Busy</Text>}
+          {!station.isActive && <Text style={styles.inactiveTag}>Inactive</Text>}
+        </View>
+        <Text style={styles.details} numberOfLines={1}>{details || typeInfo.label}</Text>
+        {station.games.length > 0 && (
+          <Text style={styles.games} numberOfLines={1}>
+            🎮 {station.games.slice(0, GAMES_SHOWN).join(', ')}{extraGames > 0 ? ` +${extraGames} more` : ''}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.trailing}>
+        {station.pricePerHour !== undefined && (
+          <Text style={styles.price}>${station.pricePerHour}/h</Text>
+        )}
+        {accessory}
+        {selectable && (
+          <Ionicons
+            name={selected ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={busy ? '#d1d5db' : '#6366f1'}
+          />
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  cardDimmed: {
+    opacity: 0.5,
+  },
+  iconBadge: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#eef2ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  iconBadgeSelected: {
+    backgroundColor: '#6366f1',
+  },
+  info: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  name: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  busyTag: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#dc2626',
+    backgroundColor: '#fee2e2',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  inactiveTag: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6b7280',
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  details: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  games: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  trailing: {
+    alignItems: 'flex-end',
+    gap: 6,
+    marginLeft: 8,
+  },
+  price: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
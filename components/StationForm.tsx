@@ -0,0 +1,312 @@
+// components/StationForm.tsx - Add or edit a station in the vendor's inventory
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { Station, StationInput, StationType } from '../services/api';
+import { MAX_STATION_NAME_LENGTH, STATION_TYPES, parseGamesList, validateStation } from '../utils/stations';
+
+interface StationFormProps {
+  visible: boolean;
+  /** Existing station when editing */
+  initial?: Station;
+  /** The zone's other stations, to catch duplicate names */
+  existing: Station[];
+  submitting: boolean;
+  onSubmit: (input: StationInput) => void;
+  /** Offered when editing */
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export function StationForm({ visible, initial, existing, submitting, onSubmit, onDelete, onClose }: StationFormProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<StationType>('pc');
+  const [platform, setPlatform] = useState('');
+  const [specs, setSpecs] = useState('');
+  const [games, setGames] = useState('');
+  const [price, setPrice] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setName(initial?.name || '');
+      setType(initial?.type || 'pc');
+      setPlatform(initial?.platform || '');
+      setSpecs(initial?.specs || '');
+      setGames(initial?.games.join(', ') || '');
+      setPrice(initial?.pricePerHour !== undefined ? String(initial.pricePerHour) : '');
+      setIsActive(initial?.isActive ?? true);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    const input: StationInput = {
+      name: name.trim(),
+      type,
+      platform: platform.trim() || undefined,
+      specs: specs.trim() || undefined,
+      games: parseGamesList(games),
+      pricePerHour: price.trim() ? parseFloat(price) : undefined,
+      isActive,
+    };
+    const problem = validateStation(input, existing, initial?._id);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSubmit(input);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <TouchableOpacity onPress={onClose} disabled={submitting}>
+              <Ionicons name="close" size={24} color="#374151" />
+            </TouchableOpacity>
+            <Text style={styles.sheetTitle}>{initial ? 'Edit Station' : 'Add Station'}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. PC 1 or PS5 Lounge"
+              placeholderTextColor="#9ca3af"
+              maxLength={MAX_STATION_NAME_LENGTH}
+            />
+
+            <Text style={styles.label}>Type</Text>
+            <View style={styles.typeGrid}>
+              {STATION_TYPES.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.typeChip, type === option.value && styles.typeChipActive]}
+                  onPress={() => setType(option.value)}
+                >
+                  <Ionicons name={option.icon as any} size={16} color={type === option.value ? 'white' : '#6366f1'} />
+                  <Text style={[styles.typeChipText, type === option.value && styles.typeChipTextActive]}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Platform (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={platform}
+              onChangeText={setPlatform}
+              placeholder="e.g. PS5, Xbox Series X, Windows 11"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <Text style={styles.label}>Specs (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={specs}
+              onChangeText={setSpecs}
+              placeholder="e.g. RTX 4070, 240Hz monitor"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <Text style={styles.label}>Games installed (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={games}
+              onChangeText={setGames}
+              placeholder="Separate with commas: Valorant, FIFA 24, Fortnite"
+              placeholderTextColor="#9ca3af"
+              multiline
+              textAlignVertical="top"
+            />
+
+            <Text style={styles.label}>Price per hour (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={price}
+              onChangeText={setPrice}
+              placeholder="Leave blank to use the zone's rates"
+              placeholderTextColor="#9ca3af"
+              keyboardType="decimal-pad"
+            />
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>Bookable</Text>
+                <Text style={styles.switchHint}>Turn off while a station is out for repair</Text>
+              </View>
+              <Switch
+                value={isActive}
+                onValueChange={setIsActive}
+                trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
+                thumbColor={isActive ? '#6366f1' : '#f4f4f5'}
+              />
+            </View>
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.submitButtonText}>{initial ? 'Save Changes' : 'Add Station'}</Text>
+            )}
+          </TouchableOpacity>
+          {onDelete && (
+            <TouchableOpacity style={styles.deleteButton} onPress={onDelete} disabled={submitting}>
+              <Text style={styles.deleteButtonText}>Remove Station</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+    paddingBottom: 24,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9fafb',
+  },
+  multilineInput: {
+    minHeight: 80,
+  },
+  typeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f8fafc',
+  },
+  typeChipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  typeChipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  typeChipTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  switchHint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 14,
+    color: '#dc2626',
+  },
+  submitButton: {
+    backgroundColor: '#6366f1',
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    paddingTop: 16,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: '#ef4444',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,268 @@
+// components/StationPicker.tsx - Booking-flow choice between the whole zone, a station type or specific stations
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { Station, StationType } from '../services/api';
+import { StationCard } from './StationCard';
+import { StationSelection, summarizeStationTypes } from '../utils/stations';
+
+interface StationPickerProps {
+  stations: Station[];
+  selection: StationSelection;
+  onChange: (selection: StationSelection) => void;
+  /** Stations taken for the chosen time; omitted until a time is picked */
+  busyStationIds?: Set<string>;
+}
+
+const MODES: { value: StationSelection['mode']; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'type', label: 'By type' },
+  { value: 'stations', label: 'Choose' },
+];
+
+export function StationPicker({ stations, selection, onChange, busyStationIds }: StationPickerProps) {
+  const typeSummaries = summarizeStationTypes(stations);
+  const [filterType, setFilterType] = useState<StationType | null>(null);
+
+  const selectMode = (mode: StationSelection['mode']) => {
+    if (mode === selection.mode) return;
+    if (mode === 'type') {
+      onChange({ mode: 'type', type: typeSummaries[0].value, count: 1 });
+    } else if (mode === 'stations') {
+      onChange({ mode: 'stations', stationIds: [] });
+    } else {
+      onChange({ mode: 'any' });
+    }
+  };
+
+  const toggleStation = (stationId: string) => {
+    if (selection.mode !== 'stations') return;
+    const stationIds = selection.stationIds.includes(stationId)
+      ? selection.stationIds.filter(id => id !== stationId)
+      : [...selection.stationIds, stationId];
+    onChange({ mode: 'stations', stationIds });
+  };
+
+  const typeCount = selection.mode === 'type'
+    ? typeSummaries.find(summary => summary.value === selection.type)?.count || 0
+    : 0;
+  const visibleStations = filterType ? stations.filter(station => station.type === filterType) : stations;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>🖥️ Stations</Text>
+
+      <View style={styles.modeRow}>
+        {MODES.map(mode => (
+          <TouchableOpacity
+            key={mode.value}
+            style={[styles.modeButton, selection.mode === mode.value && styles.modeButtonActive]}
+            onPress={() => selectMode(mode.value)}
+          >
+            <Text style={[styles.modeText, selection.mode === mode.value && styles.modeTextActive]}>{mode.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {selection.mode === 'any' && (
+        <Text style={styles.hint}>
+          We'll seat you at whatever's free. Pick a type or specific stations to reserve exactly what you want.
+        </Text>
+      )}
+
+      {selection.mode === 'type' && (
+        <>
+          <View style={styles.chipRow}>
+            {typeSummaries.map(summary => (
+              <TouchableOpacity
+                key={summary.value}
+                style={[styles.chip, selection.type === summary.value && styles.chipActive]}
+                onPress={() => onChange({ mode: 'type', type: summary.value, count: 1 })}
+              >
+                <Ionicons
+                  name={summary.icon as any}
+                  size={16}
+                  color={selection.type === summary.value ? 'white' : '#6366f1'}
+                />
+                <Text style={[styles.chipText, selection.type === summary.value && styles.chipTextActive]}>
+                  {summary.pluralLabel} ({summary.count})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.countRow}>
+            <Text style={styles.countLabel}>How many?</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() => onChange({ ...selection, count: selection.count - 1 })}
+                disabled={selection.count <= 1}
+              >
+                <Ionicons name="remove-circle-outline" size={26} color={selection.count <= 1 ? '#d1d5db' : '#6366f1'} />
+              </TouchableOpacity>
+              <Text style={styles.countValue}>{selection.count}</Text>
+              <TouchableOpacity
+                onPress={() => onChange({ ...selection, count: selection.count + 1 })}
+                disabled={selection.count >= typeCount}
+              >
+                <Ionicons name="add-circle-outline" size={26} color={selection.count >= typeCount ? '#d1d5db' : '#6366f1'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </>
+      )}
+
+      {selection.mode === 'stations' && (
+        <>
+          {typeSummaries.length > 1 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+              <TouchableOpacity
+                style={[styles.chip, !filterType && styles.chipActive]}
+                onPress={() => setFilterType(null)}
+              >
+                <Text style={[styles.chipText, !filterType && styles.chipTextActive]}>All</Text>
+              </TouchableOpacity>
+              {typeSummaries.map(summary => (
+                <TouchableOpacity
+                  key={summary.value}
+                  style={[styles.chip, filterType === summary.value && styles.chipActive]}
+                  onPress={() => setFilterType(summary.value)}
+                >
+                  <Text style={[styles.chipText, filterType === summary.value && styles.chipTextActive]}>
+                    {summary.pluralLabel}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+          {visibleStations.map(station => {
+            const selected = selection.stationIds.includes(station._id);
+            return (
+              <StationCard
+                key={station._id}
+                station={station}
+                selectable
+                selected={selected}
+                // A selected station stays tappable so it can be removed
+                busy={!selected && !!busyStationIds?.has(station._id)}
+                onPress={() => toggleStation(station._id)}
+              />
+            );
+          })}
+          {selection.stationIds.length === 0 && (
+            <Text style={styles.hint}>Tap the stations you'd like to reserve.</Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 10,
+    padding: 4,
+    marginBottom: 16,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: 'white',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  modeText: {
+    fontSize: 14,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  modeTextActive: {
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#64748b',
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+    marginBottom: 16,
+  },
+  filterRow: {
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f8fafc',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  countLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  countValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,328 @@
+// components/ZoneFilterSheet.tsx - Bottom sheet for game zone filters and sort order
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  AMENITY_OPTIONS,
+  CAPACITY_OPTIONS,
+  DEFAULT_ZONE_FILTERS,
+  GAME_TYPE_OPTIONS,
+  RADIUS_OPTIONS,
+  RATING_OPTIONS,
+  SORT_OPTIONS,
+  ZoneFilters,
+  ZoneSort,
+} from '../utils/zoneSearch';
+
+interface ZoneFilterSheetProps {
+  visible: boolean;
+  filters: ZoneFilters;
+  sort: ZoneSort;
+  /** Distance sorting and the radius need the user's location */
+  distanceAvailable: boolean;
+  onApply: (filters: ZoneFilters, sort: ZoneSort) => void;
+  onClose: () => void;
+}
+
+const parsePrice = (text: string): number | undefined => {
+  const value = parseFloat(text);
+  return isNaN(value) || value < 0 ? undefined : value;
+};
+
+export function ZoneFilterSheet({ visible, filters, sort, distanceAvailable, onApply, onClose }: ZoneFilterSheetProps) {
+  // Edits stay local until Apply, so closing the sheet discards them
+  const [draft, setDraft] = useState<ZoneFilters>(filters);
+  const [draftSort, setDraftSort] = useState<ZoneSort>(sort);
+  const [minPriceText, setMinPriceText] = useState('');
+  const [maxPriceText, setMaxPriceText] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+      setDraftSort(sort);
+      setMinPriceText(filters.minPrice !== undefined ? String(filters.minPrice) : '');
+      setMaxPriceText(filters.maxPrice !== undefined ? String(filters.maxPrice) : '');
+    }
+  }, [visible]);
+
+  const toggleListItem = (key: 'amenities' | 'gameTypes', value: string) => {
+    setDraft(current => ({
+      ...current,
+      [key]: current[key].includes(value)
+        ? current[key].filter(item => item !== value)
+        : [...current[key], value],
+    }));
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_ZONE_FILTERS);
+    setDraftSort('relevance');
+    setMinPriceText('');
+    setMaxPriceText('');
+  };
+
+  const handleApply = () => {
+    let minPrice = parsePrice(minPriceText);
+    let maxPrice = parsePrice(maxPriceText);
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      [minPrice, maxPrice] = [maxPrice, minPrice];
+    }
+    onApply({ ...draft, minPrice, maxPrice, city: draft.city?.trim() || undefined }, draftSort);
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, disabled: boolean = false) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, selected && styles.chipSelected, disabled && styles.chipDisabled]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#374151" />
+            </TouchableOpacity>
+            <Text style={styles.sheetTitle}>Filters</Text>
+            <TouchableOpacity onPress={handleReset}>
+              <Text style={styles.resetText}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.sectionTitle}>Sort by</Text>
+            <View style={styles.chipRow}>
+              {SORT_OPTIONS.map(option =>
+                renderChip(
+                  option.value === 'distance' && !distanceAvailable ? `${option.label} (needs location)` : option.label,
+                  draftSort === option.value,
+                  () => setDraftSort(option.value),
+                  option.value === 'distance' && !distanceAvailable
+                )
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Distance</Text>
+            <View style={styles.chipRow}>
+              {renderChip('Any', draft.radiusKm === undefined, () => setDraft({ ...draft, radiusKm: undefined }))}
+              {RADIUS_OPTIONS.map(radius =>
+                renderChip(
+                  `Within ${radius} km`,
+                  draft.radiusKm === radius,
+                  () => setDraft({ ...draft, radiusKm: radius }),
+                  !distanceAvailable
+                )
+              )}
+            </View>
+            {!distanceAvailable && (
+              <Text style={styles.hintText}>Set your location to search by distance.</Text>
+            )}
+
+            <Text style={styles.sectionTitle}>Price per hour</Text>
+            <View style={styles.priceRow}>
+              <TextInput
+                style={styles.input}
+                value={minPriceText}
+                onChangeText={setMinPriceText}
+                placeholder="Min $"
+                keyboardType="numeric"
+                placeholderTextColor="#9ca3af"
+              />
+              <Text style={styles.priceDash}>–</Text>
+              <TextInput
+                style={styles.input}
+                value={maxPriceText}
+                onChangeText={setMaxPriceText}
+                placeholder="Max $"
+                keyboardType="numeric"
+                placeholderTextColor="#9ca3af"
+              />
+            </View>
+
+            <Text style={styles.sectionTitle}>Rating</Text>
+            <View style={styles.chipRow}>
+              {renderChip('Any', draft.minRating === undefined, () => setDraft({ ...draft, minRating: undefined }))}
+              {RATING_OPTIONS.map(rating =>
+                renderChip(`${rating}+ ★`, draft.minRating === rating, () => setDraft({ ...draft, minRating: rating }))
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Group size</Text>
+            <View style={styles.chipRow}>
+              {renderChip('Any', draft.minCapacity === undefined, () => setDraft({ ...draft, minCapacity: undefined }))}
+              {CAPACITY_OPTIONS.map(capacity =>
+                renderChip(`${capacity}+ people`, draft.minCapacity === capacity, () => setDraft({ ...draft, minCapacity: capacity }))
+              )}
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text style={styles.sectionTitle}>Open now</Text>
+              <Switch
+                value={draft.openNow}
+                onValueChange={openNow => setDraft({ ...draft, openNow })}
+                trackColor={{ true: '#6366f1', false: '#d1d5db' }}
+              />
+            </View>
+
+            <Text style={styles.sectionTitle}>City</Text>
+            <TextInput
+              style={[styles.input, styles.cityInput]}
+              value={draft.city || ''}
+              onChangeText={city => setDraft({ ...draft, city })}
+              placeholder="Any city"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <Text style={styles.sectionTitle}>Amenities</Text>
+            <View style={styles.chipRow}>
+              {AMENITY_OPTIONS.map(amenity =>
+                renderChip(amenity, draft.amenities.includes(amenity), () => toggleListItem('amenities', amenity))
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Games</Text>
+            <View style={styles.chipRow}>
+              {GAME_TYPE_OPTIONS.map(gameType =>
+                renderChip(gameType, draft.gameTypes.includes(gameType), () => toggleListItem('gameTypes', gameType))
+              )}
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+            <Text style={styles.applyButtonText}>Show Results</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '85%',
+    paddingBottom: 24,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  resetText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipDisabled: {
+    opacity: 0.5,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  priceDash: {
+    marginHorizontal: 12,
+    fontSize: 16,
+    color: '#64748b',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9fafb',
+  },
+  cityInput: {
+    flex: 0,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  applyButton: {
+    backgroundColor: '#6366f1',
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
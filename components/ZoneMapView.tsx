@@ -0,0 +1,282 @@
+// components/ZoneMapView.tsx - Game zones on a map, re-queried for the visible region
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, Platform } from 'react-native';
+import MapView, { Callout, Marker } from 'react-native-maps';
+import Constants from 'expo-constants';
+import { Ionicons } from '@expo/vector-icons';
+import apiService from '../services/api';
+import type { GameZone } from '../services/api';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { MapUnavailable } from './MapUnavailable';
+import type { Coordinates } from '../utils/location';
+import { ZoneFilters, ZoneSort, buildZoneSearchParams } from '../utils/zoneSearch';
+import {
+  DEFAULT_REGION,
+  MAP_PAGE_SIZE,
+  MapRegion,
+  ZoneCluster,
+  clusterZones,
+  regionAround,
+  regionForCluster,
+  regionRadiusKm,
+} from '../utils/zoneMap';
+
+interface ZoneMapViewProps {
+  search: string;
+  filters: ZoneFilters;
+  sort: ZoneSort;
+  /** The user's location; the map opens around it and shows the blue dot */
+  origin: Coordinates | null;
+  onZonePress: (zone: GameZone) => void;
+}
+
+// Google Maps on Android crashes without an API key in the build (see app.config.js)
+const MAPS_AVAILABLE = Platform.OS !== 'android' || !!Constants.expoConfig?.extra?.googleMapsConfigured;
+
+export function ZoneMapView(props: ZoneMapViewProps) {
+  if (!MAPS_AVAILABLE) {
+    return <MapUnavailable title="Map view isn't available in this build" />;
+  }
+  return <ZoneMap {...props} />;
+}
+
+function ZoneMap({ search, filters, sort, origin, onZonePress }: ZoneMapViewProps) {
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<MapRegion>(origin ? regionAround(origin) : DEFAULT_REGION);
+  const [zones, setZones] = useState<GameZone[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  // Panning fires a burst of region changes; query once the map settles
+  const queryRegion = useDebouncedValue(region, 500);
+  const requestIdRef = useRef(0);
+
+  // The location often arrives after the map has mounted
+  const centredOnOrigin = useRef(!!origin);
+  useEffect(() => {
+    if (origin && !centredOnOrigin.current) {
+      centredOnOrigin.current = true;
+      mapRef.current?.animateToRegion(regionAround(origin), 500);
+    }
+  }, [origin]);
+
+  useEffect(() => {
+    loadRegion(queryRegion);
+  }, [queryRegion, search, filters, sort]);
+
+  const loadRegion = async (target: MapRegion) => {
+    const requestId = ++requestIdRef.current;
+    try {
+      setLoading(true);
+      setError(null);
+      console.log('🗺️ Loading game zones for map region');
+
+      // The visible area replaces the list's radius filter
+      const response = await apiService.getGameZones(
+        buildZoneSearchParams({
+          search,
+          filters: { ...filters, radiusKm: regionRadiusKm(target) },
+          sort,
+          page: 1,
+          limit: MAP_PAGE_SIZE,
+          origin: { latitude: target.latitude, longitude: target.longitude },
+        })
+      );
+      if (requestId !== requestIdRef.current) return;
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to load gaming zones');
+      }
+      setZones(response.gameZones);
+      setHasMore(!!response.pagination?.hasNext);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('❌ Load map zones error:', err);
+      setError('Could not load zones in this area.');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const clusters = useMemo(() => clusterZones(zones, region), [zones, region]);
+
+  const handleClusterPress = (cluster: ZoneCluster) => {
+    mapRef.current?.animateToRegion(regionForCluster(cluster), 400);
+  };
+
+  const renderCluster = (cluster: ZoneCluster) => {
+    if (cluster.zones.length > 1) {
+      return (
+        <Marker
+          key={cluster.id}
+          coordinate={cluster.coordinate}
+          onPress={() => handleClusterPress(cluster)}
+          tracksViewChanges={false}
+        >
+          <View style={styles.cluster}>
+            <Text style={styles.clusterText}>{cluster.zones.length}</Text>
+          </View>
+        </Marker>
+      );
+    }
+
+    const zone = cluster.zones[0];
+    return (
+      <Marker key={cluster.id} coordinate={cluster.coordinate} tracksViewChanges={false}>
+        <View style={styles.pin}>
+          <Text style={styles.pinText}>${zone.pricePerHour}</Text>
+        </View>
+        <Callout onPress={() => onZonePress(zone)}>
+          <View style={styles.callout}>
+            <Text style={styles.calloutTitle} numberOfLines={1}>{zone.name}</Text>
+            <View style={styles.calloutRow}>
+              <Ionicons name="star" size={14} color="#f59e0b" />
+              <Text style={styles.calloutText}>
+                {zone.rating} ({zone.totalReviews || 0})
+              </Text>
+              <Text style={styles.calloutPrice}>${zone.pricePerHour}/hour</Text>
+            </View>
+            <Text style={styles.calloutLink}>View details ›</Text>
+          </View>
+        </Callout>
+      </Marker>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={region}
+        onRegionChangeComplete={setRegion}
+        showsUserLocation={!!origin}
+        toolbarEnabled={false}
+      >
+        {clusters.map(renderCluster)}
+      </MapView>
+
+      <View style={styles.statusBar} pointerEvents="box-none">
+        {loading ? (
+          <View style={styles.statusPill}>
+            <ActivityIndicator size="small" color="#6366f1" />
+            <Text style={styles.statusText}>Searching this area...</Text>
+          </View>
+        ) : error ? (
+          <TouchableOpacity style={styles.statusPill} onPress={() => loadRegion(region)}>
+            <Ionicons name="refresh" size={16} color="#dc2626" />
+            <Text style={[styles.statusText, styles.errorText]}>{error}</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.statusPill}>
+            <Text style={styles.statusText}>
+              {zones.length === 0
+                ? 'No zones in this area'
+                : `${zones.length}${hasMore ? '+' : ''} zone${zones.length !== 1 ? 's' : ''} here${hasMore ? ' • zoom in to see more' : ''}`}
+            </Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  statusBar: {
+    position: 'absolute',
+    top: 12,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+  },
+  statusPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'white',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+  },
+  statusText: {
+    fontSize: 13,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  errorText: {
+    color: '#dc2626',
+  },
+  cluster: {
+    minWidth: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(99, 102, 241, 0.9)',
+    borderWidth: 3,
+    borderColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 6,
+  },
+  clusterText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  pin: {
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'white',
+  },
+  pinText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  callout: {
+    width: 200,
+    padding: 4,
+  },
+  calloutTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  calloutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  calloutText: {
+    fontSize: 13,
+    color: '#64748b',
+    flex: 1,
+  },
+  calloutPrice: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  calloutLink: {
+    marginTop: 6,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
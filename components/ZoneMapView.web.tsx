@@ -0,0 +1,18 @@
+// components/ZoneMapView.web.tsx - react-native-maps has no web build; point web users to the list
+import React from 'react';
+import type { GameZone } from '../services/api';
+import type { Coordinates } from '../utils/location';
+import type { ZoneFilters, ZoneSort } from '../utils/zoneSearch';
+import { MapUnavailable } from './MapUnavailable';
+
+interface ZoneMapViewProps {
+  search: string;
+  filters: ZoneFilters;
+  sort: ZoneSort;
+  origin: Coordinates | null;
+  onZonePress: (zone: GameZone) => void;
+}
+
+export function ZoneMapView(_props: ZoneMapViewProps) {
+  return <MapUnavailable title="Map view is available in the mobile app" />;
+}
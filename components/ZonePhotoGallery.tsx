@@ -0,0 +1,266 @@
+// components/ZonePhotoGallery.tsx - Full-screen swipeable photo viewer with pinch and double-tap zoom
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TouchableOpacity,
+  useWindowDimensions,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { runOnJS, useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import type { ZonePhoto } from '../services/api';
+import { PhotoThumbnailStrip } from './PhotoThumbnailStrip';
+
+interface ZonePhotoGalleryProps {
+  photos: ZonePhoto[];
+  visible: boolean;
+  initialIndex?: number;
+  onClose: () => void;
+  /** Reports the photo being shown, e.g. to keep the hero in sync */
+  onIndexChange?: (index: number) => void;
+}
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+
+interface ZoomablePhotoProps {
+  photo: ZonePhoto;
+  width: number;
+  height: number;
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+function ZoomablePhoto({ photo, width, height, onZoomChange }: ZoomablePhotoProps) {
+  const [zoomed, setZoomed] = useState(false);
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const reportZoom = (isZoomed: boolean) => {
+    setZoomed(isZoomed);
+    onZoomChange(isZoomed);
+  };
+
+  const resetZoom = () => {
+    'worklet';
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate(event => {
+      scale.value = Math.min(Math.max(savedScale.value * event.scale, 1), MAX_SCALE);
+    })
+    .onEnd(() => {
+      if (scale.value <= 1.05) {
+        resetZoom();
+        runOnJS(reportZoom)(false);
+      } else {
+        savedScale.value = scale.value;
+        runOnJS(reportZoom)(true);
+      }
+    });
+
+  // Panning only while zoomed, so an unzoomed photo swipes to the next one
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .averageTouches(true)
+    .onUpdate(event => {
+      const maxX = (width * (scale.value - 1)) / 2;
+      const maxY = (height * (scale.value - 1)) / 2;
+      translateX.value = Math.min(Math.max(savedTranslateX.value + event.translationX, -maxX), maxX);
+      translateY.value = Math.min(Math.max(savedTranslateY.value + event.translationY, -maxY), maxY);
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        resetZoom();
+        runOnJS(reportZoom)(false);
+      } else {
+        scale.value = withTiming(DOUBLE_TAP_SCALE);
+        savedScale.value = DOUBLE_TAP_SCALE;
+        runOnJS(reportZoom)(true);
+      }
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Race(doubleTap, Gesture.Simultaneous(pinch, pan))}>
+      <Animated.View style={[{ width, height }, animatedStyle]}>
+        <Image
+          source={{ uri: photo.url }}
+          placeholder={photo.thumbnailUrl ? { uri: photo.thumbnailUrl } : undefined}
+          style={styles.fullImage}
+          contentFit="contain"
+          cachePolicy="memory-disk"
+          transition={200}
+          accessibilityLabel={photo.caption}
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+export function ZonePhotoGallery({ photos, visible, initialIndex = 0, onClose, onIndexChange }: ZonePhotoGalleryProps) {
+  const { width, height } = useWindowDimensions();
+  const [index, setIndex] = useState(initialIndex);
+  const [zoomed, setZoomed] = useState(false);
+  const listRef = useRef<FlatList<ZonePhoto>>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setIndex(Math.min(initialIndex, Math.max(photos.length - 1, 0)));
+      setZoomed(false);
+    }
+  }, [visible]);
+
+  // Warm the cache for the neighbours so swiping doesn't show a blank frame
+  useEffect(() => {
+    if (!visible) return;
+    const neighbours = [photos[index - 1], photos[index + 1]].filter(Boolean).map(photo => photo.url);
+    if (neighbours.length > 0) {
+      Image.prefetch(neighbours, 'memory-disk').catch(() => {});
+    }
+  }, [visible, index, photos]);
+
+  const showIndex = (nextIndex: number) => {
+    setIndex(nextIndex);
+    onIndexChange?.(nextIndex);
+  };
+
+  const handleMomentumEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const nextIndex = Math.round(event.nativeEvent.contentOffset.x / width);
+    if (nextIndex !== index && nextIndex >= 0 && nextIndex < photos.length) {
+      showIndex(nextIndex);
+    }
+  };
+
+  const jumpTo = (nextIndex: number) => {
+    listRef.current?.scrollToIndex({ index: nextIndex, animated: false });
+    setZoomed(false);
+    showIndex(nextIndex);
+  };
+
+  const current = photos[index];
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose} statusBarTranslucent>
+      {/* Modals render outside the app's root view, so they need their own gesture root */}
+      <GestureHandlerRootView style={styles.container}>
+        <FlatList
+          ref={listRef}
+          data={photos}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!zoomed}
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={photo => photo._id}
+          initialScrollIndex={photos.length > 0 ? Math.min(initialIndex, photos.length - 1) : undefined}
+          getItemLayout={(_, itemIndex) => ({ length: width, offset: width * itemIndex, index: itemIndex })}
+          initialNumToRender={1}
+          windowSize={3}
+          onMomentumScrollEnd={handleMomentumEnd}
+          renderItem={({ item }) => (
+            <ZoomablePhoto photo={item} width={width} height={height} onZoomChange={setZoomed} />
+          )}
+        />
+
+        <View style={styles.header} pointerEvents="box-none">
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} accessibilityLabel="Close gallery">
+            <Ionicons name="close" size={26} color="white" />
+          </TouchableOpacity>
+          {photos.length > 1 && (
+            <Text style={styles.counter}>{index + 1} / {photos.length}</Text>
+          )}
+        </View>
+
+        {!zoomed && (
+          <View style={styles.footer}>
+            {current?.caption ? <Text style={styles.caption}>{current.caption}</Text> : null}
+            {photos.length > 1 && (
+              <PhotoThumbnailStrip photos={photos} selectedIndex={index} onSelect={jumpTo} size={56} dark />
+            )}
+          </View>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  fullImage: {
+    width: '100%',
+    height: '100%',
+  },
+  header: {
+    position: 'absolute',
+    top: 50,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  closeButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 20,
+    padding: 8,
+  },
+  counter: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 32,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  caption: {
+    color: 'white',
+    fontSize: 15,
+    lineHeight: 21,
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,287 @@
+// components/ZoneReviewsSection.tsx - Zone page reviews: list, post-visit prompt, edit/delete and report
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import apiService, { Booking, Review, ReviewInput } from '../services/api';
+import { ConflictError, getErrorMessage } from '../services/apiErrors';
+import { useAuth } from '../contexts/AuthContext';
+import { useZoneReviews } from '../hooks/useZoneReviews';
+import { ReviewCard } from './ReviewCard';
+import { ReviewForm } from './ReviewForm';
+import { ReportReviewSheet } from './ReportReviewSheet';
+import { canReviewBooking, formatReviewDate } from '../utils/reviews';
+
+interface ZoneReviewsSectionProps {
+  zoneId: string;
+  zoneName: string;
+  totalReviews: number;
+  /** Open the review form for this booking, e.g. from booking details */
+  reviewBookingId?: string;
+  /** The zone's rating changed */
+  onReviewsChanged?: () => void;
+}
+
+type FormState = { mode: 'create'; bookingId: string } | { mode: 'edit'; review: Review };
+
+const bookingZoneId = (booking: Booking) =>
+  typeof booking.zoneId === 'object' ? booking.zoneId?._id : booking.zoneId;
+
+export function ZoneReviewsSection({ zoneId, zoneName, totalReviews, reviewBookingId, onReviewsChanged }: ZoneReviewsSectionProps) {
+  const { user, isLoggedIn } = useAuth();
+  const { reviews, pagination, loading, loadingMore, error, loadMore, refresh } = useZoneReviews(zoneId);
+  const [reviewableBooking, setReviewableBooking] = useState<Booking | null>(null);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [reportTarget, setReportTarget] = useState<Review | null>(null);
+  const [reporting, setReporting] = useState(false);
+  const promptedRef = useRef(false);
+
+  // The most recent completed, unreviewed visit to this zone
+  useEffect(() => {
+    if (!isLoggedIn) {
+      setReviewableBooking(null);
+      return;
+    }
+    apiService.getUserBookings().then(response => {
+      const booking = response.bookings
+        .filter(item => bookingZoneId(item) === zoneId && canReviewBooking(item))
+        .sort((a, b) => b.date.localeCompare(a.date))[0];
+      setReviewableBooking(booking || null);
+    });
+  }, [isLoggedIn, zoneId]);
+
+  useEffect(() => {
+    if (!reviewBookingId || !isLoggedIn || promptedRef.current) return;
+    promptedRef.current = true;
+    openPromptedReview(reviewBookingId);
+  }, [reviewBookingId, isLoggedIn]);
+
+  const openPromptedReview = async (bookingId: string) => {
+    try {
+      const { booking } = await apiService.getBooking(bookingId, true);
+      if (booking.reviewId) {
+        Alert.alert('Already Reviewed', "You've already reviewed this visit. You can edit your review below.");
+      } else if (!canReviewBooking(booking)) {
+        Alert.alert('Not Yet', 'You can review this zone once your visit is completed.');
+      } else {
+        setForm({ mode: 'create', bookingId });
+      }
+    } catch (err) {
+      console.error('❌ Failed to load booking for review:', err);
+      Alert.alert('Error', getErrorMessage(err, 'Could not open the review form.'));
+    }
+  };
+
+  const handleSubmit = async (input: ReviewInput) => {
+    if (!form) return;
+
+    try {
+      setSubmitting(true);
+      if (form.mode === 'edit') {
+        await apiService.updateReview(form.review, input);
+      } else {
+        await apiService.createReview(zoneId, form.bookingId, input);
+        setReviewableBooking(current => (current?._id === form.bookingId ? null : current));
+      }
+      setForm(null);
+      refresh();
+      onReviewsChanged?.();
+      Alert.alert('Thanks!', form.mode === 'edit' ? 'Your review has been updated.' : 'Your review has been posted.');
+    } catch (err) {
+      console.error('❌ Failed to save review:', err);
+      if (err instanceof ConflictError) {
+        setForm(null);
+        refresh();
+        Alert.alert('Already Reviewed', "You've already reviewed this visit.");
+      } else {
+        Alert.alert('Error', getErrorMessage(err, 'Could not save your review. Please try again.'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = (review: Review) => {
+    Alert.alert('Delete Review', 'Remove your review of this zone?', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await apiService.deleteReview(review);
+            refresh();
+            onReviewsChanged?.();
+          } catch (err) {
+            console.error('❌ Failed to delete review:', err);
+            Alert.alert('Error', getErrorMessage(err, 'Could not delete your review.'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleReport = async (reason: string, details?: string) => {
+    if (!reportTarget) return;
+
+    try {
+      setReporting(true);
+      await apiService.reportReview(reportTarget._id, reason, details);
+      setReportTarget(null);
+      Alert.alert('Report Sent', 'Thanks for letting us know. Our team will review it.');
+    } catch (err) {
+      console.error('❌ Failed to report review:', err);
+      Alert.alert('Error', getErrorMessage(err, 'Could not send your report. Please try again.'));
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  const total = pagination?.totalItems ?? totalReviews;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>⭐ Reviews{total > 0 ? ` (${total})` : ''}</Text>
+
+      {reviewableBooking && (
+        <View style={styles.promptCard}>
+          <View style={styles.promptText}>
+            <Text style={styles.promptTitle}>How was your visit?</Text>
+            <Text style={styles.promptSubtitle}>{formatReviewDate(reviewableBooking.date)}</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.promptButton}
+            onPress={() => setForm({ mode: 'create', bookingId: reviewableBooking._id })}
+          >
+            <Text style={styles.promptButtonText}>Write a Review</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {loading && reviews.length === 0 ? (
+        <ActivityIndicator color="#6366f1" style={styles.loader} />
+      ) : error && reviews.length === 0 ? (
+        <TouchableOpacity style={styles.emptyState} onPress={refresh}>
+          <Ionicons name="refresh" size={20} color="#6366f1" />
+          <Text style={styles.emptyText}>{error} Tap to retry.</Text>
+        </TouchableOpacity>
+      ) : reviews.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>No reviews yet. Reviews appear here after completed visits.</Text>
+        </View>
+      ) : (
+        <>
+          {reviews.map(review => {
+            const isOwn = !!user && review.user._id === user._id;
+            return (
+              <ReviewCard
+                key={review._id}
+                review={review}
+                isOwn={isOwn}
+                onEdit={() => setForm({ mode: 'edit', review })}
+                onDelete={() => handleDelete(review)}
+                onReport={isLoggedIn ? () => setReportTarget(review) : undefined}
+              />
+            );
+          })}
+          {pagination?.hasNext && (
+            <TouchableOpacity style={styles.moreButton} onPress={loadMore} disabled={loadingMore}>
+              {loadingMore ? (
+                <ActivityIndicator color="#6366f1" />
+              ) : (
+                <Text style={styles.moreButtonText}>Show More Reviews</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+
+      <ReviewForm
+        visible={!!form}
+        zoneName={zoneName}
+        initial={form?.mode === 'edit' ? form.review : undefined}
+        submitting={submitting}
+        onSubmit={handleSubmit}
+        onClose={() => setForm(null)}
+      />
+      <ReportReviewSheet
+        visible={!!reportTarget}
+        submitting={reporting}
+        onSubmit={handleReport}
+        onClose={() => setReportTarget(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  promptCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eef2ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  promptText: {
+    flex: 1,
+  },
+  promptTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  promptSubtitle: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  promptButton: {
+    backgroundColor: '#6366f1',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  promptButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyState: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+  },
+  emptyText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#64748b',
+  },
+  moreButton: {
+    borderWidth: 1,
+    borderColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  moreButtonText: {
+    color: '#6366f1',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
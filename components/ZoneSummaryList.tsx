@@ -0,0 +1,119 @@
+// components/ZoneSummaryList.tsx - Horizontal strip of compact zone cards (favorites, recently viewed)
+import React from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Image } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { FavoriteButton } from './FavoriteButton';
+import type { ZoneSummary } from '../utils/savedZones';
+
+const FALLBACK_IMAGE = 'https://images.unsplash.com/photo-1511512578047-dfb367046420?w=400&auto=format&fit=crop&q=60';
+
+interface ZoneSummaryListProps {
+  zones: ZoneSummary[];
+  /** Show the heart on each card so favorites can be removed in place */
+  showFavoriteButton?: boolean;
+}
+
+export function ZoneSummaryList({ zones, showFavoriteButton = false }: ZoneSummaryListProps) {
+  const renderCard = ({ item: zone }: { item: ZoneSummary }) => (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => router.push(`/gamezone/${zone._id}`)}
+      activeOpacity={0.7}
+    >
+      <Image source={{ uri: zone.images[0] || FALLBACK_IMAGE }} style={styles.image} resizeMode="cover" />
+      {showFavoriteButton && <FavoriteButton zone={zone} size={18} style={styles.favoriteButton} />}
+      <View style={styles.info}>
+        <Text style={styles.name} numberOfLines={1}>{zone.name}</Text>
+        <Text style={styles.city} numberOfLines={1}>
+          {zone.location.city || zone.location.address}
+        </Text>
+        <View style={styles.footer}>
+          <Text style={styles.price}>${zone.pricePerHour}/hr</Text>
+          {!!zone.rating && (
+            <View style={styles.rating}>
+              <Ionicons name="star" size={12} color="#f59e0b" />
+              <Text style={styles.ratingText}>{zone.rating.toFixed(1)}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <FlatList
+      data={zones}
+      renderItem={renderCard}
+      keyExtractor={zone => zone._id}
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.list}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    gap: 12,
+    paddingHorizontal: 20,
+  },
+  card: {
+    width: 160,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    overflow: 'hidden',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    marginBottom: 4,
+  },
+  image: {
+    width: '100%',
+    height: 90,
+  },
+  favoriteButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+  },
+  info: {
+    padding: 10,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  city: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  price: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  rating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  ratingText: {
+    fontSize: 12,
+    color: '#d97706',
+    fontWeight: '600',
+  },
+});
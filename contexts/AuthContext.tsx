@@ -1,7 +1,11 @@
 // contexts/AuthContext.tsx - Debug version with better logging and notification integration
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { Alert } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import apiService from '../services/api';
+import OfflineQueue from '../services/OfflineQueue';
+import { ApiError } from '../services/apiErrors';
+import { isTokenExpired } from '../utils/jwt';
 
 interface User {
   _id: string;
@@ -19,7 +23,7 @@ interface AuthContextType {
   user: User | null;
   isLoggedIn: boolean;
   isLoading: boolean;
-  login: (user: User, token: string) => Promise<void>;
+  login: (user: User, token: string, refreshToken?: string) => Promise<void>;
   logout: () => Promise<void>;
   updateUser: (userData: Partial<User>) => Promise<void>;
   checkAuthStatus: () => Promise<void>;
@@ -51,6 +55,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuthStatus();
   }, []);
 
+  // Forced logout when the API layer can no longer renew the session
+  useEffect(() => {
+    const handleSessionExpired = (reason: string) => {
+      console.log('🔒 Session expired, logging out:', reason);
+      setUser(null);
+      setIsLoggedIn(false);
+      Alert.alert('Session Expired', 'Your session has expired. Please log in again.');
+    };
+
+    apiService.addSessionExpiredListener(handleSessionExpired);
+    return () => apiService.removeSessionExpiredListener(handleSessionExpired);
+  }, []);
+
   // Debug: Log state changes
   useEffect(() => {
     console.log('📊 Auth State Changed:', {
@@ -78,6 +95,25 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         return;
       }
 
+      // Renew an expired access token before trusting the stored session
+      if (isTokenExpired(token)) {
+        console.log('⌛ Access token expired, attempting refresh...');
+        try {
+          await apiService.refreshAccessToken();
+        } catch (refreshError) {
+          if (refreshError instanceof ApiError && refreshError.retryable) {
+            // Offline: keep the local session, requests will refresh once back online
+            console.log('⚠️ Could not reach server to refresh token, keeping local session');
+          } else {
+            console.log('❌ Token refresh rejected, clearing auth');
+            await apiService.removeAuthToken();
+            setUser(null);
+            setIsLoggedIn(false);
+            return;
+          }
+        }
+      }
+
       // Check if we have user data
       const userData = await apiService.getUser();
       console.log('👤 User data found:', userData ? '✅ Yes' : '❌ No');
@@ -98,6 +134,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           // Don't fail auth if notifications fail
         }
         
+        // 📤 Replay any changes queued while offline
+        OfflineQueue.initialize();
+        
         // Optional: Try to validate with server (but don't fail if it doesn't work)
         try {
           console.log('🔍 Validating token with server...');
@@ -109,8 +148,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             await apiService.setUser(profileResponse.user);
           }
         } catch (profileError) {
-          console.log('⚠️ Server validation failed, but keeping local auth:', profileError.message);
-          // Don't change auth state - keep user logged in with local data
+          if (profileError instanceof ApiError && profileError.kind === 'auth_expired') {
+            // apiCall already tried a refresh and broadcast the forced logout
+            console.log('❌ Server rejected session, user logged out');
+            setUser(null);
+            setIsLoggedIn(false);
+          } else {
+            // Only connectivity/server problems keep the user signed in with local data
+            console.log('⚠️ Server validation unavailable, keeping local auth:', profileError);
+          }
         }
       } else {
         console.log('❌ No user data found, clearing auth');
@@ -132,12 +178,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const login = async (userData: User, token: string) => {
+  const login = async (userData: User, token: string, refreshToken?: string) => {
     try {
       console.log('📱 Logging in user:', userData.email);
       
       // Store auth data
-      await AsyncStorage.setItem('authToken', token);
+      await apiService.setAuthToken(token, refreshToken);
       await AsyncStorage.setItem('user', JSON.stringify(userData));
       
       // Update state
@@ -155,6 +201,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         // Don't fail login if notifications fail
       }
       
+      OfflineQueue.initialize();
+      
       console.log('✅ User logged in successfully');
     } catch (error) {
       console.error('❌ Login context error:', error);
@@ -166,9 +214,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       console.log('📱 Logging out user...');
       
-      // Clear auth data
-      await AsyncStorage.removeItem('authToken');
-      await AsyncStorage.removeItem('user');
+      // Clear auth data (access + refresh tokens, user and cached responses)
+      await apiService.removeAuthToken();
+      await OfflineQueue.clear();
       
       // Clear state
       setUser(null);
@@ -235,6 +283,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const token = await AsyncStorage.getItem('authToken');
       if (!token) return false;
       
+      if (isTokenExpired(token)) {
+        await apiService.refreshAccessToken();
+      }
+      
       const response = await apiService.getProfile();
       return response.success;
     } catch (error) {
@@ -0,0 +1,119 @@
+// contexts/FavoritesContext.tsx - Favorite zones, synced to the account and kept on device when signed out
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import apiService from '../services/api';
+import { ZoneSummary, loadLocalFavorites, saveLocalFavorites, toZoneSummary } from '../utils/savedZones';
+
+interface FavoritesContextType {
+  favorites: ZoneSummary[];
+  isLoading: boolean;
+  isFavorite: (zoneId: string) => boolean;
+  /** Optimistic; reverts and rethrows when the server rejects the change */
+  toggleFavorite: (zone: ZoneSummary) => Promise<void>;
+  refreshFavorites: () => Promise<void>;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+};
+
+interface FavoritesProviderProps {
+  children: ReactNode;
+}
+
+export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }) => {
+  const { user, isLoggedIn } = useAuth();
+  const [favorites, setFavorites] = useState<ZoneSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // A slow load for a previous account must not overwrite the current one
+  const loadIdRef = useRef(0);
+
+  useEffect(() => {
+    refreshFavorites();
+  }, [isLoggedIn, user?._id]);
+
+  const refreshFavorites = async () => {
+    const loadId = ++loadIdRef.current;
+    setIsLoading(true);
+    const local = await loadLocalFavorites();
+
+    if (!isLoggedIn) {
+      if (loadId === loadIdRef.current) {
+        setFavorites(local);
+        setIsLoading(false);
+      }
+      return;
+    }
+
+    try {
+      // Favorites saved while signed out move into the account, then leave the device
+      const zones = local.length > 0
+        ? await apiService.mergeFavorites(local.map(zone => zone._id))
+        : await apiService.getFavorites();
+      if (local.length > 0) {
+        await saveLocalFavorites([]);
+      }
+      if (loadId === loadIdRef.current) {
+        setFavorites(zones.map(toZoneSummary));
+      }
+    } catch (error) {
+      console.error('❌ Failed to load favorites:', error);
+      // Keep unmerged local favorites visible; the merge is retried on the next refresh
+      if (loadId === loadIdRef.current && local.length > 0) {
+        setFavorites(local);
+      }
+    } finally {
+      if (loadId === loadIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const isFavorite = (zoneId: string) => favorites.some(zone => zone._id === zoneId);
+
+  const toggleFavorite = async (zone: ZoneSummary) => {
+    const previous = favorites;
+    const adding = !isFavorite(zone._id);
+    const next = adding
+      ? [toZoneSummary(zone), ...previous]
+      : previous.filter(item => item._id !== zone._id);
+    setFavorites(next);
+
+    if (!isLoggedIn) {
+      await saveLocalFavorites(next);
+      return;
+    }
+
+    try {
+      if (adding) {
+        await apiService.addFavorite(zone._id);
+      } else {
+        await apiService.removeFavorite(zone._id);
+      }
+    } catch (error) {
+      console.error('❌ Failed to update favorite:', error);
+      setFavorites(previous);
+      throw error;
+    }
+  };
+
+  const value: FavoritesContextType = {
+    favorites,
+    isLoading,
+    isFavorite,
+    toggleFavorite,
+    refreshFavorites,
+  };
+
+  return (
+    <FavoritesContext.Provider value={value}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
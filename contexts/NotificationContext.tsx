@@ -1,7 +1,9 @@
 // contexts/NotificationContext.tsx - Updated with role-based filtering
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
 import NotificationService, { NotificationData } from '../services/NotificationService';
+import apiService from '../services/api';
+import OfflineQueue, { RunOrQueueResult } from '../services/OfflineQueue';
 
 interface NotificationContextType {
   notifications: NotificationData[];
@@ -11,7 +13,7 @@ interface NotificationContextType {
   markAsRead: (notificationIds: string[]) => Promise<void>;
   markAllAsRead: () => Promise<void>;
   deleteNotification: (notificationId: string) => Promise<void>;
-  executeAction: (notificationId: string, actionType: string) => Promise<void>;
+  executeAction: (notificationId: string, actionType: string) => Promise<any>;
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
@@ -33,18 +35,41 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
   const [notifications, setNotifications] = useState<NotificationData[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const registeredListener = useRef<((notification: NotificationData) => void) | null>(null);
+
+  const detachListener = () => {
+    if (registeredListener.current) {
+      NotificationService.removeListener(registeredListener.current);
+      registeredListener.current = null;
+    }
+  };
 
   useEffect(() => {
     if (isLoggedIn && user) {
       initializeNotifications();
     } else {
       // Clear notifications when user logs out
+      detachListener();
       setNotifications([]);
       setUnreadCount(0);
       setIsLoading(false);
     }
   }, [isLoggedIn, user?.role]);
 
+  // Drop everything immediately on a forced logout rather than waiting for AuthContext to re-render
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      console.log('🔒 Session expired, clearing notifications');
+      detachListener();
+      setNotifications([]);
+      setUnreadCount(0);
+      setIsLoading(false);
+    };
+
+    apiService.addSessionExpiredListener(handleSessionExpired);
+    return () => apiService.removeSessionExpiredListener(handleSessionExpired);
+  }, []);
+
   const initializeNotifications = async () => {
     try {
       console.log('🔔 Initializing notifications for user:', user?.role, user?.email);
@@ -56,7 +81,9 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
       await refreshNotifications();
       
       // Add listener for new notifications
+      detachListener();
       NotificationService.addListener(handleNewNotification);
+      registeredListener.current = handleNewNotification;
       
     } catch (error) {
       console.error('❌ Failed to initialize notifications:', error);
@@ -91,7 +118,8 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
           isVendorNotification === true ||
           notification.type === 'booking_request_received' ||
           notification.type === 'booking_confirmed' ||
-          notification.type === 'booking_cancelled';
+          notification.type === 'booking_cancelled' ||
+          notification.type === 'booking_updated';
         
         if (isForVendor) {
           console.log('✅ Vendor notification:', notification.type, notification.title);
@@ -111,6 +139,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
           notification.type === 'booking_submitted' ||
           notification.type === 'booking_confirmed' ||
           notification.type === 'booking_cancelled' ||
+          notification.type === 'booking_updated' ||
           notification.type === 'system_announcement';
         
         if (isForGamer) {
@@ -204,9 +233,10 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     }
   };
 
+  // Mutations go through the offline queue; local state is updated optimistically either way
   const markAsRead = async (notificationIds: string[]) => {
     try {
-      await NotificationService.markAsRead(notificationIds);
+      await OfflineQueue.runOrQueue('markNotificationsAsRead', { notificationIds });
       
       // Update local state
       setNotifications(prev => 
@@ -245,7 +275,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const deleteNotification = async (notificationId: string) => {
     try {
-      await NotificationService.deleteNotification(notificationId);
+      await OfflineQueue.runOrQueue('deleteNotification', { notificationId });
       
       // Update local state
       const deletedNotification = notifications.find(notif => notif.id === notificationId);
@@ -264,12 +294,16 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const executeAction = async (notificationId: string, actionType: string) => {
     try {
-      const response = await NotificationService.executeAction(notificationId, actionType);
+      const result: RunOrQueueResult = await OfflineQueue.runOrQueue('executeNotificationAction', {
+        notificationId,
+        actionType,
+      });
       
       // Mark notification as read
       await markAsRead([notificationId]);
       
-      return response;
+      // Queued actions have no server response yet; callers can check `queued`
+      return result.queued ? { success: true, queued: true } : result.response;
       
     } catch (error) {
       console.error('❌ Failed to execute notification action:', error);
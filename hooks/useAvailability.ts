@@ -0,0 +1,55 @@
+// hooks/useAvailability.ts - Live slot availability for one zone and date
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getErrorMessage } from '../services/apiErrors';
+import { DayAvailability, fetchDayAvailability } from '../utils/availability';
+
+export const useAvailability = (
+  zoneId?: string,
+  date?: string,
+  zoneCapacity: number = 1,
+  excludeBookingId?: string
+) => {
+  const [availability, setAvailability] = useState<DayAvailability | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses for a date the user has already moved away from
+  const requestRef = useRef(0);
+
+  const load = useCallback(async (forceRefresh: boolean = false) => {
+    if (!zoneId || !date) return null;
+
+    const requestId = ++requestRef.current;
+    try {
+      setLoading(true);
+      setError(null);
+      const day = await fetchDayAvailability(zoneId, date, zoneCapacity, forceRefresh, excludeBookingId);
+      if (requestId === requestRef.current) {
+        setAvailability(day);
+      }
+      return day;
+    } catch (err) {
+      console.error('❌ Failed to load availability:', err);
+      if (requestId === requestRef.current) {
+        setAvailability(null);
+        setError(getErrorMessage(err, 'Could not load available times.'));
+      }
+      return null;
+    } finally {
+      if (requestId === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [zoneId, date, zoneCapacity, excludeBookingId]);
+
+  useEffect(() => {
+    setAvailability(null);
+    load();
+  }, [load]);
+
+  return {
+    availability,
+    loading,
+    error,
+    refresh: () => load(true),
+  };
+};
@@ -0,0 +1,36 @@
+// hooks/useCountdown.ts - Seconds remaining until a deadline, ticking once per second
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (deadline: string | number): number =>
+  Math.max(0, Math.ceil((new Date(deadline).getTime() - Date.now()) / 1000));
+
+/**
+ * Returns null when there is no deadline. Computed from the wall clock each tick,
+ * so it stays correct after the app was backgrounded.
+ */
+export const useCountdown = (deadline?: string | number | null): number | null => {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(deadline ? secondsUntil(deadline) : null);
+
+  useEffect(() => {
+    if (!deadline) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    setSecondsLeft(secondsUntil(deadline));
+    const interval = setInterval(() => {
+      const remaining = secondsUntil(deadline);
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return secondsLeft;
+};
+
+export const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
@@ -0,0 +1,17 @@
+// hooks/useDebouncedValue.ts - A value that only updates once it has stopped changing
+import { useEffect, useState } from 'react';
+
+/**
+ * Trails `value` by `delayMs`; every change restarts the wait, so typing
+ * produces one update after the user pauses.
+ */
+export const useDebouncedValue = <T>(value: T, delayMs: number = 400): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+
+  return debounced;
+};
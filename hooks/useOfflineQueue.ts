@@ -0,0 +1,21 @@
+// hooks/useOfflineQueue.ts - Subscribe a component to the offline mutation queue
+import { useEffect, useState } from 'react';
+import OfflineQueue, { OfflineQueueState } from '../services/OfflineQueue';
+
+export const useOfflineQueue = () => {
+  const [state, setState] = useState<OfflineQueueState>(OfflineQueue.getState());
+
+  useEffect(() => {
+    OfflineQueue.addListener(setState);
+    // Catch up with anything that changed before we subscribed
+    setState(OfflineQueue.getState());
+    return () => OfflineQueue.removeListener(setState);
+  }, []);
+
+  return {
+    ...state,
+    pendingCount: state.pending.length,
+    flush: () => OfflineQueue.flush(),
+    dismissResult: (mutationId: string) => OfflineQueue.dismissResult(mutationId),
+  };
+};
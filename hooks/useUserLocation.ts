@@ -0,0 +1,87 @@
+// hooks/useUserLocation.ts - The user's search location from the device or a typed city/postcode
+import { useCallback, useEffect, useState } from 'react';
+import {
+  UserLocation,
+  geocodePlace,
+  getDeviceLocation,
+  hasLocationPermission,
+  loadSavedLocation,
+  saveLocation,
+} from '../utils/location';
+
+export type UserLocationStatus = 'idle' | 'locating' | 'ready' | 'denied' | 'not_found' | 'error';
+
+/**
+ * Restores a saved manual location, or reads the device position when permission was
+ * granted before; it never prompts on mount. `requestDeviceLocation` asks for permission.
+ */
+export const useUserLocation = () => {
+  const [location, setLocation] = useState<UserLocation | null>(null);
+  const [status, setStatus] = useState<UserLocationStatus>('idle');
+
+  const apply = useCallback((next: UserLocation | null) => {
+    setLocation(next);
+    setStatus(next ? 'ready' : 'idle');
+    saveLocation(next);
+  }, []);
+
+  const requestDeviceLocation = useCallback(async (): Promise<UserLocation | null> => {
+    try {
+      setStatus('locating');
+      const next = await getDeviceLocation();
+      if (!next) {
+        setStatus('denied');
+        return null;
+      }
+      apply(next);
+      return next;
+    } catch (error) {
+      console.error('❌ Failed to get device location:', error);
+      setStatus('error');
+      return null;
+    }
+  }, [apply]);
+
+  const setManualLocation = useCallback(async (query: string): Promise<UserLocation | null> => {
+    try {
+      setStatus('locating');
+      const next = await geocodePlace(query);
+      if (!next) {
+        setStatus('not_found');
+        return null;
+      }
+      apply(next);
+      return next;
+    } catch (error) {
+      console.error('❌ Failed to look up location:', error);
+      setStatus('error');
+      return null;
+    }
+  }, [apply]);
+
+  const clear = useCallback(() => apply(null), [apply]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      const saved = await loadSavedLocation();
+      if (cancelled) return;
+      if (saved) {
+        setLocation(saved);
+        setStatus('ready');
+        return;
+      }
+      if (await hasLocationPermission()) {
+        if (!cancelled) await requestDeviceLocation();
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [requestDeviceLocation]);
+
+  return { location, status, requestDeviceLocation, setManualLocation, clear };
+};
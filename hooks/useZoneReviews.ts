@@ -0,0 +1,57 @@
+// hooks/useZoneReviews.ts - Paged reviews for one zone
+import { useCallback, useEffect, useRef, useState } from 'react';
+import apiService, { Review, ReviewPage } from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+
+const REVIEWS_PAGE_SIZE = 10;
+
+export const useZoneReviews = (zoneId?: string) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [pagination, setPagination] = useState<ReviewPage['pagination'] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const loadPage = useCallback(async (page: number) => {
+    if (!zoneId) return;
+
+    const requestId = ++requestRef.current;
+    try {
+      if (page === 1) setLoading(true); else setLoadingMore(true);
+      setError(null);
+      const result = await apiService.getZoneReviews(zoneId, page, REVIEWS_PAGE_SIZE);
+      if (requestId !== requestRef.current) return;
+
+      setPagination(result.pagination);
+      setReviews(current => {
+        if (page === 1) return result.reviews;
+        const seen = new Set(current.map(review => review._id));
+        return [...current, ...result.reviews.filter(review => !seen.has(review._id))];
+      });
+    } catch (err) {
+      console.error('❌ Failed to load reviews:', err);
+      if (requestId === requestRef.current) {
+        setError(getErrorMessage(err, 'Could not load reviews.'));
+      }
+    } finally {
+      if (requestId === requestRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [zoneId]);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (loading || loadingMore || !pagination?.hasNext) return;
+    loadPage(pagination.currentPage + 1);
+  }, [loading, loadingMore, pagination, loadPage]);
+
+  const refresh = useCallback(() => loadPage(1), [loadPage]);
+
+  return { reviews, pagination, loading, loadingMore, error, loadMore, refresh };
+};
@@ -0,0 +1,209 @@
+// services/FakePaymentProvider.ts - In-memory payment provider for development and tests
+import { Alert } from 'react-native';
+import {
+  CreatePaymentIntentRequest,
+  PaymentError,
+  PaymentIntent,
+  PaymentMethodSummary,
+  PaymentProvider,
+  RefundResult,
+} from './PaymentProvider';
+
+type FakeOutcome = 'success' | 'requires_action' | 'declined';
+
+interface FakeTestMethod extends PaymentMethodSummary {
+  outcome: FakeOutcome;
+  description: string;
+}
+
+// Mirrors the usual gateway test cards so flows can be exercised end to end
+export const FAKE_TEST_METHODS: FakeTestMethod[] = [
+  { id: 'pm_fake_visa', brand: 'Visa', last4: '4242', outcome: 'success', description: 'Succeeds' },
+  { id: 'pm_fake_3ds', brand: 'Visa', last4: '3155', outcome: 'requires_action', description: 'Requires 3-D Secure' },
+  { id: 'pm_fake_declined', brand: 'Mastercard', last4: '0002', outcome: 'declined', description: 'Declined' },
+];
+
+interface FakePaymentProviderOptions {
+  /** Simulated network latency per call */
+  latencyMs?: number;
+  /**
+   * When false (tests), collectPaymentMethod returns the first test method and
+   * 3-D Secure challenges are approved without showing an alert.
+   */
+  interactive?: boolean;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private intents: Map<string, PaymentIntent> = new Map();
+  private intentsByKey: Map<string, string> = new Map();
+  private refunds: RefundResult[] = [];
+  private sequence = 0;
+  private readonly latencyMs: number;
+  private readonly interactive: boolean;
+
+  constructor(options: FakePaymentProviderOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 600;
+    this.interactive = options.interactive ?? true;
+  }
+
+  async collectPaymentMethod(): Promise<PaymentMethodSummary | null> {
+    if (!this.interactive) {
+      return this.toSummary(FAKE_TEST_METHODS[0]);
+    }
+
+    return new Promise(resolve => {
+      Alert.alert(
+        'Test Payment Method',
+        'Development build - no real card is charged.',
+        [
+          ...FAKE_TEST_METHODS.map(method => ({
+            text: `${method.brand} •••• ${method.last4} (${method.description})`,
+            onPress: () => resolve(this.toSummary(method)),
+          })),
+          { text: 'Cancel', style: 'cancel' as const, onPress: () => resolve(null) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(null) }
+      );
+    });
+  }
+
+  async createIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+    await this.delay();
+
+    const existingId = this.intentsByKey.get(request.idempotencyKey);
+    const existing = existingId ? this.intents.get(existingId) : undefined;
+    if (existing) {
+      return { ...existing };
+    }
+
+    const intent: PaymentIntent = {
+      id: `pi_fake_${Date.now()}_${++this.sequence}`,
+      amount: request.amount,
+      currency: request.currency,
+      status: 'requires_payment_method',
+      createdAt: new Date().toISOString(),
+    };
+    this.intents.set(intent.id, intent);
+    this.intentsByKey.set(request.idempotencyKey, intent.id);
+    console.log('💳 [fake] Created payment intent:', intent.id);
+    return { ...intent };
+  }
+
+  async confirmIntent(intentId: string, paymentMethodId: string): Promise<PaymentIntent> {
+    await this.delay();
+    const intent = this.getIntent(intentId);
+
+    if (intent.status === 'requires_capture' || intent.status === 'succeeded') {
+      return { ...intent };
+    }
+
+    const method = FAKE_TEST_METHODS.find(item => item.id === paymentMethodId);
+    if (!method) {
+      throw new PaymentError('invalid_state', 'Unknown payment method');
+    }
+
+    intent.paymentMethodId = paymentMethodId;
+
+    if (method.outcome === 'declined') {
+      intent.status = 'requires_payment_method';
+      throw new PaymentError('card_declined', 'Your card was declined. Please use a different payment method.');
+    }
+
+    if (method.outcome === 'requires_action') {
+      intent.status = 'requires_action';
+      intent.nextAction = { type: 'three_d_secure' };
+    } else {
+      intent.status = 'requires_capture';
+    }
+
+    console.log(`💳 [fake] Confirmed ${intent.id}: ${intent.status}`);
+    return { ...intent };
+  }
+
+  async handleNextAction(intent: PaymentIntent): Promise<PaymentIntent> {
+    const stored = this.getIntent(intent.id);
+    if (stored.status !== 'requires_action') {
+      return { ...stored };
+    }
+
+    const approved = this.interactive ? await this.promptChallenge(stored) : true;
+    await this.delay();
+
+    stored.nextAction = undefined;
+    if (!approved) {
+      stored.status = 'requires_payment_method';
+      throw new PaymentError('authentication_failed', 'Card authentication failed. Please try again or use another card.');
+    }
+
+    stored.status = 'requires_capture';
+    return { ...stored };
+  }
+
+  async refund(intentId: string, amount?: number): Promise<RefundResult> {
+    await this.delay();
+    const intent = this.getIntent(intentId);
+
+    if (intent.status !== 'requires_capture' && intent.status !== 'succeeded') {
+      throw new PaymentError('invalid_state', `Cannot refund a payment in state ${intent.status}`);
+    }
+
+    const refund: RefundResult = {
+      id: `re_fake_${Date.now()}_${++this.sequence}`,
+      paymentIntentId: intentId,
+      amount: amount ?? intent.amount,
+      status: 'succeeded',
+    };
+    // An uncaptured authorization is simply released
+    if (intent.status === 'requires_capture') {
+      intent.status = 'canceled';
+    }
+    this.refunds.push(refund);
+    console.log('💳 [fake] Refunded:', refund.id);
+    return refund;
+  }
+
+  /** Test helper: what the server would do when it captures the intent with the booking */
+  capture(intentId: string): PaymentIntent {
+    const intent = this.getIntent(intentId);
+    if (intent.status !== 'requires_capture') {
+      throw new PaymentError('invalid_state', `Cannot capture a payment in state ${intent.status}`);
+    }
+    intent.status = 'succeeded';
+    return { ...intent };
+  }
+
+  getRefunds(): RefundResult[] {
+    return [...this.refunds];
+  }
+
+  private promptChallenge(intent: PaymentIntent): Promise<boolean> {
+    return new Promise(resolve => {
+      Alert.alert(
+        'Authenticate Payment',
+        `Test 3-D Secure challenge for ${(intent.amount / 100).toFixed(2)} ${intent.currency.toUpperCase()}.`,
+        [
+          { text: 'Fail', style: 'destructive', onPress: () => resolve(false) },
+          { text: 'Complete', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+  }
+
+  private getIntent(intentId: string): PaymentIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new PaymentError('invalid_state', `Unknown payment intent ${intentId}`);
+    }
+    return intent;
+  }
+
+  private toSummary({ id, brand, last4 }: FakeTestMethod): PaymentMethodSummary {
+    return { id, brand, last4 };
+  }
+
+  private delay(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+  }
+}
@@ -5,10 +5,11 @@ import { Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import apiService from './api';
+import { openBookingDetails } from '../utils/bookingRoutes';
 
 export interface NotificationData {
   id: string;
-  type: 'booking_created' | 'booking_confirmed' | 'booking_cancelled' | 'booking_reminder' | 'payment_success' | 'payment_failed' | 'zone_update' | 'system_announcement';
+  type: 'booking_created' | 'booking_confirmed' | 'booking_cancelled' | 'booking_updated' | 'booking_reminder' | 'payment_success' | 'payment_failed' | 'zone_update' | 'system_announcement';
   title: string;
   message: string;
   data: any;
@@ -172,8 +173,8 @@ class NotificationService {
       case 'booking_created':
       case 'booking_confirmed':
       case 'booking_cancelled':
-        // Navigate to booking details
-        // router.push(`/booking/${data.bookingId}`);
+      case 'booking_updated':
+        openBookingDetails(data.bookingId);
         break;
       case 'zone_update':
         // Navigate to zone details
@@ -0,0 +1,330 @@
+// services/OfflineQueue.ts - Persistent outbox for mutations made while offline
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import apiService from './api';
+import { ApiError } from './apiErrors';
+import { createIdempotencyKey } from '../utils/idempotency';
+
+const STORAGE_KEY = 'offlineMutationQueue:v1';
+const RETRY_DELAYS_MS = [15 * 1000, 30 * 1000, 60 * 1000, 2 * 60 * 1000];
+const MAX_RESULTS = 20;
+
+interface MutationPayloads {
+  cancelBooking: { bookingId: string; reason?: string; reference?: string };
+  markNotificationsAsRead: { notificationIds: string[] };
+  deleteNotification: { notificationId: string };
+  executeNotificationAction: { notificationId: string; actionType: string };
+}
+
+export type QueuedMutationType = keyof MutationPayloads;
+
+export interface QueuedMutation<K extends QueuedMutationType = QueuedMutationType> {
+  id: string;
+  type: K;
+  payload: MutationPayloads[K];
+  idempotencyKey: string;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface MutationResult {
+  mutation: QueuedMutation;
+  status: 'synced' | 'conflict' | 'failed';
+  message: string;
+  resolvedAt: string;
+}
+
+export interface OfflineQueueState {
+  pending: QueuedMutation[];
+  results: MutationResult[];
+  isSyncing: boolean;
+  isOnline: boolean;
+}
+
+export type RunOrQueueResult<T = any> =
+  | { queued: false; response: T }
+  | { queued: true; mutation: QueuedMutation };
+
+type QueueListener = (state: OfflineQueueState) => void;
+
+// Only connectivity failures are queued; anything the server answered is reported to the caller
+const isOfflineError = (error: unknown): boolean =>
+  error instanceof ApiError && (error.kind === 'network' || error.kind === 'timeout');
+
+const describeMutation = (mutation: QueuedMutation): string => {
+  switch (mutation.type) {
+    case 'cancelBooking': {
+      const payload = mutation.payload as MutationPayloads['cancelBooking'];
+      return `Cancellation of booking ${payload.reference || payload.bookingId}`;
+    }
+    case 'markNotificationsAsRead':
+      return 'Marking notifications as read';
+    case 'deleteNotification':
+      return 'Deleting a notification';
+    case 'executeNotificationAction': {
+      const payload = mutation.payload as MutationPayloads['executeNotificationAction'];
+      return `Notification action "${payload.actionType}"`;
+    }
+    default:
+      return 'Offline change';
+  }
+};
+
+class OfflineQueue {
+  private static instance: OfflineQueue;
+  private pending: QueuedMutation[] = [];
+  private results: MutationResult[] = [];
+  private isSyncing = false;
+  private isOnline = true;
+  private isInitialized = false;
+  private loadPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+  private listeners: QueueListener[] = [];
+
+  static getInstance(): OfflineQueue {
+    if (!OfflineQueue.instance) {
+      OfflineQueue.instance = new OfflineQueue();
+    }
+    return OfflineQueue.instance;
+  }
+
+  // Load persisted mutations and start replaying when the app comes back to the foreground
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      this.flush();
+      return;
+    }
+    this.isInitialized = true;
+
+    await this.load();
+
+    AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        this.flush();
+      }
+    });
+
+    // Queued mutations belong to the signed-in user
+    apiService.addSessionExpiredListener(() => {
+      this.clear();
+    });
+
+    console.log(`📤 Offline queue initialized with ${this.pending.length} pending mutations`);
+    this.flush();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          this.pending = raw ? JSON.parse(raw) : [];
+          this.notify();
+        } catch (error) {
+          console.error('❌ Failed to load offline queue:', error);
+          this.pending = [];
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.pending));
+    } catch (error) {
+      console.error('❌ Failed to persist offline queue:', error);
+    }
+  }
+
+  private execute(mutation: QueuedMutation): Promise<any> {
+    const { idempotencyKey } = mutation;
+
+    switch (mutation.type) {
+      case 'cancelBooking': {
+        const payload = mutation.payload as MutationPayloads['cancelBooking'];
+        return apiService.cancelBooking(payload.bookingId, payload.reason, idempotencyKey);
+      }
+      case 'markNotificationsAsRead': {
+        const payload = mutation.payload as MutationPayloads['markNotificationsAsRead'];
+        return apiService.markNotificationsAsRead(payload.notificationIds, idempotencyKey);
+      }
+      case 'deleteNotification': {
+        const payload = mutation.payload as MutationPayloads['deleteNotification'];
+        return apiService.deleteNotification(payload.notificationId, idempotencyKey);
+      }
+      case 'executeNotificationAction': {
+        const payload = mutation.payload as MutationPayloads['executeNotificationAction'];
+        return apiService.executeNotificationAction(payload.notificationId, payload.actionType, idempotencyKey);
+      }
+      default:
+        return Promise.reject(new Error(`Unknown mutation type: ${mutation.type}`));
+    }
+  }
+
+  /**
+   * Run a mutation now; if the device is offline, persist it for replay instead.
+   * Errors the server actually returned (conflict, validation, ...) are rethrown.
+   */
+  async runOrQueue<K extends QueuedMutationType>(type: K, payload: MutationPayloads[K]): Promise<RunOrQueueResult> {
+    const mutation: QueuedMutation<K> = {
+      id: createIdempotencyKey('mutation'),
+      type,
+      payload,
+      idempotencyKey: createIdempotencyKey(type),
+      createdAt: new Date().toISOString(),
+      attempts: 1,
+    };
+
+    try {
+      const response = await this.execute(mutation);
+      this.setOnline(true);
+      return { queued: false, response };
+    } catch (error) {
+      if (!isOfflineError(error)) {
+        throw error;
+      }
+
+      console.log(`📤 Offline, queueing ${type} for later`);
+      mutation.lastError = (error as ApiError).message;
+      await this.load();
+      this.pending.push(mutation);
+      await this.persist();
+      this.setOnline(false);
+      this.scheduleRetry();
+      return { queued: true, mutation };
+    }
+  }
+
+  /**
+   * Replay pending mutations in order. Stops at the first connectivity failure.
+   */
+  async flush(): Promise<void> {
+    await this.load();
+    if (this.isSyncing || this.pending.length === 0) return;
+
+    this.isSyncing = true;
+    this.notify();
+    console.log(`📤 Replaying ${this.pending.length} queued mutations...`);
+
+    try {
+      while (this.pending.length > 0) {
+        const mutation = this.pending[0];
+        mutation.attempts += 1;
+
+        try {
+          await this.execute(mutation);
+          this.resolve(mutation, 'synced', `${describeMutation(mutation)} synced.`);
+        } catch (error) {
+          if (isOfflineError(error)) {
+            mutation.lastError = (error as ApiError).message;
+            await this.persist();
+            this.setOnline(false);
+            this.scheduleRetry();
+            return;
+          }
+
+          if (error instanceof ApiError && error.kind === 'auth_expired') {
+            // Session is gone; the session-expired listener clears the queue
+            return;
+          }
+
+          if (error instanceof ApiError && error.kind === 'conflict') {
+            this.resolve(
+              mutation,
+              'conflict',
+              `${describeMutation(mutation)} was not applied: ${error.serverMessage || 'it changed on the server while you were offline.'}`
+            );
+          } else if (error instanceof ApiError && error.kind === 'not_found' && mutation.type !== 'cancelBooking') {
+            // Notification already gone - nothing left to do
+            this.resolve(mutation, 'synced', `${describeMutation(mutation)} was already applied.`);
+          } else {
+            this.resolve(
+              mutation,
+              'failed',
+              `${describeMutation(mutation)} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+          }
+        }
+      }
+
+      this.setOnline(true);
+      this.retryAttempt = 0;
+    } finally {
+      this.isSyncing = false;
+      this.notify();
+    }
+  }
+
+  private resolve(mutation: QueuedMutation, status: MutationResult['status'], message: string): void {
+    this.pending = this.pending.filter(item => item.id !== mutation.id);
+    this.results = [
+      { mutation, status, message, resolvedAt: new Date().toISOString() },
+      ...this.results,
+    ].slice(0, MAX_RESULTS);
+    this.persist();
+    this.notify();
+    console.log(`📤 ${status}: ${message}`);
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+
+    const delay = RETRY_DELAYS_MS[Math.min(this.retryAttempt, RETRY_DELAYS_MS.length - 1)];
+    this.retryAttempt++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private setOnline(isOnline: boolean): void {
+    if (this.isOnline !== isOnline) {
+      this.isOnline = isOnline;
+      this.notify();
+    }
+  }
+
+  // Remove a synced/conflict/failed result once the user has seen it
+  dismissResult(mutationId: string): void {
+    this.results = this.results.filter(result => result.mutation.id !== mutationId);
+    this.notify();
+  }
+
+  async clear(): Promise<void> {
+    this.pending = [];
+    this.results = [];
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    this.notify();
+  }
+
+  getState(): OfflineQueueState {
+    return {
+      pending: [...this.pending],
+      results: [...this.results],
+      isSyncing: this.isSyncing,
+      isOnline: this.isOnline,
+    };
+  }
+
+  addListener(listener: QueueListener): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: QueueListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default OfflineQueue.getInstance();
@@ -0,0 +1,91 @@
+// services/PaymentProvider.ts - Provider-agnostic payment types
+// Card details are collected by the provider's own UI/SDK; the app only ever sees
+// opaque payment method ids and display-safe summaries (brand, last 4).
+
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'requires_capture' // authorized; the server captures it when the booking is created
+  | 'succeeded'
+  | 'canceled';
+
+export interface PaymentNextAction {
+  type: 'three_d_secure' | 'redirect';
+  /** Page the customer must visit to authenticate, when the provider uses a redirect */
+  url?: string;
+}
+
+export interface PaymentIntent {
+  id: string;
+  /** Minor units (cents) */
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  paymentMethodId?: string;
+  nextAction?: PaymentNextAction;
+  createdAt: string;
+}
+
+export interface PaymentMethodSummary {
+  id: string;
+  brand: string;
+  last4: string;
+  /** Shown instead of brand/last4 when present, e.g. "Apple Pay" */
+  label?: string;
+}
+
+export interface CreatePaymentIntentRequest {
+  amount: number;
+  currency: string;
+  /** Same key as the booking attempt, so a retried attempt reuses the same intent */
+  idempotencyKey: string;
+  customerEmail?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface RefundResult {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+export type PaymentErrorCode =
+  | 'card_declined'
+  | 'authentication_failed'
+  | 'canceled'
+  | 'invalid_state'
+  | 'provider_unavailable';
+
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+    Object.setPrototypeOf(this, PaymentError.prototype);
+  }
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  /** Present the provider's payment sheet. Resolves null if the user dismisses it. */
+  collectPaymentMethod(options: { amount: number; currency: string }): Promise<PaymentMethodSummary | null>;
+
+  createIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent>;
+
+  /** Authorize the intent with a payment method; may come back as `requires_action` */
+  confirmIntent(intentId: string, paymentMethodId: string): Promise<PaymentIntent>;
+
+  /** Run the intent's next action (3-D Secure challenge, redirect) and return the updated intent */
+  handleNextAction(intent: PaymentIntent): Promise<PaymentIntent>;
+
+  /** Refund a captured intent, or release the authorization of an uncaptured one. Omit `amount` for a full refund. */
+  refund(intentId: string, amount?: number): Promise<RefundResult>;
+}
+
+/** Dollars as shown in the UI -> minor units expected by providers */
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
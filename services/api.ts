@@ -1,5 +1,22 @@
 // services/api.ts - Fixed with better error handling and URL configuration
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ApiError,
+  AuthExpiredError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  createHttpError,
+  toApiError,
+} from './apiErrors';
+import { isTokenExpired } from '../utils/jwt';
+import { CacheStats, ResponseCache } from './responseCache';
+import { createIdempotencyKey, IDEMPOTENCY_HEADER, idempotencyHeaders } from '../utils/idempotency';
+import type { PaymentIntentStatus } from './PaymentProvider';
+import type { PriceQuote } from '../utils/pricing';
+import { normalizeZonePhotos, PhotoUploadFile } from '../utils/zonePhotos';
+import { normalizeEquipment, normalizeStations } from '../utils/stations';
 
 // 🔧 FIXED: More robust API URL configuration
 const getApiBaseUrl = () => {
@@ -49,6 +66,7 @@ interface User {
 interface LoginResponse {
   success: boolean;
   token: string;
+  refreshToken?: string;
   user: User;
   message: string;
   isNewUser?: boolean;
@@ -61,21 +79,85 @@ interface AppStats {
   activeZones: number;
 }
 
+/** The booker, populated on guest and vendor views of a booking */
+export interface BookingUser {
+  _id: string;
+  name: string;
+}
+
 interface Booking {
   _id: string;
   reference: string;
   zoneId: any;
-  userId: string;
+  userId: string | BookingUser;
   date: string;
   timeSlot: string;
   duration: number;
   totalAmount: number;
   status: string;
   paymentStatus: string;
+  /** Set once a cancellation refund has been issued */
+  refundAmount?: number;
+  /** Signed check-in code (see utils/checkInCode) */
+  qrCode?: string;
+  checkedInAt?: string;
+  notes?: string;
+  players?: number;
+  /** Itemised quote the booking was charged from */
+  priceBreakdown?: PriceQuote;
+  promoCode?: string;
+  discountAmount?: number;
+  /** Oldest first */
+  statusHistory?: BookingStatusChange[];
+  /** Set once the customer has reviewed this visit */
+  reviewId?: string;
+  /** Specific stations reserved, when the zone has a station inventory */
+  stations?: { _id: string; name: string; type: StationType }[];
+  /** Everyone besides the booker; `players` counts them too */
+  guests?: BookingGuest[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BookingGuest {
+  _id: string;
+  name: string;
+  /** Set once the guest has joined through the invite link */
+  userId?: string;
+  status: 'invited' | 'joined';
+  checkedInAt?: string;
+}
+
+/** Shareable link that lets friends join a booking as guests */
+export interface BookingInvite {
+  code: string;
+  /** Universal link from the server; build a deep link from `code` when absent */
+  url?: string;
+  expiresAt?: string;
+}
+
+/** What someone opening an invite link sees before joining */
+export interface BookingInvitePreview {
+  code: string;
+  bookingId: string;
+  hostName: string;
+  zone: { _id: string; name: string; location?: { address?: string; city?: string; state?: string } };
+  date: string;
+  timeSlot: string;
+  duration: number;
+  status: string;
+  players: number;
+  guests: BookingGuest[];
+  /** The signed-in user is already the host or a joined guest */
+  alreadyJoined?: boolean;
+}
+
+export interface BookingStatusChange {
+  status: string;
+  changedAt: string;
+  note?: string;
+}
+
 interface GameZone {
   _id: string;
   name: string;
@@ -83,7 +165,10 @@ interface GameZone {
   pricePerHour: number;
   rating: number;
   totalReviews: number;
+  /** Photo URLs in display order, cover first */
   images: string[];
+  /** The same photos with ids and captions */
+  photos?: ZonePhoto[];
   location: {
     address: string;
     city: string;
@@ -103,11 +188,55 @@ interface GameZone {
     _id: string;
     name: string;
     email: string;
+    phone?: string;
   };
-  equipment?: any;
+  /** Headline counts; zones with a station inventory derive these from `stations` */
+  equipment?: EquipmentCounts;
+  /** Individually bookable stations */
+  stations?: Station[];
+  /** Vendor-set; how many hours before start a booking can still be moved */
+  reschedulePolicy?: { cutoffHours?: number };
+  /** Raw vendor policy; read it through normalizeCancellationPolicy */
+  cancellationPolicy?: any;
+  /** Raw vendor rate rules; read them through pricingRulesForZone */
+  pricing?: any;
   createdAt?: string;
 }
 
+export type StationType = 'pc' | 'console' | 'vr' | 'arcade' | 'simulator' | 'other';
+
+export interface Station {
+  _id: string;
+  name: string;
+  type: StationType;
+  /** e.g. "PS5" or "Windows 11" */
+  platform?: string;
+  /** Free text, e.g. "RTX 4070, 240Hz monitor" */
+  specs?: string;
+  games: string[];
+  /** Replaces the zone's hourly rates for this station */
+  pricePerHour?: number;
+  /** Inactive stations stay in the vendor's inventory but can't be booked */
+  isActive: boolean;
+}
+
+export type StationInput = Omit<Station, '_id'>;
+
+export interface EquipmentCounts {
+  pcs: number;
+  consoles: number;
+  vrHeadsets: number;
+  arcadeMachines: number;
+}
+
+export interface ZonePhoto {
+  _id: string;
+  url: string;
+  thumbnailUrl?: string;
+  caption?: string;
+  isCover?: boolean;
+}
+
 interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -115,19 +244,146 @@ interface ApiResponse<T> {
   error?: string;
 }
 
-// Cache interface
-interface CacheItem<T> {
-  data: T;
-  timestamp: number;
-  expiresAt: number;
+export interface CreateBookingRequest {
+  zoneId: string;
+  date: string;
+  timeSlot: string;
+  duration: number;
+  players?: number;
+  notes?: string;
+  /** Authorized payment the server captures in the same transaction that creates the booking */
+  paymentIntentId?: string;
+  /** Slot hold to convert into this booking */
+  holdId?: string;
+  /** Validated with validatePromoCode; the server re-checks it when booking */
+  promoCode?: string;
+  /** Stations to reserve; omitted for zones without a station inventory */
+  stationIds?: string[];
+  /** Named guests, at most `players - 1`; more can join later through the invite link */
+  guests?: { name: string }[];
+}
+
+export interface PromoCode {
+  code: string;
+  type: 'percentage' | 'fixed';
+  /** Percent off, or a fixed amount off */
+  value: number;
+  /** Caps a percentage discount */
+  maxDiscount?: number;
+  minSpend?: number;
+  expiresAt?: string;
+  description?: string;
+}
+
+export interface PromoValidationRequest {
+  code: string;
+  zoneId: string;
+  date: string;
+  timeSlot: string;
+  duration: number;
+  /** Amount the code would apply to, after any duration discount */
+  amount: number;
+}
+
+export interface PromoValidationResponse {
+  success: boolean;
+  promo: PromoCode;
+  /** What the server would take off `amount` */
+  discount: number;
+  message?: string;
+}
+
+/** Optional 1-5 scores alongside the overall rating */
+export interface ReviewSubScores {
+  equipment?: number;
+  cleanliness?: number;
+  staff?: number;
+  value?: number;
+}
+
+export interface Review {
+  _id: string;
+  zoneId: string;
+  /** Included in vendor listings, which span several zones */
+  zone?: { _id: string; name: string };
+  bookingId?: string;
+  user: { _id: string; name: string; profileImage?: string };
+  rating: number;
+  comment: string;
+  subScores?: ReviewSubScores;
+  vendorReply?: { text: string; repliedAt: string };
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ReviewInput {
+  rating: number;
+  comment: string;
+  subScores?: ReviewSubScores;
+}
+
+export interface ReviewPage {
+  reviews: Review[];
+  pagination: { currentPage: number; totalPages: number; totalItems: number; hasNext: boolean; hasPrev: boolean };
+}
+
+export interface CancelBookingResponse {
+  success: boolean;
+  booking: Booking;
+  refund?: { amount: number; percent: number; status: string };
+  message?: string;
+}
+
+export interface RescheduleBookingResponse {
+  success: boolean;
+  booking: Booking;
+  /** New total minus old total; positive was charged, negative is refunded */
+  priceDifference: number;
+  refund?: { amount: number; status: string };
+  message?: string;
+}
+
+export interface SlotHold {
+  id: string;
+  zoneId: string;
+  date: string;
+  timeSlot: string;
+  duration: number;
+  expiresAt: string;
 }
 
+export interface CreateBookingResponse {
+  success: boolean;
+  booking: Booking;
+  /** True when the booking was found by its idempotency key after the original response was lost */
+  recovered?: boolean;
+}
+
+type SessionExpiredListener = (reason: string) => void;
+type CacheUpdateListener = (tags: string[]) => void;
+
+// Refresh the access token this long before its `exp` so in-flight requests don't race expiry
+const TOKEN_REFRESH_SKEW_MS = 60 * 1000;
+
+// A refresh that hangs holds up every request waiting on it
+const TOKEN_REFRESH_TIMEOUT_MS = 15 * 1000;
+
+// Longest Retry-After worth waiting out; beyond it the request fails straight away
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+// How long a selected slot stays reserved while the user pays
+export const SLOT_HOLD_SECONDS = Number(process.env.EXPO_PUBLIC_SLOT_HOLD_SECONDS) || 10 * 60;
+
 class MobileApiService {
   private baseURL: string;
   private maxRetries: number = 3;
   private retryDelay: number = 1000;
-  private cache: Map<string, CacheItem<any>> = new Map();
-  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private responseCache = new ResponseCache();
+  private revalidating: Set<string> = new Set();
+  private cacheUpdateListeners: CacheUpdateListener[] = [];
+  private refreshPromise: Promise<string> | null = null;
+  private sessionExpiredListeners: SessionExpiredListener[] = [];
+  private pendingBookingRequests: Map<string, Promise<CreateBookingResponse>> = new Map();
 
   constructor() {
     this.baseURL = API_BASE_URL;
@@ -223,7 +479,7 @@ class MobileApiService {
    /**
    * Mark notifications as read
    */
-   async markNotificationsAsRead(notificationIds: string[]): Promise<void> {
+   async markNotificationsAsRead(notificationIds: string[], idempotencyKey?: string): Promise<void> {
     try {
       console.log('✅ Marking notifications as read:', notificationIds);
       
@@ -232,6 +488,7 @@ class MobileApiService {
         modifiedCount: number;
       }>('/api/notifications/mark-read', {
         method: 'PUT',
+        headers: idempotencyHeaders(idempotencyKey),
         body: JSON.stringify({ notificationIds }),
       });
       
@@ -274,7 +531,7 @@ class MobileApiService {
   /**
    * Delete a specific notification
    */
-  async deleteNotification(notificationId: string): Promise<void> {
+  async deleteNotification(notificationId: string, idempotencyKey?: string): Promise<void> {
     try {
       console.log('🗑️ Deleting notification:', notificationId);
       
@@ -282,6 +539,7 @@ class MobileApiService {
         success: boolean;
       }>(`/api/notifications/${notificationId}`, {
         method: 'DELETE',
+        headers: idempotencyHeaders(idempotencyKey),
       });
       
       if (response.success) {
@@ -298,7 +556,7 @@ class MobileApiService {
   /**
    * Execute a notification action (confirm, decline, etc.)
    */
-  async executeNotificationAction(notificationId: string, actionType: string): Promise<any> {
+  async executeNotificationAction(notificationId: string, actionType: string, idempotencyKey?: string): Promise<any> {
     try {
       console.log('🔄 Executing notification action:', { notificationId, actionType });
       
@@ -309,6 +567,7 @@ class MobileApiService {
         [key: string]: any;
       }>(`/api/notifications/${notificationId}/action`, {
         method: 'POST',
+        headers: idempotencyHeaders(idempotencyKey),
         body: JSON.stringify({ actionType }),
       });
       
@@ -487,31 +746,39 @@ class MobileApiService {
     return `${endpoint}${params ? `_${JSON.stringify(params)}` : ''}`;
   }
 
-  private setCache<T>(key: string, data: T, customDuration?: number): void {
-    const duration = customDuration || this.CACHE_DURATION;
-    const cacheItem: CacheItem<T> = {
-      data,
-      timestamp: Date.now(),
-      expiresAt: Date.now() + duration
-    };
-    this.cache.set(key, cacheItem);
+  public clearCache(): void {
+    this.responseCache.clear();
+    console.log('🗑️ Cache cleared');
   }
 
-  private getCache<T>(key: string): T | null {
-    const item = this.cache.get(key);
-    if (!item) return null;
-    
-    if (Date.now() > item.expiresAt) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    return item.data as T;
+  /**
+   * Invalidate cached responses by tag, e.g. ['bookings', 'availability:<zoneId>']
+   */
+  public invalidateCache(tags: string[]): void {
+    const removed = this.responseCache.invalidateTags(tags);
+    console.log(`🗑️ Invalidated ${removed} cached responses for tags:`, tags);
   }
 
-  public clearCache(): void {
-    this.cache.clear();
-    console.log('🗑️ Cache cleared');
+  // Cache update listeners are told when a background revalidation brought in fresh data
+  addCacheUpdateListener(listener: CacheUpdateListener): void {
+    this.cacheUpdateListeners.push(listener);
+  }
+
+  removeCacheUpdateListener(listener: CacheUpdateListener): void {
+    this.cacheUpdateListeners = this.cacheUpdateListeners.filter(l => l !== listener);
+  }
+
+  private revalidateInBackground(endpoint: string, options: RequestInit, queryParams: string | undefined, cacheKey: string, fullEndpoint: string): void {
+    if (this.revalidating.has(cacheKey)) return;
+    
+    this.revalidating.add(cacheKey);
+    this.apiCall(endpoint, options, 0, true, queryParams)
+      .then(() => {
+        const { tags } = this.responseCache.getPolicy(fullEndpoint);
+        this.cacheUpdateListeners.forEach(listener => listener(tags));
+      })
+      .catch(error => console.warn(`⚠️ Background revalidation failed for ${endpoint}:`, error))
+      .finally(() => this.revalidating.delete(cacheKey));
   }
 
   // Authentication token management
@@ -525,15 +792,27 @@ class MobileApiService {
     }
   }
 
-  async setAuthToken(token: string): Promise<void> {
+  async setAuthToken(token: string, refreshToken?: string): Promise<void> {
     try {
       await AsyncStorage.setItem('authToken', token);
+      if (refreshToken) {
+        await AsyncStorage.setItem('refreshToken', refreshToken);
+      }
       console.log('✅ Auth token stored successfully');
     } catch (error) {
       console.error('Error storing auth token:', error);
     }
   }
 
+  async getRefreshToken(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem('refreshToken');
+    } catch (error) {
+      console.error('Error getting refresh token:', error);
+      return null;
+    }
+  }
+
   async setUser(user: User): Promise<void> {
     try {
       await AsyncStorage.setItem('user', JSON.stringify(user));
@@ -555,7 +834,7 @@ class MobileApiService {
 
   async removeAuthToken(): Promise<void> {
     try {
-      await AsyncStorage.multiRemove(['authToken', 'user']);
+      await AsyncStorage.multiRemove(['authToken', 'refreshToken', 'user']);
       this.clearCache();
       console.log('✅ Auth data cleared successfully');
     } catch (error) {
@@ -563,6 +842,130 @@ class MobileApiService {
     }
   }
 
+  // Session expiry listeners (AuthContext / NotificationContext observe forced logouts)
+  addSessionExpiredListener(listener: SessionExpiredListener): void {
+    this.sessionExpiredListeners.push(listener);
+  }
+
+  removeSessionExpiredListener(listener: SessionExpiredListener): void {
+    this.sessionExpiredListeners = this.sessionExpiredListeners.filter(l => l !== listener);
+  }
+
+  private async handleSessionExpired(reason: string): Promise<void> {
+    console.warn('🔒 Session expired, forcing logout:', reason);
+    await this.removeAuthToken();
+    this.sessionExpiredListeners.forEach(listener => {
+      try {
+        listener(reason);
+      } catch (error) {
+        console.error('Session expired listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Single-flight: concurrent callers (e.g. several requests that all got a 401)
+   * share one refresh and then replay with the new token.
+   */
+  async refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string> {
+    const endpoint = '/api/auth/refresh';
+    const refreshToken = await this.getRefreshToken();
+    
+    if (!refreshToken) {
+      throw new AuthExpiredError({ endpoint, serverMessage: 'No refresh token stored' });
+    }
+    
+    console.log('🔄 Refreshing access token...');
+    
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TOKEN_REFRESH_TIMEOUT_MS);
+    
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw toApiError(error, endpoint);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+    
+    const data = await response.json().catch(() => null);
+    
+    if (!response.ok || !data?.token) {
+      throw createHttpError(response.ok ? 401 : response.status, data, endpoint);
+    }
+    
+    await this.setAuthToken(data.token, data.refreshToken);
+    if (data.user) {
+      await this.setUser(data.user);
+    }
+    
+    console.log('✅ Access token refreshed');
+    return data.token;
+  }
+
+  // Only a refresh the server actually refused ends the session; a network blip or
+  // timeout keeps the tokens so a later request can refresh again
+  private refreshWasRejected(error: unknown): boolean {
+    return !toApiError(error, '/api/auth/refresh').retryable;
+  }
+
+  // A timed-out or dropped request may still have reached the server, so only resend it when
+  // that's harmless: a GET, or a mutation the server de-duplicates by its Idempotency-Key
+  private shouldRetry(error: ApiError, options: RequestInit): boolean {
+    if (!error.retryable) return false;
+    if (error instanceof RateLimitedError) {
+      return !error.retryAfterMs || error.retryAfterMs <= MAX_RETRY_AFTER_MS;
+    }
+    if (error.kind === 'timeout' || error.kind === 'network') {
+      const method = (options.method || 'GET').toUpperCase();
+      const headers = options.headers as Record<string, string> | undefined;
+      return method === 'GET' || !!headers?.[IDEMPOTENCY_HEADER];
+    }
+    return true;
+  }
+
+  // Auth endpoints manage tokens themselves and must never trigger a refresh
+  private isAuthEndpoint(endpoint: string): boolean {
+    return /^\/?api\/auth\/(login|register|google|refresh|forgot-password|reset-password)/.test(endpoint);
+  }
+
+  // Proactively renew a token that is about to expire, before sending the request
+  private async ensureFreshToken(endpoint: string): Promise<void> {
+    if (this.isAuthEndpoint(endpoint)) return;
+    
+    const token = await this.getAuthToken();
+    if (!token || !isTokenExpired(token, TOKEN_REFRESH_SKEW_MS)) return;
+    
+    const refreshToken = await this.getRefreshToken();
+    if (!refreshToken) return;
+    
+    try {
+      await this.refreshAccessToken();
+    } catch (error) {
+      // Let the request go out; a 401 response drives the forced-logout path
+      console.warn('⚠️ Proactive token refresh failed:', error);
+    }
+  }
+
   // Create headers with auth token
   private async getHeaders(): Promise<Record<string, string>> {
     const token = await this.getAuthToken();
@@ -588,29 +991,46 @@ class MobileApiService {
     options: RequestInit = {},
     retryCount: number = 0,
     useCache: boolean = false,
-    queryParams?: string
+    queryParams?: string,
+    isAuthReplay: boolean = false
   ): Promise<T> {
     const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
     const fullEndpoint = queryParams ? `${cleanEndpoint}?${queryParams}` : cleanEndpoint;
     const url = `${this.baseURL}${fullEndpoint}`;
     const cacheKey = this.getCacheKey(fullEndpoint, options.body);
     
-    // Check cache for GET requests
-    if (useCache && (!options.method || options.method === 'GET')) {
-      const cached = this.getCache<T>(cacheKey);
+    const isCacheable = useCache && (!options.method || options.method === 'GET');
+    
+    // Serve GETs from cache on the first attempt; stale entries are returned immediately and refreshed behind the scenes
+    if (isCacheable && retryCount === 0 && !isAuthReplay && !this.revalidating.has(cacheKey)) {
+      await this.responseCache.hydrate();
+      const cached = this.responseCache.get<T>(cacheKey);
       if (cached) {
-        console.log(`💾 Cache hit for: ${endpoint}`);
-        return cached;
+        if (cached.isStale) {
+          console.log(`💾 Stale cache hit for: ${endpoint}, revalidating`);
+          this.revalidateInBackground(endpoint, options, queryParams, cacheKey, fullEndpoint);
+        } else {
+          console.log(`💾 Cache hit for: ${endpoint}`);
+        }
+        return cached.data;
       }
     }
     
+    let sentAuthToken = false;
+    
     try {
+      await this.ensureFreshToken(cleanEndpoint);
       const headers = await this.getHeaders();
+      sentAuthToken = !!headers['Authorization'];
       const config: RequestInit = {
-        headers,
         mode: 'cors',
         credentials: 'omit',
         ...options,
+        // Merge rather than replace so per-call headers (e.g. Idempotency-Key) keep auth intact
+        headers: {
+          ...headers,
+          ...(options.headers as Record<string, string> | undefined),
+        },
       };
 
       console.log(`📱 API Call (attempt ${retryCount + 1}): ${options.method || 'GET'} ${url}`);
@@ -640,79 +1060,53 @@ class MobileApiService {
       }
 
       if (!response.ok) {
-        const errorMessage = this.parseErrorMessage(data, response.status);
-        console.error(`❌ API Error ${response.status}:`, errorMessage);
+        const httpError = createHttpError(response.status, data, endpoint, response.headers.get('retry-after'));
+        console.error(`❌ API Error ${response.status}:`, httpError.serverMessage);
         console.error('📄 Error response:', data);
-        
-        if (response.status === 401) {
-          await this.removeAuthToken();
-          throw new Error('Session expired. Please log in again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You don\'t have permission to perform this action.');
-        } else if (response.status === 404) {
-          throw new Error(`Resource not found: ${endpoint}`);
-        } else if (response.status === 409) {
-          throw new Error(errorMessage || 'Conflict occurred. Please check your data.');
-        } else if (response.status === 429) {
-          throw new Error('Too many requests. Please try again later.');
-        } else if (response.status >= 500) {
-          if (retryCount < this.maxRetries) {
-            console.log(`🔄 Server error, retrying... (${retryCount + 1}/${this.maxRetries})`);
-            await this.sleep(this.retryDelay * (retryCount + 1));
-            return this.apiCall<T>(endpoint, options, retryCount + 1, useCache, queryParams);
-          }
-          throw new Error('Server error. Please try again later.');
-        }
-        
-        throw new Error(errorMessage);
+        throw httpError;
       }
 
       console.log(`✅ API Call successful: ${options.method || 'GET'} ${url}`);
       
       // Cache successful GET responses
-      if (useCache && (!options.method || options.method === 'GET')) {
-        this.setCache(cacheKey, data);
+      if (isCacheable) {
+        this.responseCache.set(cacheKey, fullEndpoint, data);
       }
       
       return data as T;
       
     } catch (error: any) {
-      console.error('❌ API call error:', error);
-      
-      if (error.name === 'AbortError') {
-        throw new Error('Request timed out. Please check your internet connection.');
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Network request failed')) {
-        if (retryCount < this.maxRetries) {
-          console.log(`🔄 Network error, retrying... (${retryCount + 1}/${this.maxRetries})`);
-          await this.sleep(this.retryDelay * (retryCount + 1));
-          return this.apiCall<T>(endpoint, options, retryCount + 1, useCache, queryParams);
+      const apiError = toApiError(error, endpoint);
+      console.error(`❌ API call error (${apiError.kind}):`, apiError.serverMessage || apiError.message);
+      
+      if (apiError instanceof AuthExpiredError && sentAuthToken && !this.isAuthEndpoint(cleanEndpoint)) {
+        if (!isAuthReplay) {
+          try {
+            await this.refreshAccessToken();
+            console.log(`🔁 Replaying ${endpoint} with refreshed token`);
+            return this.apiCall<T>(endpoint, options, retryCount, useCache, queryParams, true);
+          } catch (refreshError) {
+            console.error('❌ Token refresh failed:', refreshError);
+            if (!this.refreshWasRejected(refreshError)) {
+              // Still signed in; surface the connectivity problem rather than an expired session
+              throw toApiError(refreshError, '/api/auth/refresh');
+            }
+          }
         }
-        throw new Error('Network error. Please check your internet connection and try again.');
+        await this.handleSessionExpired('Access token rejected and refresh failed');
       }
       
-      if (retryCount < this.maxRetries && 
-          !error.message.includes('Session expired') &&
-          !error.message.includes('Access denied') &&
-          !error.message.includes('Resource not found') &&
-          !error.message.includes('Conflict occurred')) {
-        console.log(`🔄 Retrying due to error... (${retryCount + 1}/${this.maxRetries})`);
-        await this.sleep(this.retryDelay * (retryCount + 1));
-        return this.apiCall<T>(endpoint, options, retryCount + 1, useCache, queryParams);
+      if (this.shouldRetry(apiError, options) && retryCount < this.maxRetries) {
+        const delay = apiError instanceof RateLimitedError && apiError.retryAfterMs
+          ? apiError.retryAfterMs
+          : this.retryDelay * (retryCount + 1);
+        console.log(`🔄 ${apiError.kind} error, retrying... (${retryCount + 1}/${this.maxRetries})`);
+        await this.sleep(delay);
+        return this.apiCall<T>(endpoint, options, retryCount + 1, useCache, queryParams, isAuthReplay);
       }
       
-      throw error;
-    }
-  }
-
-  // Enhanced error message parsing
-  private parseErrorMessage(data: any, status: number): string {
-    if (typeof data === 'string') return data;
-    if (typeof data === 'object') {
-      return data.error || data.message || data.msg || `HTTP ${status}`;
+      throw apiError;
     }
-    return `HTTP ${status}`;
   }
 
   // 🔧 ENHANCED: Health check with better error handling
@@ -846,7 +1240,7 @@ class MobileApiService {
       });
       
       if (response.success && response.token) {
-        await this.setAuthToken(response.token);
+        await this.setAuthToken(response.token, response.refreshToken);
         await this.setUser(response.user);
         this.clearCache();
         console.log('✅ Google authentication successful');
@@ -869,7 +1263,7 @@ class MobileApiService {
     });
     
     if (response.success && response.token) {
-      await this.setAuthToken(response.token);
+      await this.setAuthToken(response.token, response.refreshToken);
       await this.setUser(response.user);
       this.clearCache();
     }
@@ -877,13 +1271,67 @@ class MobileApiService {
     return response;
   }
 
+  async register(signupData: {
+    name: string;
+    email: string;
+    phone?: string;
+    password: string;
+    role: 'user' | 'vendor';
+  }): Promise<LoginResponse> {
+    console.log('📝 Registering new account:', signupData.email);
+    
+    const response = await this.apiCall<LoginResponse>('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify(signupData),
+    });
+    
+    if (response.success && response.token) {
+      await this.setAuthToken(response.token, response.refreshToken);
+      await this.setUser(response.user);
+      this.clearCache();
+      console.log('✅ Registration successful');
+    }
+    
+    return response;
+  }
+
+  /**
+   * Request a password reset email. The server answers identically whether or not
+   * the address exists, so callers should always show the same confirmation.
+   */
+  async requestPasswordReset(email: string): Promise<{ success: boolean; message: string }> {
+    console.log('🔑 Requesting password reset for:', email);
+    
+    return this.apiCall<{ success: boolean; message: string }>('/api/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  /**
+   * Confirm a password reset with the token from the reset email
+   */
+  async resetPassword(token: string, password: string): Promise<{ success: boolean; message: string }> {
+    console.log('🔑 Confirming password reset...');
+    
+    return this.apiCall<{ success: boolean; message: string }>('/api/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
   async getProfile(): Promise<{ success: boolean; user: User }> {
     return this.apiCall('/api/auth/profile', {}, 0, true);
   }
 
   async logout(): Promise<void> {
     try {
-      await this.apiCall('/api/auth/logout', { method: 'POST' });
+      // Send the refresh token so the server can revoke it
+      const refreshToken = await this.getRefreshToken();
+      await this.apiCall('/api/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+      });
     } catch (error) {
       console.error('Logout API error:', error);
     } finally {
@@ -968,35 +1416,472 @@ class MobileApiService {
     }
   }
 
-  async createBooking(bookingData: {
-    zoneId: string;
-    date: string;
-    timeSlot: string;
-    duration: number;
-    notes?: string;
-  }): Promise<{ success: boolean; booking: Booking }> {
-    const response = await this.apiCall<{ success: boolean; booking: Booking }>('/api/bookings', {
+  /**
+   * Create a booking. Pass the same `idempotencyKey` for every attempt at the same booking
+   * (including user-initiated retries) so the server never creates it twice.
+   * Concurrent calls with the same key share one request.
+   */
+  async createBooking(
+    bookingData: CreateBookingRequest,
+    idempotencyKey: string = createIdempotencyKey('booking')
+  ): Promise<CreateBookingResponse> {
+    const inFlight = this.pendingBookingRequests.get(idempotencyKey);
+    if (inFlight) {
+      console.log('⏳ Booking request already in flight for key:', idempotencyKey);
+      return inFlight;
+    }
+
+    const request = this.submitBooking(bookingData, idempotencyKey).finally(() => {
+      this.pendingBookingRequests.delete(idempotencyKey);
+    });
+    this.pendingBookingRequests.set(idempotencyKey, request);
+    return request;
+  }
+
+  private async submitBooking(
+    bookingData: CreateBookingRequest,
+    idempotencyKey: string
+  ): Promise<CreateBookingResponse> {
+    let response: CreateBookingResponse;
+
+    try {
+      // apiCall re-sends these exact options on retry, so the key is reused across attempts
+      response = await this.apiCall<CreateBookingResponse>('/api/bookings', {
+        method: 'POST',
+        headers: idempotencyHeaders(idempotencyKey),
+        body: JSON.stringify(bookingData),
+      });
+    } catch (error) {
+      // The POST may have reached the server even though we never saw the response
+      if (!(error instanceof ApiError) || !['network', 'timeout', 'server'].includes(error.kind)) {
+        throw error;
+      }
+
+      console.log('🔍 Booking response lost, looking up by idempotency key...');
+      const recovered = await this.findBookingByIdempotencyKey(idempotencyKey);
+      if (!recovered) {
+        throw error;
+      }
+
+      console.log('✅ Recovered booking created by earlier attempt:', recovered.reference);
+      response = { success: true, booking: recovered, recovered: true };
+    }
+
+    this.invalidateCache(['bookings', `availability:${bookingData.zoneId}`]);
+    return response;
+  }
+
+  /**
+   * Check a promo code against the booking being paid for. The server enforces expiry,
+   * minimum spend, zone/vendor restrictions and per-user limits; a rejected code throws
+   * an ApiError whose message says why.
+   */
+  async validatePromoCode(request: PromoValidationRequest): Promise<PromoValidationResponse> {
+    const code = request.code.trim().toUpperCase();
+    console.log('🏷️ Validating promo code:', code);
+
+    const response = await this.apiCall<PromoValidationResponse>('/api/promo-codes/validate', {
       method: 'POST',
-      body: JSON.stringify(bookingData),
+      body: JSON.stringify({ ...request, code }),
     });
-    
-    this.clearCache();
+
+    console.log(`✅ Promo code ${code} accepted, discount:`, response.discount);
     return response;
   }
 
-  async cancelBooking(bookingId: string): Promise<{ success: boolean; booking: Booking }> {
-    const response = await this.apiCall<{ success: boolean; booking: Booking }>(`/api/bookings/${bookingId}/cancel`, {
+  /**
+   * Reserve capacity for a slot while the user pays, a spot per player. Throws
+   * ConflictError when the slot (or any hour of the duration) no longer has room.
+   */
+  async createSlotHold(
+    slot: { zoneId: string; date: string; timeSlot: string; duration: number; players?: number; stationIds?: string[] },
+    holdSeconds: number = SLOT_HOLD_SECONDS
+  ): Promise<SlotHold> {
+    // apiCall retries the POST with these same options, so a lost response can't leave a second hold behind
+    const response = await this.apiCall<{ success: boolean; hold: SlotHold }>('/api/bookings/holds', {
+      method: 'POST',
+      headers: idempotencyHeaders(createIdempotencyKey('hold')),
+      body: JSON.stringify({ ...slot, holdSeconds }),
+    });
+
+    console.log(`🔒 Slot held until ${response.hold.expiresAt}:`, response.hold.id);
+    this.invalidateCache([`availability:${slot.zoneId}`]);
+    return response.hold;
+  }
+
+  /**
+   * Give a held slot back. Safe to call for holds that already expired or were converted.
+   */
+  async releaseSlotHold(holdId: string, zoneId?: string): Promise<void> {
+    try {
+      await this.apiCall(`/api/bookings/holds/${encodeURIComponent(holdId)}`, { method: 'DELETE' });
+      console.log('🔓 Released slot hold:', holdId);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        console.warn('⚠️ Failed to release slot hold:', holdId, error);
+      }
+    }
+    this.invalidateCache([zoneId ? `availability:${zoneId}` : 'availability']);
+  }
+
+  /**
+   * Find a booking created with the given idempotency key. Returns null when the
+   * server has no such booking or cannot be reached.
+   */
+  async findBookingByIdempotencyKey(idempotencyKey: string): Promise<Booking | null> {
+    try {
+      const response = await this.apiCall<{ success: boolean; booking?: Booking }>(
+        `/api/bookings/by-idempotency-key/${encodeURIComponent(idempotencyKey)}`
+      );
+      return response.booking || null;
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        console.warn('⚠️ Booking lookup by idempotency key failed:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a booking. The server applies the zone's cancellation policy and returns the
+   * refund it issued; the booking comes back with `paymentStatus: 'refunded'` when there was one.
+   */
+  async cancelBooking(
+    bookingId: string,
+    reason?: string,
+    idempotencyKey?: string
+  ): Promise<CancelBookingResponse> {
+    const response = await this.apiCall<CancelBookingResponse>(`/api/bookings/${bookingId}/cancel`, {
       method: 'PUT',
+      headers: idempotencyHeaders(idempotencyKey),
+      body: JSON.stringify(reason ? { reason } : {}),
     });
     
-    this.clearCache();
+    const zoneId = response.booking?.zoneId?._id || response.booking?.zoneId;
+    this.invalidateCache([
+      'bookings',
+      `booking:${bookingId}`,
+      `check-in-code:${bookingId}`,
+      typeof zoneId === 'string' ? `availability:${zoneId}` : 'availability',
+    ]);
+    return response;
+  }
+
+  /**
+   * Move a booking to a new date/time/duration. When the new slot costs more, pass an
+   * authorized `paymentIntentId` for the difference; when it costs less the server refunds it.
+   * The server notifies both the customer and the vendor (`booking_updated`).
+   */
+  async rescheduleBooking(
+    bookingId: string,
+    changes: { date: string; timeSlot: string; duration: number; paymentIntentId?: string },
+    idempotencyKey?: string
+  ): Promise<RescheduleBookingResponse> {
+    const response = await this.apiCall<RescheduleBookingResponse>(`/api/bookings/${bookingId}/reschedule`, {
+      method: 'PUT',
+      headers: idempotencyHeaders(idempotencyKey),
+      body: JSON.stringify(changes),
+    });
+
+    const zoneId = response.booking?.zoneId?._id || response.booking?.zoneId;
+    this.invalidateCache([
+      'bookings',
+      `booking:${bookingId}`,
+      `check-in-code:${bookingId}`,
+      typeof zoneId === 'string' ? `availability:${zoneId}` : 'availability',
+    ]);
     return response;
   }
 
-  async getBooking(bookingId: string): Promise<{ success: boolean; booking: Booking }> {
+  async getBooking(bookingId: string, forceRefresh: boolean = false): Promise<{ success: boolean; booking: Booking }> {
+    if (forceRefresh) {
+      this.invalidateCache([`booking:${bookingId}`]);
+    }
     return this.apiCall(`/api/bookings/${bookingId}`, {}, 0, true);
   }
 
+  /**
+   * Signed check-in code for the booking QR. Cached for offline display; invalidated when
+   * the booking is cancelled, rescheduled or checked in, so a moved booking gets a fresh code.
+   */
+  async getCheckInCode(bookingId: string): Promise<{ code: string; expiresAt?: string }> {
+    return this.apiCall(`/api/bookings/${bookingId}/check-in-code`, {}, 0, true);
+  }
+
+  /**
+   * Vendor check-in. The server verifies the code's signature and rejects wrong-zone,
+   * wrong-date (ValidationError) and already-used (ConflictError) codes, using the
+   * rejection as the error `code`.
+   */
+  async checkInBooking(
+    code: string,
+    zoneId?: string
+  ): Promise<{ success: boolean; booking: Booking & { zoneId: any }; guest?: BookingGuest }> {
+    const response = await this.apiCall<{ success: boolean; booking: Booking & { zoneId: any }; guest?: BookingGuest }>('/api/vendor/bookings/check-in', {
+      method: 'POST',
+      body: JSON.stringify({ code, zoneId }),
+    });
+
+    if (response.booking?._id) {
+      this.invalidateCache([`booking:${response.booking._id}`, `check-in-code:${response.booking._id}`]);
+    }
+    return response;
+  }
+
+  /**
+   * The booking's invite link, created on first request. Host only; the same code is
+   * returned until the booking ends.
+   */
+  async getBookingInvite(bookingId: string): Promise<BookingInvite> {
+    console.log('🔗 Getting invite link for booking:', bookingId);
+    const response = await this.apiCall<{ success: boolean; invite: BookingInvite }>(`/api/bookings/${bookingId}/invite`, {
+      method: 'POST',
+    });
+    return response.invite;
+  }
+
+  /** Throws NotFoundError once the link has been revoked or the booking has ended */
+  async getInvite(code: string): Promise<BookingInvitePreview> {
+    const response = await this.apiCall<{ success: boolean; invite: BookingInvitePreview }>(
+      `/api/invites/${encodeURIComponent(code)}`
+    );
+    return response.invite;
+  }
+
+  /**
+   * Join a booking as a guest. Joined guests can view the booking, get its reminders and
+   * have their own check-in code. Throws ConflictError when every seat is already taken.
+   */
+  async acceptInvite(code: string): Promise<Booking> {
+    console.log('🎟️ Accepting booking invite:', code);
+    const response = await this.apiCall<{ success: boolean; booking: Booking }>(
+      `/api/invites/${encodeURIComponent(code)}/accept`,
+      { method: 'POST' }
+    );
+    this.invalidateCache(['bookings', `booking:${response.booking._id}`]);
+    return response.booking;
+  }
+
+  /** Host only; frees the guest's seat for someone else to join */
+  async removeBookingGuest(bookingId: string, guestId: string): Promise<Booking> {
+    console.log('👋 Removing guest from booking:', bookingId, guestId);
+    const response = await this.apiCall<{ success: boolean; booking: Booking }>(
+      `/api/bookings/${bookingId}/guests/${guestId}`,
+      { method: 'DELETE' }
+    );
+    this.invalidateCache(['bookings', `booking:${bookingId}`]);
+    return response.booking;
+  }
+
+  /** A joined guest leaving someone else's booking */
+  async leaveBooking(bookingId: string): Promise<void> {
+    console.log('👋 Leaving booking:', bookingId);
+    await this.apiCall(`/api/bookings/${bookingId}/guests/me`, { method: 'DELETE' });
+    this.invalidateCache(['bookings', `booking:${bookingId}`, `check-in-code:${bookingId}`]);
+  }
+
+  async getVendorZones(): Promise<GameZone[]> {
+    const response = await this.apiCall<any>('/api/vendor/gamezones', {}, 0, true);
+    const zones = response.gamezones || response.data || [];
+    return zones.map((zone: any) => this.formatGameZone(zone));
+  }
+
+  /** The zone's photos as the vendor manages them, cover first */
+  async getZonePhotos(zoneId: string): Promise<ZonePhoto[]> {
+    console.log('🖼️ Getting photos for zone:', zoneId);
+    const response = await this.apiCall<any>(`/api/vendor/gamezones/${zoneId}/images`);
+    return normalizeZonePhotos(response.images || response.data);
+  }
+
+  /**
+   * Multipart upload of one photo; resolves with the zone's updated photo list.
+   * fetch can't report upload progress, so this goes through XMLHttpRequest and
+   * `onProgress` receives 0..1 as the body is sent.
+   */
+  async uploadZonePhoto(
+    zoneId: string,
+    file: PhotoUploadFile,
+    options: { caption?: string; onProgress?: (fraction: number) => void } = {}
+  ): Promise<ZonePhoto[]> {
+    const endpoint = `/api/vendor/gamezones/${zoneId}/images`;
+    const form = new FormData();
+    // React Native reads `{ uri, name, type }` parts from disk
+    form.append('image', file as any);
+    if (options.caption) {
+      form.append('caption', options.caption);
+    }
+
+    console.log('📤 Uploading photo for zone:', zoneId, file.name);
+    const response = await this.uploadMultipart<any>(endpoint, form, options.onProgress);
+    this.invalidateZonePhotos(zoneId);
+    return normalizeZonePhotos(response.images || response.data);
+  }
+
+  async updateZonePhotoCaption(zoneId: string, photoId: string, caption: string): Promise<ZonePhoto[]> {
+    console.log('🖼️ Updating photo caption:', photoId);
+    const response = await this.apiCall<any>(`/api/vendor/gamezones/${zoneId}/images/${photoId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ caption }),
+    });
+    this.invalidateZonePhotos(zoneId);
+    return normalizeZonePhotos(response.images || response.data);
+  }
+
+  /** Save a new display order; `photoIds` lists every photo of the zone */
+  async reorderZonePhotos(zoneId: string, photoIds: string[]): Promise<ZonePhoto[]> {
+    console.log('🖼️ Reordering photos for zone:', zoneId);
+    const response = await this.apiCall<any>(`/api/vendor/gamezones/${zoneId}/images/order`, {
+      method: 'PUT',
+      body: JSON.stringify({ imageIds: photoIds }),
+    });
+    this.invalidateZonePhotos(zoneId);
+    return normalizeZonePhotos(response.images || response.data);
+  }
+
+  async setZoneCoverPhoto(zoneId: string, photoId: string): Promise<ZonePhoto[]> {
+    console.log('🖼️ Setting cover photo for zone:', zoneId, photoId);
+    const response = await this.apiCall<any>(`/api/vendor/gamezones/${zoneId}/images/${photoId}/cover`, {
+      method: 'PUT',
+    });
+    this.invalidateZonePhotos(zoneId);
+    return normalizeZonePhotos(response.images || response.data);
+  }
+
+  async deleteZonePhoto(zoneId: string, photoId: string): Promise<ZonePhoto[]> {
+    console.log('🗑️ Deleting photo:', photoId);
+    const response = await this.apiCall<any>(`/api/vendor/gamezones/${zoneId}/images/${photoId}`, {
+      method: 'DELETE',
+    });
+    this.invalidateZonePhotos(zoneId);
+    return normalizeZonePhotos(response.images || response.data);
+  }
+
+  // Zone cards, the detail page and the vendor's zone list all show photos
+  private invalidateZonePhotos(zoneId: string): void {
+    this.invalidateCache([`gamezone:${zoneId}`, 'gamezones', 'vendor-zones']);
+  }
+
+  /** The zone's full inventory, including inactive stations */
+  async getZoneStations(zoneId: string): Promise<Station[]> {
+    console.log('🖥️ Getting stations for zone:', zoneId);
+    const response = await this.apiCall<any>(`/api/vendor/gamezones/${zoneId}/stations`);
+    return normalizeStations(response.stations || response.data, true);
+  }
+
+  async createStation(zoneId: string, input: StationInput): Promise<Station> {
+    console.log('🖥️ Adding station to zone:', zoneId, input.name);
+    const response = await this.apiCall<{ success: boolean; station: any }>(`/api/vendor/gamezones/${zoneId}/stations`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    this.invalidateZoneStations(zoneId);
+    return normalizeStations([response.station], true)[0];
+  }
+
+  async updateStation(zoneId: string, stationId: string, input: Partial<StationInput>): Promise<Station> {
+    console.log('🖥️ Updating station:', stationId);
+    const response = await this.apiCall<{ success: boolean; station: any }>(`/api/vendor/gamezones/${zoneId}/stations/${stationId}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    this.invalidateZoneStations(zoneId);
+    return normalizeStations([response.station], true)[0];
+  }
+
+  /** The server refuses (ConflictError) while the station has upcoming bookings */
+  async deleteStation(zoneId: string, stationId: string): Promise<void> {
+    console.log('🗑️ Deleting station:', stationId);
+    await this.apiCall(`/api/vendor/gamezones/${zoneId}/stations/${stationId}`, { method: 'DELETE' });
+    this.invalidateZoneStations(zoneId);
+  }
+
+  // Inventory changes alter what customers see and what's free to book
+  private invalidateZoneStations(zoneId: string): void {
+    this.invalidateCache([`gamezone:${zoneId}`, 'gamezones', 'vendor-zones', `availability:${zoneId}`]);
+  }
+
+  /**
+   * POST a multipart body with upload progress. Mirrors apiCall's auth handling:
+   * one token refresh and replay on 401, then the forced-logout path.
+   */
+  private async uploadMultipart<T>(
+    endpoint: string,
+    form: FormData,
+    onProgress?: (fraction: number) => void,
+    isAuthReplay: boolean = false
+  ): Promise<T> {
+    await this.ensureFreshToken(endpoint);
+    const token = await this.getAuthToken();
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', `${this.baseURL}${endpoint}`);
+        xhr.setRequestHeader('Accept', 'application/json');
+        if (token) {
+          xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+        }
+        // Multipart bodies can be large; allow far longer than apiCall's 20s
+        xhr.timeout = 120000;
+
+        xhr.upload.onprogress = event => {
+          if (event.lengthComputable && event.total > 0) {
+            onProgress?.(event.loaded / event.total);
+          }
+        };
+        xhr.onload = () => {
+          let data: any = xhr.responseText;
+          try {
+            data = JSON.parse(xhr.responseText);
+          } catch {
+            // Non-JSON body; keep the text for the error message
+          }
+          if (xhr.status >= 200 && xhr.status < 300) {
+            onProgress?.(1);
+            resolve(data as T);
+          } else {
+            reject(createHttpError(xhr.status, data, endpoint, xhr.getResponseHeader('retry-after')));
+          }
+        };
+        xhr.onerror = () => reject(new NetworkError({ endpoint, serverMessage: 'Upload failed' }));
+        xhr.ontimeout = () => reject(new TimeoutError({ endpoint, serverMessage: 'Upload timed out' }));
+
+        xhr.send(form);
+      });
+    } catch (error) {
+      const apiError = toApiError(error, endpoint);
+      console.error(`❌ Upload error (${apiError.kind}):`, apiError.serverMessage || apiError.message);
+
+      if (apiError instanceof AuthExpiredError && token) {
+        if (!isAuthReplay) {
+          try {
+            await this.refreshAccessToken();
+            console.log(`🔁 Replaying upload to ${endpoint} with refreshed token`);
+            return this.uploadMultipart<T>(endpoint, form, onProgress, true);
+          } catch (refreshError) {
+            console.error('❌ Token refresh failed:', refreshError);
+            if (!this.refreshWasRejected(refreshError)) {
+              // Still signed in; surface the connectivity problem rather than an expired session
+              throw toApiError(refreshError, '/api/auth/refresh');
+            }
+          }
+        }
+        await this.handleSessionExpired('Access token rejected and refresh failed');
+      }
+      throw apiError;
+    }
+  }
+
+  /**
+   * Server view of a payment intent, used to tell whether a customer was actually charged.
+   */
+  async getPaymentStatus(paymentIntentId: string): Promise<{
+    success: boolean;
+    payment: { id: string; status: PaymentIntentStatus; amount: number; currency: string; bookingId?: string };
+  }> {
+    return this.apiCall(`/api/payments/intents/${encodeURIComponent(paymentIntentId)}`);
+  }
+
   async getGameZone(id: string): Promise<GameZone> {
     try {
       console.log(`🎮 Getting game zone details for ID: ${id}`);
@@ -1043,6 +1928,7 @@ class MobileApiService {
   }
 
   private formatGameZone(gamezone: any): GameZone {
+    const photos = normalizeZonePhotos(gamezone.images);
     return {
       _id: gamezone._id,
       name: gamezone.name || 'Unknown Zone',
@@ -1050,7 +1936,8 @@ class MobileApiService {
       pricePerHour: gamezone.pricePerHour || 0,
       rating: gamezone.rating || 0,
       totalReviews: gamezone.totalReviews || 0,
-      images: gamezone.images || [],
+      images: photos.map(photo => photo.url),
+      photos,
       location: {
         address: gamezone.location?.address || '',
         city: gamezone.location?.city || '',
@@ -1071,32 +1958,164 @@ class MobileApiService {
         name: 'Unknown Vendor',
         email: 'unknown@example.com'
       },
-      equipment: gamezone.equipment,
+      equipment: normalizeEquipment(gamezone.equipment, gamezone.stations),
+      stations: normalizeStations(gamezone.stations),
+      reschedulePolicy: gamezone.reschedulePolicy,
+      cancellationPolicy: gamezone.cancellationPolicy,
+      pricing: gamezone.pricing,
       createdAt: gamezone.createdAt || new Date().toISOString()
     };
   }
 
   private handleGameZoneError(error: any): Error {
-    if (error instanceof Error) {
-      if (error.message.includes('404')) {
-        return new Error('Game zone not found');
-      } else if (error.message.includes('Network')) {
-        return new Error('Network error. Please check your connection.');
-      } else if (error.message.includes('timeout')) {
-        return new Error('Request timed out. Please try again.');
-      }
+    if (error instanceof ApiError && error.kind === 'not_found') {
+      return new NotFoundError({
+        status: error.status,
+        endpoint: error.endpoint,
+        code: error.code,
+        serverMessage: 'Game zone not found',
+      });
     }
     return error;
   }
 
-  async getAvailability(zoneId: string, date: string): Promise<any> {
+  private toReviewPage(response: any, page: number): ReviewPage {
+    const reviews: Review[] = response.reviews || [];
+    return {
+      reviews,
+      pagination: response.pagination || {
+        currentPage: page,
+        totalPages: page,
+        totalItems: reviews.length,
+        hasNext: false,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /** Newest first. Cached per zone; writes below invalidate it */
+  async getZoneReviews(zoneId: string, page: number = 1, limit: number = 10): Promise<ReviewPage> {
+    console.log(`⭐ Getting reviews for zone ${zoneId}, page`, page);
+    const response = await this.apiCall<any>(
+      `/api/gamezones/${zoneId}/reviews`,
+      {},
+      0,
+      true,
+      `page=${page}&limit=${limit}`
+    );
+    return this.toReviewPage(response, page);
+  }
+
+  /**
+   * Review a completed booking. The server rejects bookings that aren't completed or
+   * already have a review (ValidationError / ConflictError).
+   */
+  async createReview(zoneId: string, bookingId: string, input: ReviewInput): Promise<Review> {
+    console.log('⭐ Creating review for booking:', bookingId);
+    const response = await this.apiCall<{ success: boolean; review: Review }>('/api/reviews', {
+      method: 'POST',
+      body: JSON.stringify({ zoneId, bookingId, ...input }),
+    });
+    // The zone's rating and the booking's reviewId both change
+    this.invalidateCache([`reviews:${zoneId}`, `gamezone:${zoneId}`, `booking:${bookingId}`, 'bookings']);
+    return response.review;
+  }
+
+  async updateReview(review: Review, input: ReviewInput): Promise<Review> {
+    console.log('⭐ Updating review:', review._id);
+    const response = await this.apiCall<{ success: boolean; review: Review }>(`/api/reviews/${review._id}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    this.invalidateCache([`reviews:${review.zoneId}`, `gamezone:${review.zoneId}`]);
+    return response.review;
+  }
+
+  async deleteReview(review: Review): Promise<void> {
+    console.log('🗑️ Deleting review:', review._id);
+    await this.apiCall(`/api/reviews/${review._id}`, { method: 'DELETE' });
+    const tags = [`reviews:${review.zoneId}`, `gamezone:${review.zoneId}`, 'bookings'];
+    this.invalidateCache(review.bookingId ? [...tags, `booking:${review.bookingId}`] : tags);
+  }
+
+  /** Flag a review for moderation; it stays visible until a moderator acts */
+  async reportReview(reviewId: string, reason: string, details?: string): Promise<void> {
+    console.log('🚩 Reporting review:', reviewId, reason);
+    await this.apiCall(`/api/reviews/${reviewId}/report`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, details }),
+    });
+  }
+
+  /** Reviews across the vendor's zones, newest first */
+  async getVendorReviews(options: { page?: number; limit?: number; zoneId?: string; unreplied?: boolean } = {}): Promise<ReviewPage> {
+    const { page = 1, limit = 20, zoneId, unreplied } = options;
+    const query = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (zoneId) query.set('zoneId', zoneId);
+    if (unreplied) query.set('unreplied', 'true');
+
+    console.log('⭐ Getting vendor reviews:', query.toString());
+    const response = await this.apiCall<any>('/api/vendor/reviews', {}, 0, false, query.toString());
+    return this.toReviewPage(response, page);
+  }
+
+  /** Add or replace the vendor's public reply */
+  async replyToReview(review: Review, text: string): Promise<Review> {
+    console.log('💬 Replying to review:', review._id);
+    const response = await this.apiCall<{ success: boolean; review: Review }>(`/api/vendor/reviews/${review._id}/reply`, {
+      method: 'PUT',
+      body: JSON.stringify({ text }),
+    });
+    this.invalidateCache([`reviews:${review.zoneId}`]);
+    return response.review;
+  }
+
+  /** The signed-in user's favorite zones, most recently added first */
+  async getFavorites(): Promise<GameZone[]> {
+    console.log('❤️ Getting favorite zones...');
+    const response = await this.apiCall<{ success: boolean; favorites: any[] }>('/api/favorites');
+    return (response.favorites || []).map(zone => this.formatGameZone(zone));
+  }
+
+  async addFavorite(zoneId: string): Promise<void> {
+    console.log('❤️ Adding favorite zone:', zoneId);
+    await this.apiCall('/api/favorites', {
+      method: 'POST',
+      body: JSON.stringify({ zoneId }),
+    });
+  }
+
+  async removeFavorite(zoneId: string): Promise<void> {
+    console.log('💔 Removing favorite zone:', zoneId);
+    await this.apiCall(`/api/favorites/${zoneId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Add zones favorited while signed out to the account. Zones that no longer exist are
+   * skipped by the server; returns the merged list.
+   */
+  async mergeFavorites(zoneIds: string[]): Promise<GameZone[]> {
+    console.log(`❤️ Merging ${zoneIds.length} local favorites into account`);
+    const response = await this.apiCall<{ success: boolean; favorites: any[] }>('/api/favorites/merge', {
+      method: 'POST',
+      body: JSON.stringify({ zoneIds }),
+    });
+    return (response.favorites || []).map(zone => this.formatGameZone(zone));
+  }
+
+  /**
+   * Slot occupancy for a zone and date. `excludeBookingId` leaves that booking's own
+   * slots out of the counts, so it can be moved onto (or overlapping) its current time.
+   */
+  async getAvailability(zoneId: string, date: string, excludeBookingId?: string): Promise<any> {
     try {
       console.log(`🔍 Getting availability for zone ${zoneId} on ${date}`);
       const response = await this.apiCall<any>(
         `/api/bookings/availability/${zoneId}/${date}`,
         {},
         0,
-        true
+        true,
+        excludeBookingId ? `excludeBookingId=${encodeURIComponent(excludeBookingId)}` : undefined
       );
       
       if (response.success) {
@@ -1130,11 +2149,8 @@ class MobileApiService {
     }
   }
 
-  getCacheStats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
-    };
+  getCacheStats(): CacheStats {
+    return this.responseCache.getStats();
   }
 
 
@@ -1219,7 +2235,7 @@ class MobileApiService {
   }
   
   // Mark notifications as read
-  async markNotificationsAsRead(notificationIds: string[]): Promise<void> {
+  async markNotificationsAsRead(notificationIds: string[], idempotencyKey?: string): Promise<void> {
     try {
       console.log('✅ Marking notifications as read...');
       
@@ -1228,6 +2244,7 @@ class MobileApiService {
         modifiedCount: number;
       }>('/api/notifications/mark-read', {
         method: 'PUT',
+        headers: idempotencyHeaders(idempotencyKey),
         body: JSON.stringify({ notificationIds }),
       });
       
@@ -1266,7 +2283,7 @@ class MobileApiService {
   }
   
   // Delete notification
-  async deleteNotification(notificationId: string): Promise<void> {
+  async deleteNotification(notificationId: string, idempotencyKey?: string): Promise<void> {
     try {
       console.log('🗑️ Deleting notification...');
       
@@ -1274,6 +2291,7 @@ class MobileApiService {
         success: boolean;
       }>(`/api/notifications/${notificationId}`, {
         method: 'DELETE',
+        headers: idempotencyHeaders(idempotencyKey),
       });
       
       if (response.success) {
@@ -1289,7 +2307,7 @@ class MobileApiService {
   
 
   // Execute notification action
-  async executeNotificationAction(notificationId: string, actionType: string): Promise<any> {
+  async executeNotificationAction(notificationId: string, actionType: string, idempotencyKey?: string): Promise<any> {
     try {
       console.log('🔄 Executing notification action...');
       
@@ -1299,6 +2317,7 @@ class MobileApiService {
         [key: string]: any;
       }>(`/api/notifications/${notificationId}/action`, {
         method: 'POST',
+        headers: idempotencyHeaders(idempotencyKey),
         body: JSON.stringify({ actionType }),
       });
       
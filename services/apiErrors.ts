@@ -0,0 +1,201 @@
+// services/apiErrors.ts - Typed error family thrown by MobileApiService.apiCall
+
+export type ApiErrorKind =
+  | 'auth_expired'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'unknown';
+
+interface ApiErrorOptions {
+  status?: number;
+  endpoint: string;
+  code?: string;
+  serverMessage?: string;
+  details?: any;
+}
+
+/**
+ * Base class for every error surfaced by the API layer.
+ * `message` is always safe to show to the user; the raw server text lives in `serverMessage`.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly endpoint: string;
+  readonly code?: string;
+  readonly serverMessage?: string;
+  readonly details?: any;
+
+  constructor(kind: ApiErrorKind, message: string, retryable: boolean, options: ApiErrorOptions) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.code = options.code;
+    this.serverMessage = options.serverMessage;
+    this.details = options.details;
+  }
+}
+
+export class AuthExpiredError extends ApiError {
+  constructor(options: ApiErrorOptions) {
+    super('auth_expired', 'Session expired. Please log in again.', false, options);
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(options: ApiErrorOptions) {
+    super('forbidden', 'Access denied. You don\'t have permission to perform this action.', false, options);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(options: ApiErrorOptions) {
+    super('not_found', options.serverMessage || 'The requested item could not be found.', false, options);
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(options: ApiErrorOptions) {
+    super('conflict', options.serverMessage || 'Conflict occurred. Please check your data.', false, options);
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  /** Delay requested by the server via Retry-After, if any */
+  readonly retryAfterMs?: number;
+
+  constructor(options: ApiErrorOptions & { retryAfterMs?: number }) {
+    super('rate_limited', 'Too many requests. Please try again later.', true, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(options: ApiErrorOptions) {
+    super('server', 'Server error. Please try again later.', true, options);
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(options: ApiErrorOptions) {
+    super('network', 'Network error. Please check your internet connection and try again.', true, options);
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(options: ApiErrorOptions) {
+    super('timeout', 'Request timed out. Please check your internet connection.', true, options);
+  }
+}
+
+export class ValidationError extends ApiError {
+  /** Per-field messages, keyed by field name (from express-validator style `errors` arrays) */
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(options: ApiErrorOptions & { fieldErrors?: Record<string, string> }) {
+    super('validation', options.serverMessage || 'Some of the information provided is invalid.', false, options);
+    this.fieldErrors = options.fieldErrors || {};
+  }
+}
+
+// Extract per-field messages from the common server validation payload shapes
+const parseFieldErrors = (data: any): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  const errors = data?.errors;
+
+  if (Array.isArray(errors)) {
+    errors.forEach((item: any) => {
+      const field = item?.path || item?.param || item?.field;
+      const message = item?.msg || item?.message;
+      if (field && message && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors).forEach(([field, value]: [string, any]) => {
+      const message = typeof value === 'string' ? value : value?.message;
+      if (message) fieldErrors[field] = message;
+    });
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Build the typed error for a non-2xx response.
+ */
+export const createHttpError = (
+  status: number,
+  data: any,
+  endpoint: string,
+  retryAfterHeader?: string | null
+): ApiError => {
+  const serverMessage = typeof data === 'string'
+    ? data
+    : data?.error || data?.message || data?.msg || `HTTP ${status}`;
+  const code = typeof data === 'object' ? data?.code || data?.errorCode : undefined;
+  const options: ApiErrorOptions = { status, endpoint, code, serverMessage, details: data };
+
+  if (status === 401) return new AuthExpiredError(options);
+  if (status === 403) return new ForbiddenError(options);
+  if (status === 404) return new NotFoundError(options);
+  if (status === 409) return new ConflictError(options);
+  if (status === 429) {
+    const retryAfterSeconds = retryAfterHeader ? parseInt(retryAfterHeader, 10) : NaN;
+    return new RateLimitedError({
+      ...options,
+      retryAfterMs: isNaN(retryAfterSeconds) ? undefined : retryAfterSeconds * 1000,
+    });
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError({ ...options, fieldErrors: parseFieldErrors(data) });
+  }
+  if (status >= 500) return new ServerError(options);
+
+  return new ApiError('unknown', serverMessage, false, options);
+};
+
+/**
+ * Normalise anything thrown while talking to the server into an ApiError.
+ */
+export const toApiError = (error: any, endpoint: string): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (error?.name === 'AbortError') {
+    return new TimeoutError({ endpoint, serverMessage: error.message });
+  }
+
+  if (error instanceof TypeError && error.message.includes('Network request failed')) {
+    return new NetworkError({ endpoint, serverMessage: error.message });
+  }
+
+  return new ApiError(
+    'unknown',
+    error?.message || 'An unexpected error occurred. Please try again.',
+    false,
+    { endpoint, serverMessage: error?.message, details: error }
+  );
+};
+
+export const isApiError = (error: unknown, kind?: ApiErrorKind): error is ApiError =>
+  error instanceof ApiError && (!kind || error.kind === kind);
+
+/**
+ * User-facing message for any caught value.
+ */
+export const getErrorMessage = (error: unknown, fallback = 'An unexpected error occurred. Please try again.'): string => {
+  if (error instanceof ApiError) return error.message;
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+};
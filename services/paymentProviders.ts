@@ -0,0 +1,26 @@
+// services/paymentProviders.ts - Selects the active payment provider
+import { FakePaymentProvider } from './FakePaymentProvider';
+import { PaymentError, PaymentProvider } from './PaymentProvider';
+
+const USE_FAKE_PROVIDER = __DEV__ || process.env.EXPO_PUBLIC_PAYMENT_PROVIDER === 'fake';
+
+let activeProvider: PaymentProvider | null = null;
+
+/**
+ * Register the gateway-backed provider at app start-up (or a fake one in tests).
+ */
+export const setPaymentProvider = (provider: PaymentProvider | null): void => {
+  activeProvider = provider;
+};
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!activeProvider && USE_FAKE_PROVIDER) {
+    console.log('💳 Using fake payment provider');
+    activeProvider = new FakePaymentProvider();
+  }
+
+  if (!activeProvider) {
+    throw new PaymentError('provider_unavailable', 'Payments are not available right now. Please try again later.');
+  }
+  return activeProvider;
+};
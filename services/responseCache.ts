@@ -0,0 +1,312 @@
+// services/responseCache.ts - Persistent stale-while-revalidate cache for GET responses
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'apiResponseCache:v1';
+const PERSIST_DEBOUNCE_MS = 500;
+const DEFAULT_MAX_ENTRIES = 100;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export interface CachePolicy {
+  /** Human-readable name, shown in cache stats */
+  name: string;
+  pattern: RegExp;
+  /** How long a response is served without revalidation */
+  ttl: number;
+  /** How long past `ttl` a response may still be served while revalidating in the background */
+  maxStale: number;
+  /** Tags used for targeted invalidation; receives the regex match of the endpoint path */
+  tags: (match: RegExpMatchArray) => string[];
+  /** Kept out of LRU eviction (and the entry limit); dropped only when stale or invalidated */
+  pinned?: boolean;
+}
+
+interface CacheEntry<T = any> {
+  data: T;
+  tags: string[];
+  policy: string;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+  pinned?: boolean;
+}
+
+export interface CacheLookup<T> {
+  data: T;
+  isStale: boolean;
+}
+
+export interface CacheStats {
+  size: number;
+  maxEntries: number;
+  keys: string[];
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  approximateBytes: number;
+}
+
+// First matching policy wins, so more specific paths go first
+export const CACHE_POLICIES: CachePolicy[] = [
+  {
+    name: 'availability',
+    pattern: /^\/api\/bookings\/availability\/([^/?]+)\/([^/?]+)/,
+    ttl: 30 * 1000,
+    maxStale: 0, // never show stale slot occupancy
+    tags: match => ['availability', `availability:${match[1]}`],
+  },
+  {
+    // Kept for a week so customers can show their QR code without a connection. Its own
+    // tag, so refreshing bookings doesn't drop it; only changes to the booking itself do
+    name: 'check-in-code',
+    pattern: /^\/api\/bookings\/([^/?]+)\/check-in-code$/,
+    ttl: HOUR,
+    maxStale: 7 * 24 * HOUR,
+    tags: match => [`check-in-code:${match[1]}`],
+    pinned: true,
+  },
+  {
+    name: 'booking',
+    pattern: /^\/api\/bookings\/([^/?]+)$/,
+    ttl: MINUTE,
+    maxStale: HOUR,
+    tags: match => ['bookings', `booking:${match[1]}`],
+  },
+  {
+    name: 'bookings',
+    pattern: /^\/api\/bookings(\?|$)/,
+    ttl: MINUTE,
+    maxStale: 24 * HOUR,
+    tags: () => ['bookings'],
+  },
+  {
+    name: 'reviews',
+    pattern: /^\/api\/gamezones\/([^/?]+)\/reviews/,
+    ttl: MINUTE,
+    maxStale: 24 * HOUR,
+    tags: match => ['reviews', `reviews:${match[1]}`],
+  },
+  {
+    name: 'gamezone',
+    pattern: /^\/api\/gamezones\/([^/?]+)$/,
+    ttl: 5 * MINUTE,
+    maxStale: 24 * HOUR,
+    tags: match => ['gamezones', `gamezone:${match[1]}`],
+  },
+  {
+    name: 'gamezones',
+    pattern: /^\/api\/gamezones(\?|$)/,
+    ttl: 2 * MINUTE,
+    maxStale: 24 * HOUR,
+    tags: () => ['gamezones'],
+  },
+  {
+    name: 'vendor-zones',
+    pattern: /^\/api\/vendor\/gamezones(\?|$)/,
+    ttl: 5 * MINUTE,
+    maxStale: 0,
+    tags: () => ['vendor-zones'],
+  },
+  {
+    name: 'stats',
+    pattern: /^\/api\/stats\//,
+    ttl: 10 * MINUTE,
+    maxStale: 7 * 24 * HOUR,
+    tags: () => ['stats'],
+  },
+  {
+    name: 'profile',
+    pattern: /^\/api\/auth\/profile/,
+    ttl: 5 * MINUTE,
+    maxStale: 24 * HOUR,
+    tags: () => ['profile'],
+  },
+  {
+    name: 'notifications',
+    pattern: /^\/api\/notifications/,
+    ttl: 30 * 1000,
+    maxStale: 10 * MINUTE,
+    tags: () => ['notifications'],
+  },
+];
+
+const DEFAULT_POLICY: CachePolicy = {
+  name: 'default',
+  pattern: /.*/,
+  ttl: 5 * MINUTE,
+  maxStale: 0,
+  tags: () => [],
+};
+
+export class ResponseCache {
+  // Map iteration order doubles as LRU order: oldest first
+  private entries: Map<string, CacheEntry> = new Map();
+  private hydratePromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private readonly policies: CachePolicy[] = CACHE_POLICIES
+  ) {}
+
+  /**
+   * Load persisted entries once; safe to call before every read.
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydratePromise) {
+      this.hydratePromise = this.loadFromStorage();
+    }
+    return this.hydratePromise;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!raw) return;
+
+      const now = Date.now();
+      const stored: [string, CacheEntry][] = JSON.parse(raw);
+      stored.forEach(([key, entry]) => {
+        // Entries written while hydrating are newer than the persisted copy
+        if (entry.staleUntil > now && !this.entries.has(key)) {
+          this.entries.set(key, entry);
+        }
+      });
+      this.enforceLimit();
+      console.log(`💾 Response cache hydrated with ${this.entries.size} entries`);
+    } catch (error) {
+      console.error('❌ Failed to hydrate response cache:', error);
+    }
+  }
+
+  getPolicy(endpoint: string): { policy: CachePolicy; tags: string[] } {
+    for (const policy of this.policies) {
+      const match = endpoint.match(policy.pattern);
+      if (match) {
+        return { policy, tags: policy.tags(match) };
+      }
+    }
+    return { policy: DEFAULT_POLICY, tags: [] };
+  }
+
+  get<T>(key: string): CacheLookup<T> | null {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (!entry || now > entry.staleUntil) {
+      if (entry) {
+        this.entries.delete(key);
+        this.schedulePersist();
+      }
+      this.misses++;
+      return null;
+    }
+
+    // Touch for LRU
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const isStale = now > entry.freshUntil;
+    if (isStale) {
+      this.staleHits++;
+    } else {
+      this.hits++;
+    }
+    return { data: entry.data as T, isStale };
+  }
+
+  set<T>(key: string, endpoint: string, data: T): string[] {
+    const { policy, tags } = this.getPolicy(endpoint);
+    const now = Date.now();
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      data,
+      tags,
+      policy: policy.name,
+      storedAt: now,
+      freshUntil: now + policy.ttl,
+      staleUntil: now + policy.ttl + policy.maxStale,
+      pinned: policy.pinned,
+    });
+    this.enforceLimit();
+    this.schedulePersist();
+    return tags;
+  }
+
+  /**
+   * Drop every entry carrying any of the given tags. Returns the number removed.
+   */
+  invalidateTags(tags: string[]): number {
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      if (entry.tags.some(tag => tags.includes(tag))) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    if (removed > 0) {
+      this.schedulePersist();
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    AsyncStorage.removeItem(STORAGE_KEY).catch(error => {
+      console.error('❌ Failed to clear persisted response cache:', error);
+    });
+  }
+
+  getStats(): CacheStats {
+    let approximateBytes = 0;
+    this.entries.forEach(entry => {
+      approximateBytes += JSON.stringify(entry.data)?.length || 0;
+    });
+
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      keys: Array.from(this.entries.keys()),
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      approximateBytes,
+    };
+  }
+
+  private enforceLimit(): void {
+    let evictable = 0;
+    this.entries.forEach(entry => {
+      if (!entry.pinned) evictable++;
+    });
+    for (const [key, entry] of this.entries) {
+      if (evictable <= this.maxEntries) break;
+      if (entry.pinned) continue;
+      this.entries.delete(key);
+      evictable--;
+      this.evictions++;
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.entries.entries()))).catch(error => {
+        console.error('❌ Failed to persist response cache:', error);
+      });
+    }, PERSIST_DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,97 @@
+import { buildBookingCalendar, foldLine, getBookingEventUid } from '../calendar';
+
+jest.mock('../../services/api', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+
+const booking = {
+  id: 'b1',
+  reference: 'GZ-1234',
+  zoneName: 'Pixel Arena',
+  date: '2025-03-14T00:00:00.000Z',
+  timeSlot: '18:00',
+  duration: 2,
+  status: 'confirmed',
+  address: '12 Main St, Austin, TX',
+};
+
+const now = new Date(Date.UTC(2025, 2, 1, 9, 30));
+const octets = line => Buffer.byteLength(line, 'utf8');
+const unfold = ics => ics.replace(/\r\n /g, '');
+
+const utcStamp = date => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+describe('buildBookingCalendar', () => {
+  it('builds a published event with reminders', () => {
+    const ics = buildBookingCalendar(booking, 0, now);
+    const lines = ics.split('\r\n');
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines).toContain(`UID:${getBookingEventUid('b1')}`);
+    expect(lines).toContain('SEQUENCE:0');
+    expect(lines).toContain('DTSTAMP:20250301T093000Z');
+    expect(lines).toContain(`DTSTART:${utcStamp(new Date(2025, 2, 14, 18, 0))}`);
+    expect(lines).toContain(`DTEND:${utcStamp(new Date(2025, 2, 14, 20, 0))}`);
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(lines.filter(line => line.startsWith('TRIGGER:'))).toEqual(['TRIGGER:-P1D', 'TRIGGER:-PT1H']);
+  });
+
+  it('escapes text values', () => {
+    const ics = unfold(buildBookingCalendar(booking, 0, now));
+    expect(ics).toContain('LOCATION:12 Main St\\, Austin\\, TX');
+    expect(ics).toContain('DESCRIPTION:Booking reference: GZ-1234\\nDuration: 2 hours\\n');
+  });
+
+  it('cancels the same event without alarms', () => {
+    const ics = buildBookingCalendar({ ...booking, status: 'cancelled' }, 2, now);
+    const lines = ics.split('\r\n');
+
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).toContain(`UID:${getBookingEventUid('b1')}`);
+    expect(ics).not.toContain('BEGIN:VALARM');
+  });
+
+  it('keeps every line within 75 octets for non-ASCII names', () => {
+    const ics = buildBookingCalendar(
+      { ...booking, zoneName: 'Café Übergamer Zürich 🎮🎮🎮', address: 'Straße der Spieler 42, München' },
+      0,
+      now
+    );
+
+    ics.split('\r\n').forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+    expect(unfold(ics)).toContain('SUMMARY:Gaming session at Café Übergamer Zürich 🎮🎮🎮');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+  });
+
+  it('folds at 75 octets with a leading space on continuation lines', () => {
+    const line = `DESCRIPTION:${'a'.repeat(200)}`;
+    const parts = foldLine(line).split('\r\n');
+
+    expect(octets(parts[0])).toBe(75);
+    parts.slice(1).forEach(part => {
+      expect(part.startsWith(' ')).toBe(true);
+      expect(octets(part)).toBeLessThanOrEqual(75);
+    });
+    expect(unfold(foldLine(line))).toBe(line);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(40)}${'🎮'.repeat(20)}`;
+    const folded = foldLine(line);
+
+    folded.split('\r\n').forEach(part => {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      expect(part).not.toMatch(/[\uD800-\uDBFF]$/);
+    });
+    expect(unfold(folded)).toBe(line);
+  });
+});
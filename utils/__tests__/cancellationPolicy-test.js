@@ -0,0 +1,102 @@
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  evaluateCancellation,
+  evaluateNoShow,
+  normalizeCancellationPolicy,
+} from '../cancellationPolicy';
+
+// Policy evaluation is pure; keep the API client (and its native storage) out of the test
+jest.mock('../../services/api', () => ({}));
+
+const booking = {
+  status: 'confirmed',
+  date: '2030-06-15',
+  timeSlot: '18:00',
+  totalAmount: 80,
+  paymentStatus: 'paid',
+};
+
+const hoursBefore = (hours) => new Date(2030, 5, 15, 18 - hours, 0);
+
+const policy = normalizeCancellationPolicy({
+  tiers: [
+    { minHoursBefore: 6, refundPercent: 25 },
+    { minHoursBefore: 48, refundPercent: 100 },
+    { minHoursBefore: 24, refundPercent: 75 },
+  ],
+  noShow: { graceMinutes: 10, refundPercent: 10 },
+});
+
+describe('normalizeCancellationPolicy', () => {
+  it('sorts tiers from most to least notice', () => {
+    expect(policy.tiers.map(tier => tier.minHoursBefore)).toEqual([48, 24, 6]);
+  });
+
+  it('falls back to the default policy without valid tiers', () => {
+    expect(normalizeCancellationPolicy(undefined)).toBe(DEFAULT_CANCELLATION_POLICY);
+    expect(normalizeCancellationPolicy({ tiers: [{ minHoursBefore: 'soon' }] })).toBe(DEFAULT_CANCELLATION_POLICY);
+  });
+
+  it('clamps refund percentages', () => {
+    const clamped = normalizeCancellationPolicy({ tiers: [{ minHoursBefore: 1, refundPercent: 150 }] });
+    expect(clamped.tiers[0].refundPercent).toBe(100);
+  });
+});
+
+describe('evaluateCancellation', () => {
+  it('applies the most generous tier the notice qualifies for', () => {
+    expect(evaluateCancellation(booking, policy, hoursBefore(72))).toMatchObject({
+      cancellable: true,
+      refundPercent: 100,
+      refundAmount: 80,
+    });
+    expect(evaluateCancellation(booking, policy, hoursBefore(30))).toMatchObject({ refundPercent: 75, refundAmount: 60 });
+    expect(evaluateCancellation(booking, policy, hoursBefore(6))).toMatchObject({ refundPercent: 25, refundAmount: 20 });
+  });
+
+  it('blocks cancellation inside the last tier', () => {
+    const quote = evaluateCancellation(booking, policy, hoursBefore(5));
+    expect(quote.cancellable).toBe(false);
+    expect(quote.refundAmount).toBe(0);
+    expect(quote.reason).toMatch(/6 hours/);
+  });
+
+  it('blocks bookings that have started or are no longer active', () => {
+    expect(evaluateCancellation(booking, policy, hoursBefore(-1)).cancellable).toBe(false);
+    expect(evaluateCancellation({ ...booking, status: 'cancelled' }, policy, hoursBefore(72)).cancellable).toBe(false);
+  });
+
+  it('refunds nothing for unpaid bookings', () => {
+    const quote = evaluateCancellation({ ...booking, paymentStatus: 'pending' }, policy, hoursBefore(72));
+    expect(quote).toMatchObject({ cancellable: true, refundPercent: 0, refundAmount: 0 });
+  });
+
+  it('rounds refunds to cents', () => {
+    const quote = evaluateCancellation({ ...booking, totalAmount: 33.33 }, policy, hoursBefore(30));
+    expect(quote.refundAmount).toBe(25);
+  });
+});
+
+describe('evaluateNoShow', () => {
+  it('waits for the grace period before flagging a no-show', () => {
+    expect(evaluateNoShow(booking, policy, new Date(2030, 5, 15, 18, 5)).isNoShow).toBe(false);
+    expect(evaluateNoShow(booking, policy, new Date(2030, 5, 15, 18, 11))).toEqual({ isNoShow: true, refundAmount: 8 });
+  });
+
+  it('ignores checked-in bookings', () => {
+    const checkedIn = { ...booking, checkedInAt: '2030-06-15T18:02:00Z' };
+    expect(evaluateNoShow(checkedIn, policy, new Date(2030, 5, 15, 19, 0)).isNoShow).toBe(false);
+  });
+});
+
+describe('describeCancellationPolicy', () => {
+  it('lists every rule', () => {
+    expect(describeCancellationPolicy(DEFAULT_CANCELLATION_POLICY)).toEqual([
+      '24h+ before start: 100% refund',
+      '2h+ before start: 50% refund',
+      'Under 2h: can\'t be cancelled',
+      'No-show (15 min grace): no refund',
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { availabilityForParty, normalizeAvailability, validateBookingWindow } from '../availability';
+import { guestsForRequest, isBookingGuest, maxPartySize, resizeGuestNames } from '../groupBooking';
+
+jest.mock('../../services/api', () => ({}));
+
+const day = normalizeAvailability(
+  {
+    operatingHours: { start: '10:00', end: '13:00' },
+    slots: [
+      { time: '10:00', capacity: 6, booked: 1 },
+      { time: '11:00', capacity: 6, booked: 4 },
+      { time: '12:00', capacity: 6, booked: 0 },
+    ],
+  },
+  'zone1',
+  '2030-01-01',
+  6,
+  new Date('2029-12-31T12:00:00')
+);
+
+describe('party availability', () => {
+  it('closes slots without a spot for every player', () => {
+    expect(availabilityForParty(day, 3).slots.map(slot => slot.isAvailable)).toEqual([true, false, true]);
+    expect(availabilityForParty(day, 1)).toBe(day);
+  });
+
+  it('says how many spots are left', () => {
+    const check = validateBookingWindow(day, '10:00', 2, 3);
+    expect(check.valid).toBe(false);
+    expect(check.reason).toBe('Only 2 spots are left at 11:00, not enough for 3 players.');
+    expect(validateBookingWindow(day, '10:00', 2, 2).valid).toBe(true);
+  });
+});
+
+describe('maxPartySize', () => {
+  it('lets a per-player cap lower the zone capacity but not raise it', () => {
+    expect(maxPartySize(8, 4)).toBe(4);
+    expect(maxPartySize(3, 10)).toBe(3);
+    expect(maxPartySize(0)).toBe(1);
+  });
+});
+
+describe('guest names', () => {
+  it('keeps typed names when the party changes size', () => {
+    expect(resizeGuestNames(['Sam', 'Alex'], 2)).toEqual(['Sam']);
+    expect(resizeGuestNames(['Sam'], 4)).toEqual(['Sam', '', '']);
+  });
+
+  it('sends only filled-in names', () => {
+    expect(guestsForRequest([' Sam ', '', '  '])).toEqual([{ name: 'Sam' }]);
+    expect(guestsForRequest(['', ''])).toBeUndefined();
+  });
+});
+
+describe('isBookingGuest', () => {
+  it('compares the booker with the signed-in user', () => {
+    expect(isBookingGuest({ userId: { _id: 'host' } }, 'friend')).toBe(true);
+    expect(isBookingGuest({ userId: 'host' }, 'host')).toBe(false);
+    expect(isBookingGuest({ userId: 'host' }, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { normalizePricingRules, promoDiscountFor, promoForBooking, quoteBooking, rateForHour } from '../pricing';
+import { calculatePriceDifference } from '../reschedule';
+
+// Quotes are pure; keep the API client (and its native storage) out of the test
+jest.mock('../../services/api', () => ({}));
+
+const rules = normalizePricingRules(
+  {
+    weekendPricePerHour: 25,
+    bands: [{ label: 'Peak', pricePerHour: 30, days: [1, 2, 3, 4, 5], start: '18:00', end: '23:00' }],
+    holidays: [{ date: '2030-12-25', label: 'Christmas', pricePerHour: 40 }],
+    durationDiscounts: [
+      { minHours: 3, percent: 10 },
+      { minHours: 5, percent: 20 },
+    ],
+    perPlayer: { includedPlayers: 2, pricePerExtraPlayerPerHour: 5 },
+    serviceFee: { flat: 1, percent: 0 },
+    taxPercent: 10,
+  },
+  20
+);
+
+describe('normalizePricingRules', () => {
+  it('charges the flat zone rate when the zone has no rules', () => {
+    const quote = quoteBooking({ date: '2030-06-12', timeSlot: '10:00', duration: 2 }, normalizePricingRules(undefined, 15));
+    expect(quote.total).toBe(30);
+    expect(quote.lines).toEqual([{ kind: 'rate', label: 'Standard rate: 2h × $15', amount: 30 }]);
+  });
+
+  it('sorts duration discounts most generous first', () => {
+    expect(rules.durationDiscounts.map(discount => discount.minHours)).toEqual([5, 3]);
+  });
+});
+
+describe('rateForHour', () => {
+  it('prefers holidays, then bands, then weekends', () => {
+    expect(rateForHour(rules, new Date(2030, 11, 25, 19)).pricePerHour).toBe(40);
+    expect(rateForHour(rules, new Date(2030, 5, 12, 19)).pricePerHour).toBe(30);
+    expect(rateForHour(rules, new Date(2030, 5, 15, 19)).pricePerHour).toBe(25);
+    expect(rateForHour(rules, new Date(2030, 5, 12, 10)).pricePerHour).toBe(20);
+  });
+});
+
+describe('quoteBooking', () => {
+  it('splits a session that runs into the peak band', () => {
+    const quote = quoteBooking({ date: '2030-06-12', timeSlot: '17:00', duration: 2 }, rules);
+    expect(quote.lines.filter(line => line.kind === 'rate').map(line => line.amount)).toEqual([20, 30]);
+    expect(quote.subtotal).toBe(50);
+  });
+
+  it('applies extra players, discount, fee and tax in order', () => {
+    const quote = quoteBooking({ date: '2030-06-12', timeSlot: '10:00', duration: 3, players: 4 }, rules);
+    // 3h × $20 + 2 extra players × 3h × $5 = 90, 10% off = 81, +$1 fee = 82, 10% tax = 8.2
+    expect(quote.subtotal).toBe(90);
+    expect(quote.discount).toBe(9);
+    expect(quote.fees).toBe(1);
+    expect(quote.tax).toBe(8.2);
+    expect(quote.total).toBe(90.2);
+  });
+});
+
+describe('promo codes', () => {
+  const request = { date: '2030-06-12', timeSlot: '10:00', duration: 3, players: 4 };
+
+  it('takes the promo off after the duration discount and before fees and tax', () => {
+    const quote = quoteBooking(request, rules, { code: 'SAVE10', type: 'fixed', value: 10 });
+    // 81 after the duration discount, -10 promo = 71, +$1 fee = 72, 10% tax = 7.2
+    expect(quote.promoDiscount).toBe(10);
+    expect(quote.lines.find(line => line.kind === 'promo')).toEqual({ kind: 'promo', label: 'Promo SAVE10', amount: -10 });
+    expect(quote.total).toBe(79.2);
+  });
+
+  it('caps percentage codes and ignores codes under the minimum spend', () => {
+    expect(promoDiscountFor({ code: 'HALF', type: 'percentage', value: 50, maxDiscount: 15 }, 81)).toBe(15);
+    expect(promoDiscountFor({ code: 'BIG', type: 'fixed', value: 20, minSpend: 100 }, 81)).toBe(0);
+    expect(promoDiscountFor({ code: 'ALL', type: 'fixed', value: 200 }, 81)).toBe(81);
+  });
+
+  it('keeps a booking\'s promo when it is rescheduled to a slot at the same price', () => {
+    const original = quoteBooking(request, rules, { code: 'HALF', type: 'percentage', value: 50, maxDiscount: 15 });
+    const booking = { promoCode: 'HALF', totalAmount: original.total, priceBreakdown: original };
+    const promo = promoForBooking(booking);
+    expect(promo).toEqual({ code: 'HALF', type: 'fixed', value: 15 });
+
+    // Same rates on another weekday morning
+    const moved = quoteBooking({ ...request, date: '2030-06-13' }, rules, promo);
+    expect(calculatePriceDifference(booking.totalAmount, moved.total)).toEqual({
+      newTotal: original.total,
+      difference: 0,
+      kind: 'none',
+    });
+  });
+
+  it('has no promo for a booking charged without one', () => {
+    expect(promoForBooking({ priceBreakdown: quoteBooking(request, rules) })).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import { ResponseCache } from '../../services/responseCache';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+  removeItem: jest.fn(() => Promise.resolve()),
+}));
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('ResponseCache', () => {
+  let now;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = Date.UTC(2030, 0, 1, 12);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('getPolicy', () => {
+    const cache = new ResponseCache();
+
+    it('matches the most specific policy first and tags it from the path', () => {
+      expect(cache.getPolicy('/api/bookings/abc/check-in-code').policy.name).toBe('check-in-code');
+      expect(cache.getPolicy('/api/bookings/abc').tags).toEqual(['bookings', 'booking:abc']);
+      expect(cache.getPolicy('/api/bookings?status=confirmed').policy.name).toBe('bookings');
+      expect(cache.getPolicy('/api/bookings/availability/z1/2030-01-01').tags).toEqual([
+        'availability',
+        'availability:z1',
+      ]);
+      expect(cache.getPolicy('/api/gamezones/z1/reviews?page=2').tags).toEqual(['reviews', 'reviews:z1']);
+    });
+
+    it('falls back to an untagged default', () => {
+      const { policy, tags } = cache.getPolicy('/api/something-else');
+      expect(policy.name).toBe('default');
+      expect(tags).toEqual([]);
+    });
+  });
+
+  describe('staleness', () => {
+    it('serves fresh, then stale, then nothing', () => {
+      const cache = new ResponseCache();
+      cache.set('zone', '/api/gamezones/z1', { name: 'Arena' });
+
+      expect(cache.get('zone')).toEqual({ data: { name: 'Arena' }, isStale: false });
+
+      now += 6 * MINUTE;
+      expect(cache.get('zone')).toEqual({ data: { name: 'Arena' }, isStale: true });
+
+      now += 24 * HOUR;
+      expect(cache.get('zone')).toBeNull();
+      expect(cache.getStats()).toMatchObject({ size: 0, hits: 1, staleHits: 1, misses: 1 });
+    });
+
+    it('never serves stale availability', () => {
+      const cache = new ResponseCache();
+      cache.set('slots', '/api/bookings/availability/z1/2030-01-01', []);
+
+      now += 31 * 1000;
+      expect(cache.get('slots')).toBeNull();
+    });
+  });
+
+  describe('invalidateTags', () => {
+    it('drops only entries carrying one of the tags', () => {
+      const cache = new ResponseCache();
+      cache.set('list', '/api/bookings', []);
+      cache.set('b1', '/api/bookings/b1', {});
+      cache.set('b2', '/api/bookings/b2', {});
+      cache.set('zones', '/api/gamezones', []);
+
+      expect(cache.invalidateTags(['booking:b1'])).toBe(1);
+      expect(cache.get('b1')).toBeNull();
+      expect(cache.get('b2')).not.toBeNull();
+
+      expect(cache.invalidateTags(['bookings'])).toBe(2);
+      expect(cache.getStats().keys).toEqual(['zones']);
+    });
+
+    it('keeps check-in codes when the bookings list is refreshed', () => {
+      const cache = new ResponseCache();
+      cache.set('code', '/api/bookings/b1/check-in-code', { code: 'GZ1.a.b' });
+
+      expect(cache.invalidateTags(['bookings', 'booking:b1'])).toBe(0);
+      expect(cache.invalidateTags(['check-in-code:b1'])).toBe(1);
+    });
+  });
+
+  describe('LRU eviction', () => {
+    it('evicts the least recently used entry past the limit', () => {
+      const cache = new ResponseCache(2);
+      cache.set('a', '/api/gamezones/a', 'a');
+      cache.set('b', '/api/gamezones/b', 'b');
+      cache.get('a');
+      cache.set('c', '/api/gamezones/c', 'c');
+
+      expect(cache.getStats()).toMatchObject({ keys: ['a', 'c'], evictions: 1 });
+    });
+
+    it('never evicts check-in codes or counts them toward the limit', () => {
+      const cache = new ResponseCache(2);
+      cache.set('code', '/api/bookings/b1/check-in-code', { code: 'GZ1.a.b' });
+      cache.set('a', '/api/gamezones/a', 'a');
+      cache.set('b', '/api/gamezones/b', 'b');
+      cache.set('c', '/api/gamezones/c', 'c');
+
+      expect(cache.getStats().keys).toEqual(['code', 'b', 'c']);
+      expect(cache.get('code')).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  availabilityForSelection,
+  normalizeAvailability,
+  pickStationsForWindow,
+  validateStationWindow,
+} from '../availability';
+import { normalizeStations, validateStation } from '../stations';
+
+jest.mock('../../services/api', () => ({}));
+
+const stations = normalizeStations([
+  { _id: 'pc1', name: 'PC 1', type: 'pc' },
+  { _id: 'pc2', name: 'PC 2', type: 'pc', pricePerHour: 8 },
+  { _id: 'ps5', name: 'PS5 Lounge', type: 'console' },
+  { _id: 'pc3', name: 'PC 3', type: 'pc', isActive: false },
+  { name: 'No id' },
+]);
+
+const day = normalizeAvailability(
+  {
+    operatingHours: { start: '10:00', end: '14:00' },
+    slots: [
+      { time: '10:00', capacity: 3, booked: 0 },
+      { time: '11:00', capacity: 3, booked: 1 },
+      { time: '12:00', capacity: 3, booked: 1 },
+      { time: '13:00', capacity: 3, booked: 3 },
+    ],
+    stations: [{ stationId: 'pc1', bookedSlots: ['11:00', '12:00'] }],
+  },
+  'zone1',
+  '2030-01-01',
+  3,
+  new Date('2029-12-31T12:00:00')
+);
+
+describe('normalizeStations', () => {
+  it('drops unnamed and inactive stations for customers', () => {
+    expect(stations.map(station => station._id)).toEqual(['pc1', 'pc2', 'ps5']);
+    expect(stations[0]).toMatchObject({ games: [], pricePerHour: undefined, isActive: true });
+  });
+});
+
+describe('availabilityForSelection', () => {
+  it('needs enough free stations of the type', () => {
+    const view = availabilityForSelection(day, stations, { mode: 'type', type: 'pc', count: 2 });
+    expect(view.slots.map(slot => slot.remaining)).toEqual([2, 0, 0, 0]);
+  });
+
+  it('treats specific stations as one unit', () => {
+    const view = availabilityForSelection(day, stations, { mode: 'stations', stationIds: ['pc2', 'ps5'] });
+    expect(view.slots.map(slot => slot.isAvailable)).toEqual([true, true, true, false]);
+  });
+});
+
+describe('pickStationsForWindow', () => {
+  it('picks stations free for the whole session', () => {
+    const picked = pickStationsForWindow(day, stations, { mode: 'type', type: 'pc', count: 1 }, '10:00', 2);
+    expect(picked.map(station => station._id)).toEqual(['pc2']);
+  });
+
+  it('returns null when a chosen station is taken', () => {
+    expect(pickStationsForWindow(day, stations, { mode: 'stations', stationIds: ['pc1'] }, '11:00', 1)).toBeNull();
+  });
+});
+
+describe('validateStationWindow', () => {
+  it('names the reserved stations that are taken', () => {
+    expect(validateStationWindow(day, stations.slice(0, 2), '10:00', 1)).toEqual({ valid: true });
+    expect(validateStationWindow(day, stations.slice(0, 2), '10:00', 2)).toEqual({
+      valid: false,
+      reason: 'PC 1 is already booked for part of that time.',
+    });
+  });
+});
+
+describe('validateStation', () => {
+  it('rejects duplicate names other than the station being edited', () => {
+    const input = { name: 'pc 1', type: 'pc', games: [], isActive: true };
+    expect(validateStation(input, stations)).toMatch(/already/);
+    expect(validateStation(input, stations, 'pc1')).toBeNull();
+  });
+});
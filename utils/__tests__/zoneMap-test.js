@@ -0,0 +1,38 @@
+import { clusterZones, regionForCluster, regionRadiusKm } from '../zoneMap';
+
+// Clustering is pure; keep the location module's native dependencies out of the test
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+jest.mock('expo-location', () => ({}));
+
+const zone = (id, lat, lng) => ({ _id: id, location: { coordinates: { coordinates: [lng, lat] } } });
+
+const region = { latitude: 30, longitude: -97, latitudeDelta: 0.6, longitudeDelta: 0.6 };
+
+describe('clusterZones', () => {
+  it('groups zones that share a grid cell and leaves distant ones alone', () => {
+    const clusters = clusterZones(
+      [zone('a', 30.01, -97.01), zone('b', 30.02, -97.02), zone('c', 30.25, -96.75)],
+      region
+    );
+    expect(clusters.map(cluster => cluster.zones.map(item => item._id))).toEqual([['a', 'b'], ['c']]);
+    expect(clusters[0].id).toBe('a,b');
+    expect(clusters[0].coordinate.latitude).toBeCloseTo(30.015);
+  });
+
+  it('skips zones without real coordinates', () => {
+    expect(clusterZones([zone('a', 0, 0), { _id: 'b', location: {} }], region)).toEqual([]);
+  });
+});
+
+describe('regions', () => {
+  it('zooms to the bounds of a tapped cluster', () => {
+    const [cluster] = clusterZones([zone('a', 30.01, -97.01), zone('b', 30.02, -97.02)], region);
+    const target = regionForCluster(cluster);
+    expect(target.latitude).toBeCloseTo(30.015);
+    expect(target.latitudeDelta).toBeCloseTo(0.015);
+  });
+
+  it('queries out to the corner of the visible region', () => {
+    expect(regionRadiusKm(region)).toBe(45);
+  });
+});
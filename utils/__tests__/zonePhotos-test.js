@@ -0,0 +1,56 @@
+import { moveItem, normalizeZonePhotos, toPhotoUploadFile } from '../zonePhotos';
+
+describe('normalizeZonePhotos', () => {
+  it('accepts plain URLs from older zones', () => {
+    expect(normalizeZonePhotos(['https://img/a.jpg', '', 'https://img/b.jpg'])).toEqual([
+      { _id: 'https://img/a.jpg', url: 'https://img/a.jpg' },
+      { _id: 'https://img/b.jpg', url: 'https://img/b.jpg' },
+    ]);
+  });
+
+  it('orders photo objects by position with the cover first', () => {
+    const photos = normalizeZonePhotos([
+      { _id: 'a', url: 'https://img/a.jpg', order: 2 },
+      { _id: 'b', url: 'https://img/b.jpg', order: 0, caption: 'Lounge' },
+      { _id: 'c', url: 'https://img/c.jpg', order: 1, isCover: true },
+      { _id: 'd' },
+    ]);
+    expect(photos.map(photo => photo._id)).toEqual(['c', 'b', 'a']);
+    expect(photos[1].caption).toBe('Lounge');
+    expect(photos[0]).not.toHaveProperty('order');
+  });
+
+  it('returns an empty list for missing images', () => {
+    expect(normalizeZonePhotos(undefined)).toEqual([]);
+  });
+});
+
+describe('moveItem', () => {
+  it('moves an entry without mutating the input', () => {
+    const items = ['a', 'b', 'c'];
+    expect(moveItem(items, 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(items).toEqual(['a', 'b', 'c']);
+  });
+
+  it('ignores moves past either end', () => {
+    const items = ['a', 'b'];
+    expect(moveItem(items, 0, -1)).toBe(items);
+    expect(moveItem(items, 1, 2)).toBe(items);
+  });
+});
+
+describe('toPhotoUploadFile', () => {
+  it('fills in the name and type the picker left out', () => {
+    expect(toPhotoUploadFile({ uri: 'file:///cache/ImagePicker/abc.png' })).toEqual({
+      uri: 'file:///cache/ImagePicker/abc.png',
+      name: 'abc.png',
+      type: 'image/png',
+    });
+  });
+
+  it('prefers the picker metadata when present', () => {
+    const file = toPhotoUploadFile({ uri: 'file:///x/1', fileName: 'IMG_1.HEIC', mimeType: 'image/heic' });
+    expect(file.name).toBe('IMG_1.HEIC');
+    expect(file.type).toBe('image/heic');
+  });
+});
@@ -0,0 +1,81 @@
+// utils/authValidation.ts - Client-side validation for login, sign-up and password reset forms
+
+export type FieldErrors = Record<string, string>;
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_REGEX = /^\+?[0-9\s\-()]{7,20}$/;
+
+export const validateEmail = (email: string): string | null => {
+  if (!email.trim()) return 'Email is required';
+  if (!EMAIL_REGEX.test(email.trim())) return 'Please enter a valid email address';
+  return null;
+};
+
+export const validatePassword = (password: string): string | null => {
+  if (!password) return 'Password is required';
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Password must contain both letters and numbers';
+  }
+  return null;
+};
+
+export const validateName = (name: string): string | null => {
+  if (!name.trim()) return 'Name is required';
+  if (name.trim().length < 2) return 'Name must be at least 2 characters';
+  return null;
+};
+
+// Phone is optional; only validate the format when one is entered
+export const validatePhone = (phone: string): string | null => {
+  if (!phone.trim()) return null;
+  if (!PHONE_REGEX.test(phone.trim())) return 'Please enter a valid phone number';
+  return null;
+};
+
+export const validateLoginForm = (email: string, password: string): FieldErrors => {
+  const errors: FieldErrors = {};
+  const emailError = validateEmail(email);
+  if (emailError) errors.email = emailError;
+  if (!password) errors.password = 'Password is required';
+  return errors;
+};
+
+export const validateSignUpForm = (form: {
+  name: string;
+  email: string;
+  phone: string;
+  password: string;
+  confirmPassword: string;
+}): FieldErrors => {
+  const errors: FieldErrors = {};
+  const nameError = validateName(form.name);
+  const emailError = validateEmail(form.email);
+  const phoneError = validatePhone(form.phone);
+  const passwordError = validatePassword(form.password);
+
+  if (nameError) errors.name = nameError;
+  if (emailError) errors.email = emailError;
+  if (phoneError) errors.phone = phoneError;
+  if (passwordError) errors.password = passwordError;
+  if (form.password !== form.confirmPassword) {
+    errors.confirmPassword = 'Passwords do not match';
+  }
+  return errors;
+};
+
+export const validateResetForm = (token: string, password: string, confirmPassword: string): FieldErrors => {
+  const errors: FieldErrors = {};
+  const passwordError = validatePassword(password);
+
+  if (!token.trim()) errors.token = 'Reset code is required';
+  if (passwordError) errors.password = passwordError;
+  if (password !== confirmPassword) errors.confirmPassword = 'Passwords do not match';
+  return errors;
+};
+
+export const hasErrors = (errors: FieldErrors): boolean => Object.keys(errors).length > 0;
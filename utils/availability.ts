@@ -0,0 +1,340 @@
+// utils/availability.ts - Shared slot availability model for the booking flow
+import apiService, { Station } from '../services/api';
+import type { StationSelection } from './stations';
+
+export interface SlotAvailability {
+  /** Slot start, "HH:mm" */
+  time: string;
+  capacity: number;
+  booked: number;
+  remaining: number;
+  isPast: boolean;
+  /** Bookable right now: not past and has remaining capacity */
+  isAvailable: boolean;
+}
+
+export interface DayAvailability {
+  zoneId: string;
+  date: string;
+  operatingHours: { start: string; end: string };
+  slots: SlotAvailability[];
+  /** Slot times each station is already taken, keyed by station id; absent on older servers */
+  stationBusy?: Record<string, string[]>;
+  fetchedAt: number;
+}
+
+export type WindowCheck =
+  | { valid: true }
+  | { valid: false; reason: string; slot?: string };
+
+export const SLOT_MINUTES = 60;
+export const MAX_BOOKING_HOURS = 6;
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+export const fromMinutes = (total: number): string =>
+  `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+
+// Local time, so "past" matches the clock the customer is looking at
+const slotStart = (date: string, time: string): Date => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const minutes = toMinutes(time);
+  return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+};
+
+/**
+ * Normalize the availability endpoint response. Newer servers send per-slot
+ * `slots` with capacity counts; older ones only a `availability` boolean map,
+ * in which case an open slot is assumed to have the zone's full capacity.
+ */
+export const normalizeAvailability = (
+  response: any,
+  zoneId: string,
+  date: string,
+  zoneCapacity: number = 1,
+  now: Date = new Date()
+): DayAvailability => {
+  const operatingHours = {
+    start: response?.operatingHours?.start || '09:00',
+    end: response?.operatingHours?.end || '22:00',
+  };
+
+  const build = (time: string, capacity: number, booked: number): SlotAvailability => {
+    const remaining = Math.max(0, capacity - booked);
+    const isPast = slotStart(date, time) <= now;
+    return { time, capacity, booked, remaining, isPast, isAvailable: !isPast && remaining > 0 };
+  };
+
+  let slots: SlotAvailability[];
+
+  if (Array.isArray(response?.slots)) {
+    slots = response.slots.map((slot: any) => {
+      const capacity = slot.capacity ?? zoneCapacity;
+      const booked = slot.booked ?? (slot.remaining !== undefined ? capacity - slot.remaining : 0);
+      return build(slot.time, capacity, booked);
+    });
+  } else {
+    const openMap: Record<string, boolean> = response?.availability || {};
+    slots = [];
+    for (let minute = toMinutes(operatingHours.start); minute + SLOT_MINUTES <= toMinutes(operatingHours.end); minute += SLOT_MINUTES) {
+      const time = fromMinutes(minute);
+      const isOpen = openMap[time] !== false && !(response?.bookedSlots || []).includes(time);
+      slots.push(build(time, zoneCapacity, isOpen ? 0 : zoneCapacity));
+    }
+  }
+
+  slots.sort((a, b) => toMinutes(a.time) - toMinutes(b.time));
+
+  let stationBusy: Record<string, string[]> | undefined;
+  if (Array.isArray(response?.stations)) {
+    stationBusy = {};
+    response.stations.forEach((item: any) => {
+      const stationId = item?.stationId || item?._id;
+      if (stationId) {
+        stationBusy![stationId] = Array.isArray(item.bookedSlots) ? item.bookedSlots : item.busy || [];
+      }
+    });
+  }
+
+  return { zoneId, date, operatingHours, slots, stationBusy, fetchedAt: Date.now() };
+};
+
+/**
+ * Check that every slot covered by `duration` hours from `startTime` has room for
+ * `seats` players and that the session ends by closing time.
+ */
+export const validateBookingWindow = (
+  day: DayAvailability,
+  startTime: string,
+  duration: number,
+  seats: number = 1
+): WindowCheck => {
+  const start = toMinutes(startTime);
+  const end = start + duration * 60;
+
+  if (end > toMinutes(day.operatingHours.end)) {
+    return {
+      valid: false,
+      reason: `A ${duration} hour session starting at ${startTime} would run past closing time (${day.operatingHours.end}).`,
+    };
+  }
+
+  for (let minute = start; minute < end; minute += SLOT_MINUTES) {
+    const time = fromMinutes(minute);
+    const slot = day.slots.find(item => item.time === time);
+
+    if (!slot) {
+      return { valid: false, reason: `The zone isn't open at ${time}.`, slot: time };
+    }
+    if (slot.isPast) {
+      return { valid: false, reason: `${time} has already passed.`, slot: time };
+    }
+    if (slot.remaining <= 0) {
+      return {
+        valid: false,
+        reason: minute === start
+          ? `${time} is fully booked.`
+          : `${time} is fully booked, so a ${duration} hour session from ${startTime} doesn't fit.`,
+        slot: time,
+      };
+    }
+    if (slot.remaining < seats) {
+      return {
+        valid: false,
+        reason: `Only ${slot.remaining} spot${slot.remaining === 1 ? ' is' : 's are'} left at ${time}, not enough for ${seats} players.`,
+        slot: time,
+      };
+    }
+  }
+
+  return { valid: true };
+};
+
+/** Longest duration (up to `limit`) that fits from `startTime` */
+export const maxDurationFrom = (
+  day: DayAvailability,
+  startTime: string,
+  limit: number = MAX_BOOKING_HOURS
+): number => {
+  let hours = 0;
+  while (hours < limit && validateBookingWindow(day, startTime, hours + 1).valid) {
+    hours++;
+  }
+  return hours;
+};
+
+/**
+ * Day availability for a group: slot capacity counts players, so a slot only stays
+ * open when it has room for all `seats` of them. Apply before availabilityForSelection.
+ */
+export const availabilityForParty = (day: DayAvailability, seats: number): DayAvailability => {
+  if (seats <= 1) return day;
+
+  return {
+    ...day,
+    slots: day.slots.map(slot => {
+      const remaining = slot.remaining >= seats ? slot.remaining : 0;
+      return { ...slot, booked: slot.capacity - remaining, remaining, isAvailable: !slot.isPast && remaining > 0 };
+    }),
+  };
+};
+
+// Without per-station data every station counts as free; the hold still enforces it server-side
+const isStationFree = (day: DayAvailability, stationId: string, time: string): boolean =>
+  !day.stationBusy?.[stationId]?.includes(time);
+
+const isStationFreeForWindow = (day: DayAvailability, stationId: string, startTime: string, duration: number): boolean => {
+  const start = toMinutes(startTime);
+  for (let minute = start; minute < start + duration * 60; minute += SLOT_MINUTES) {
+    if (!isStationFree(day, stationId, fromMinutes(minute))) return false;
+  }
+  return true;
+};
+
+/** The stations a selection draws from */
+export const candidateStations = (stations: Station[], selection: StationSelection): Station[] => {
+  if (selection.mode === 'type') {
+    return stations.filter(station => station.isActive && station.type === selection.type);
+  }
+  if (selection.mode === 'stations') {
+    return stations.filter(station => selection.stationIds.includes(station._id));
+  }
+  return [];
+};
+
+/**
+ * Day availability seen through a station selection, so the slot picker and window
+ * checks work unchanged. By type, `remaining` counts free stations of that type (0 when
+ * fewer than requested are free); specific stations are one unit, free only when all are.
+ */
+export const availabilityForSelection = (
+  day: DayAvailability,
+  stations: Station[],
+  selection: StationSelection
+): DayAvailability => {
+  if (selection.mode === 'any') return day;
+
+  const candidates = candidateStations(stations, selection);
+  const slots = day.slots.map(slot => {
+    const free = candidates.filter(station => isStationFree(day, station._id, slot.time)).length;
+    let capacity: number;
+    let remaining: number;
+    if (selection.mode === 'type') {
+      capacity = candidates.length;
+      remaining = free >= selection.count ? free : 0;
+    } else {
+      capacity = 1;
+      remaining = candidates.length > 0 && free === candidates.length ? 1 : 0;
+    }
+    // A slot the zone itself has closed stays closed whatever the stations say
+    if (slot.remaining <= 0) remaining = 0;
+    return {
+      ...slot,
+      capacity,
+      booked: capacity - remaining,
+      remaining,
+      isAvailable: !slot.isPast && remaining > 0,
+    };
+  });
+
+  return { ...day, slots };
+};
+
+/**
+ * The stations to reserve for a session: for a type, the first ones (in inventory order)
+ * free for the whole window, since a session can't hop between stations. Null when the
+ * selection can't be met; an empty list for whole-zone bookings.
+ */
+export const pickStationsForWindow = (
+  day: DayAvailability,
+  stations: Station[],
+  selection: StationSelection,
+  startTime: string,
+  duration: number
+): Station[] | null => {
+  if (selection.mode === 'any') return [];
+
+  const free = candidateStations(stations, selection)
+    .filter(station => isStationFreeForWindow(day, station._id, startTime, duration));
+
+  if (selection.mode === 'type') {
+    return free.length >= selection.count ? free.slice(0, selection.count) : null;
+  }
+  return selection.stationIds.length > 0 && free.length === selection.stationIds.length ? free : null;
+};
+
+/** Stations already taken for any part of the window */
+export const busyStationsForWindow = (
+  day: DayAvailability,
+  stations: Station[],
+  startTime: string,
+  duration: number
+): Set<string> =>
+  new Set(
+    stations
+      .filter(station => !isStationFreeForWindow(day, station._id, startTime, duration))
+      .map(station => station._id)
+  );
+
+/**
+ * Check that the given stations are all free for the whole window, e.g. when a
+ * station booking moves and keeps its stations.
+ */
+export const validateStationWindow = (
+  day: DayAvailability,
+  stations: Station[],
+  startTime: string,
+  duration: number
+): WindowCheck => {
+  const selection: StationSelection = { mode: 'stations', stationIds: stations.map(station => station._id) };
+  if (stations.length === 0 || pickStationsForWindow(day, stations, selection, startTime, duration)) {
+    return { valid: true };
+  }
+
+  const busy = busyStationsForWindow(day, stations, startTime, duration);
+  const names = stations.filter(station => busy.has(station._id)).map(station => station.name);
+  return {
+    valid: false,
+    reason: `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} already booked for part of that time.`,
+  };
+};
+
+export const fetchDayAvailability = async (
+  zoneId: string,
+  date: string,
+  zoneCapacity: number = 1,
+  forceRefresh: boolean = false,
+  excludeBookingId?: string
+): Promise<DayAvailability> => {
+  if (forceRefresh) {
+    apiService.invalidateCache([`availability:${zoneId}`]);
+  }
+  const response = await apiService.getAvailability(zoneId, date, excludeBookingId);
+  return normalizeAvailability(response, zoneId, date, response?.capacity ?? zoneCapacity);
+};
+
+/**
+ * Fetch fresh occupancy and validate the window - call right before taking payment.
+ */
+export const recheckBookingWindow = async (
+  zoneId: string,
+  date: string,
+  startTime: string,
+  duration: number,
+  options: {
+    excludeBookingId?: string;
+    /** Players who need a spot */
+    seats?: number;
+    /** Used when the server omits the slot capacity */
+    zoneCapacity?: number;
+    /** Specific stations the booking needs */
+    stations?: Station[];
+  } = {}
+): Promise<WindowCheck> => {
+  const day = await fetchDayAvailability(zoneId, date, options.zoneCapacity ?? 1, true, options.excludeBookingId);
+  const check = validateBookingWindow(day, startTime, duration, options.seats ?? 1);
+  return check.valid && options.stations ? validateStationWindow(day, options.stations, startTime, duration) : check;
+};
@@ -1,5 +1,6 @@
 // utils/bookingDebugUtils.ts - Debug utilities for booking system
 import apiService from '../services/api';
+import { createIdempotencyKey } from './idempotency';
 
 export interface MockBookingData {
   zoneId: string;
@@ -122,8 +123,9 @@ export class BookingDebugUtils {
         notes: 'Test booking created by debug utils'
       };
       
-      const result = await apiService.createBooking(testBooking);
-      console.log('✅ Test booking created:', result);
+      const idempotencyKey = createIdempotencyKey('debug_booking');
+      const result = await apiService.createBooking(testBooking, idempotencyKey);
+      console.log(`✅ Test booking created (key ${idempotencyKey}):`, result);
       
     } catch (error) {
       console.error('❌ Test booking creation failed:', error);
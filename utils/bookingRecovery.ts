@@ -0,0 +1,106 @@
+// utils/bookingRecovery.ts - Shared state for the checkout failure/recovery flow
+import type { CreateBookingRequest } from '../services/api';
+import type { PriceQuote } from './pricing';
+
+export const SUPPORT_EMAIL = 'support@gamezone.com';
+
+/**
+ * - payment_taken: the payment was authorized but we couldn't confirm the booking
+ * - payment_pending: the booking exists but its payment hasn't settled yet
+ * - not_charged: neither the payment nor the booking went through
+ */
+export type BookingFailureOutcome = 'payment_taken' | 'payment_pending' | 'not_charged';
+
+/** What the customer saw at checkout; carried into the success and recovery screens */
+export interface CheckoutContext {
+  zoneId: string;
+  zoneName: string;
+  date: string;
+  timeSlot: string;
+  duration: number;
+  totalAmount: number;
+  pricePerHour: number;
+  priceBreakdown?: PriceQuote;
+  promoCode?: string;
+  players?: number;
+  /** Reserved stations with their rates, so a retry re-quotes the same booking */
+  stations?: { _id: string; name: string; pricePerHour?: number }[];
+  guests?: { name: string }[];
+  capacity?: number;
+  cardLast4?: string;
+  userEmail?: string;
+  userPhone?: string;
+  userAddress?: string;
+  notes?: string;
+}
+
+export interface BookingRecoveryData {
+  outcome: BookingFailureOutcome;
+  checkout: CheckoutContext;
+  /** Resubmitting this request with the same key can never create a second booking */
+  request?: CreateBookingRequest;
+  idempotencyKey?: string;
+  paymentIntentId?: string;
+  bookingId?: string;
+  reference?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Params for /booking-success, built only from a booking the server returned.
+ */
+export const buildBookingSuccessData = (booking: any, checkout: CheckoutContext) => ({
+  id: booking.id || booking._id,
+  reference: booking.reference,
+  zoneName: booking.zone?.name || checkout.zoneName,
+  zoneId: booking.zone?.id || checkout.zoneId,
+  date: booking.date,
+  timeSlot: booking.timeSlot,
+  duration: booking.duration,
+  totalAmount: booking.totalAmount,
+  pricePerHour: checkout.pricePerHour,
+  // The server's own breakdown wins; it is what was actually charged
+  priceBreakdown: booking.priceBreakdown || checkout.priceBreakdown,
+  promoCode: booking.promoCode || checkout.promoCode,
+  status: booking.status,
+  paymentStatus: booking.paymentStatus,
+  qrCode: booking.qrCode,
+  cardLast4: checkout.cardLast4,
+  createdAt: booking.createdAt,
+  userEmail: checkout.userEmail,
+  userPhone: checkout.userPhone,
+  userAddress: checkout.userAddress,
+  notes: checkout.notes,
+});
+
+export const isPaymentSettled = (booking: { paymentStatus?: string }): boolean =>
+  booking.paymentStatus === 'paid' || booking.paymentStatus === 'completed';
+
+/**
+ * mailto: link pre-filled with every identifier support needs to trace the attempt.
+ */
+export const buildSupportMailto = (data: BookingRecoveryData): string => {
+  const { checkout } = data;
+  const subject = data.reference
+    ? `Booking issue - ${data.reference}`
+    : 'Booking issue - payment without confirmation';
+
+  const lines = [
+    'Hi GameZone Support Team,',
+    '',
+    'I had a problem completing a booking.',
+    '',
+    `Issue: ${data.outcome}`,
+    data.reference && `Booking reference: ${data.reference}`,
+    data.bookingId && `Booking ID: ${data.bookingId}`,
+    data.paymentIntentId && `Payment ID: ${data.paymentIntentId}`,
+    data.idempotencyKey && `Request ID: ${data.idempotencyKey}`,
+    `Zone: ${checkout.zoneName}`,
+    `Date: ${checkout.date} at ${checkout.timeSlot} (${checkout.duration}h)`,
+    `Amount: $${checkout.totalAmount}`,
+    checkout.promoCode && `Promo code: ${checkout.promoCode}`,
+    data.errorMessage && `Error: ${data.errorMessage}`,
+  ].filter(Boolean);
+
+  return `mailto:${SUPPORT_EMAIL}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(lines.join('\n'))}`;
+};
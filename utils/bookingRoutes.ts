@@ -0,0 +1,22 @@
+// utils/bookingRoutes.ts - Routes into a single booking, shared by screens and notification taps
+import { router } from 'expo-router';
+import * as Linking from 'expo-linking';
+import type { BookingInvite } from '../services/api';
+
+/** Deep-linkable as <scheme>://booking-details/<id> */
+export const bookingDetailsPath = (bookingId: string) => `/booking-details/${bookingId}` as const;
+
+export const openBookingDetails = (bookingId?: string | null): void => {
+  if (bookingId) {
+    router.push(bookingDetailsPath(bookingId));
+  } else {
+    router.push('/(tabs)/bookings');
+  }
+};
+
+/** Deep-linkable as <scheme>://invite/<code> */
+export const invitePath = (code: string) => `/invite/${code}` as const;
+
+/** The server's universal link when it sends one, else a deep link straight into the app */
+export const inviteLink = (invite: BookingInvite): string =>
+  invite.url || Linking.createURL(`invite/${encodeURIComponent(invite.code)}`);
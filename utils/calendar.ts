@@ -0,0 +1,184 @@
+// utils/calendar.ts - iCalendar (.ics) export for bookings
+import { Platform, Share } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { getBookingStart } from './reschedule';
+
+const STORAGE_KEY = 'calendarExports:v1';
+const PRODUCT_ID = '-//GameZone//Bookings//EN';
+
+export interface CalendarBooking {
+  id: string;
+  reference: string;
+  zoneName: string;
+  date: string;
+  timeSlot: string;
+  duration: number;
+  status: string;
+  address?: string;
+}
+
+/** Reminder alarms, in minutes before the start */
+export const CALENDAR_REMINDERS = [24 * 60, 60];
+
+interface ExportRecord {
+  sequence: number;
+  /** What the last exported event said; a change means the next export is an update */
+  signature: string;
+}
+
+// RFC 5545 3.3.11: escape backslash, semicolon, comma and newlines in TEXT values
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) || 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * RFC 5545 3.1: lines longer than 75 octets (UTF-8, not characters) are folded with
+ * CRLF + space, never splitting a multi-byte character.
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines start with the folding space, which counts toward their 75
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatTrigger = (minutes: number): string =>
+  minutes % (24 * 60) === 0
+    ? `-P${minutes / (24 * 60)}D`
+    : minutes % 60 === 0
+      ? `-PT${minutes / 60}H`
+      : `-PT${minutes}M`;
+
+export const getBookingEventUid = (bookingId: string): string => `booking-${bookingId}@gamezone.app`;
+
+const getSignature = (booking: CalendarBooking): string =>
+  [booking.date, booking.timeSlot, booking.duration, booking.status === 'cancelled' ? 'cancelled' : 'active'].join('|');
+
+/**
+ * A single-event calendar for the booking. Cancelled bookings produce a METHOD:CANCEL
+ * event with the same UID so calendars that imported the original remove it.
+ */
+export const buildBookingCalendar = (
+  booking: CalendarBooking,
+  sequence: number = 0,
+  now: Date = new Date()
+): string => {
+  const start = getBookingStart(booking.date, booking.timeSlot);
+  const end = new Date(start.getTime() + booking.duration * 60 * 60 * 1000);
+  const cancelled = booking.status === 'cancelled';
+
+  const description = [
+    `Booking reference: ${booking.reference}`,
+    `Duration: ${booking.duration} hour${booking.duration > 1 ? 's' : ''}`,
+    'Show your booking QR code at the zone to check in.',
+  ].join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${getBookingEventUid(booking.id)}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(`Gaming session at ${booking.zoneName}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(booking.address ? [`LOCATION:${escapeText(booking.address)}`] : []),
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    ...(cancelled
+      ? []
+      : CALENDAR_REMINDERS.flatMap(minutes => [
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(`${booking.zoneName} booking ${booking.reference}`)}`,
+          `TRIGGER:${formatTrigger(minutes)}`,
+          'END:VALARM',
+        ])),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const loadExports = async (): Promise<Record<string, ExportRecord>> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.warn('⚠️ Failed to read calendar exports:', error);
+    return {};
+  }
+};
+
+export const hasCalendarExport = async (bookingId: string): Promise<boolean> => {
+  const exports = await loadExports();
+  return !!exports[bookingId];
+};
+
+/**
+ * Write the booking's .ics and hand it to the share sheet. The SEQUENCE goes up
+ * whenever the booking changed since it was last exported, so calendars apply the update.
+ */
+export const exportBookingToCalendar = async (booking: CalendarBooking): Promise<void> => {
+  const exports = await loadExports();
+  const previous = exports[booking.id];
+  const signature = getSignature(booking);
+  const sequence = !previous ? 0 : previous.signature === signature ? previous.sequence : previous.sequence + 1;
+
+  const ics = buildBookingCalendar(booking, sequence);
+  const directory = FileSystem.cacheDirectory;
+  const fileUri = directory ? `${directory}booking-${booking.reference}.ics` : null;
+
+  if (fileUri) {
+    await FileSystem.writeAsStringAsync(fileUri, ics);
+  }
+
+  const title = `${booking.zoneName} booking`;
+  let shared: boolean;
+  if (Platform.OS === 'android' && fileUri && (await Sharing.isAvailableAsync())) {
+    // Android's share sheet only takes text; share the file as a content URI so calendar apps can open it
+    await Sharing.shareAsync(fileUri, { mimeType: 'text/calendar', dialogTitle: title });
+    shared = true;
+  } else {
+    const result = await Share.share(
+      Platform.OS === 'ios' && fileUri ? { url: fileUri, title } : { message: ics, title }
+    );
+    shared = result.action !== Share.dismissedAction;
+  }
+
+  if (shared) {
+    exports[booking.id] = { sequence, signature };
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(exports));
+    console.log(`📅 Exported calendar event for ${booking.reference} (sequence ${sequence})`);
+  }
+};
@@ -0,0 +1,187 @@
+// utils/cancellationPolicy.ts - Zone cancellation policy evaluation shared by customer and vendor screens
+import apiService from '../services/api';
+import { getBookingStart } from './reschedule';
+
+/** Cancelling at least `minHoursBefore` hours before the start refunds `refundPercent` of the total */
+export interface CancellationTier {
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface NoShowRule {
+  /** Minutes after the start before an unattended booking counts as a no-show */
+  graceMinutes: number;
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  tiers: CancellationTier[];
+  noShow: NoShowRule;
+}
+
+export interface CancellationQuote {
+  cancellable: boolean;
+  reason?: string;
+  refundPercent: number;
+  refundAmount: number;
+  hoursBeforeStart: number;
+  /** The tier that applied; undefined when the booking can't be cancelled */
+  tier?: CancellationTier;
+}
+
+export interface PolicyBooking {
+  status: string;
+  date: string;
+  timeSlot: string;
+  totalAmount: number;
+  paymentStatus?: string;
+}
+
+/** Used when the zone has no policy of its own; mirrors the old 2 hour cancellation cut-off */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  tiers: [
+    { minHoursBefore: 24, refundPercent: 100 },
+    { minHoursBefore: 2, refundPercent: 50 },
+  ],
+  noShow: { graceMinutes: 15, refundPercent: 0 },
+};
+
+const CANCELLABLE_STATUSES = ['pending', 'confirmed'];
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Build a policy from the zone's `cancellationPolicy`, dropping malformed tiers and
+ * sorting the rest from most to least generous. Falls back to the default.
+ */
+export const normalizeCancellationPolicy = (raw?: any): CancellationPolicy => {
+  const tiers: CancellationTier[] = Array.isArray(raw?.tiers)
+    ? raw.tiers
+        .filter((tier: any) => typeof tier?.minHoursBefore === 'number' && typeof tier?.refundPercent === 'number')
+        .map((tier: any) => ({
+          minHoursBefore: Math.max(0, tier.minHoursBefore),
+          refundPercent: clampPercent(tier.refundPercent),
+        }))
+        .sort((a: CancellationTier, b: CancellationTier) => b.minHoursBefore - a.minHoursBefore)
+    : [];
+
+  if (tiers.length === 0) {
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  return {
+    tiers,
+    noShow: {
+      graceMinutes: Math.max(0, raw?.noShow?.graceMinutes ?? DEFAULT_CANCELLATION_POLICY.noShow.graceMinutes),
+      refundPercent: clampPercent(raw?.noShow?.refundPercent ?? DEFAULT_CANCELLATION_POLICY.noShow.refundPercent),
+    },
+  };
+};
+
+const isPaid = (booking: PolicyBooking) =>
+  booking.paymentStatus === 'paid' || booking.paymentStatus === 'completed';
+
+/**
+ * What cancelling `booking` right now would refund. Unpaid bookings can still be
+ * cancelled but refund nothing. The server applies the same rules authoritatively.
+ */
+export const evaluateCancellation = (
+  booking: PolicyBooking,
+  policy: CancellationPolicy,
+  now: Date = new Date()
+): CancellationQuote => {
+  const start = getBookingStart(booking.date, booking.timeSlot);
+  const hoursBeforeStart = (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+  const blocked = (reason: string): CancellationQuote => ({
+    cancellable: false,
+    reason,
+    refundPercent: 0,
+    refundAmount: 0,
+    hoursBeforeStart,
+  });
+
+  if (!CANCELLABLE_STATUSES.includes(booking.status)) {
+    return blocked(`A ${booking.status} booking can't be cancelled.`);
+  }
+  if (hoursBeforeStart <= 0) {
+    return blocked('This booking has already started.');
+  }
+
+  const tier = policy.tiers.find(item => hoursBeforeStart >= item.minHoursBefore);
+  if (!tier) {
+    const latest = policy.tiers[policy.tiers.length - 1].minHoursBefore;
+    return blocked(`Bookings at this zone can't be cancelled less than ${latest} hour${latest === 1 ? '' : 's'} before they start.`);
+  }
+
+  const refundPercent = isPaid(booking) ? tier.refundPercent : 0;
+  return {
+    cancellable: true,
+    refundPercent,
+    refundAmount: roundMoney((booking.totalAmount * refundPercent) / 100),
+    hoursBeforeStart,
+    tier,
+  };
+};
+
+/**
+ * A confirmed booking nobody checked in to once the grace period has passed.
+ */
+export const evaluateNoShow = (
+  booking: PolicyBooking & { checkedInAt?: string },
+  policy: CancellationPolicy,
+  now: Date = new Date()
+): { isNoShow: boolean; refundAmount: number } => {
+  const start = getBookingStart(booking.date, booking.timeSlot);
+  const graceEnds = start.getTime() + policy.noShow.graceMinutes * 60 * 1000;
+  const isNoShow = booking.status === 'confirmed' && !booking.checkedInAt && now.getTime() > graceEnds;
+
+  return {
+    isNoShow,
+    refundAmount: isNoShow && isPaid(booking)
+      ? roundMoney((booking.totalAmount * policy.noShow.refundPercent) / 100)
+      : 0,
+  };
+};
+
+/** Human-readable policy, one line per rule */
+export const describeCancellationPolicy = (policy: CancellationPolicy): string[] => {
+  const lines = policy.tiers.map(tier =>
+    `${tier.minHoursBefore}h+ before start: ${tier.refundPercent === 0 ? 'no refund' : `${tier.refundPercent}% refund`}`
+  );
+  const latest = policy.tiers[policy.tiers.length - 1].minHoursBefore;
+  if (latest > 0) {
+    lines.push(`Under ${latest}h: can't be cancelled`);
+  }
+  lines.push(
+    `No-show (${policy.noShow.graceMinutes} min grace): ${policy.noShow.refundPercent === 0 ? 'no refund' : `${policy.noShow.refundPercent}% refund`}`
+  );
+  return lines;
+};
+
+/** One-line refund preview for confirmation dialogs */
+export const formatRefundPreview = (quote: CancellationQuote): string => {
+  if (!quote.cancellable) {
+    return quote.reason || 'This booking can\'t be cancelled.';
+  }
+  if (quote.refundAmount === 0) {
+    return quote.tier && quote.tier.refundPercent > 0
+      ? 'Nothing was charged, so there is nothing to refund.'
+      : 'This cancellation is not eligible for a refund.';
+  }
+  return `You'll be refunded $${quote.refundAmount} (${quote.refundPercent}% of your booking).`;
+};
+
+/**
+ * The policy for a zone, falling back to the default if the zone can't be loaded.
+ */
+export const fetchCancellationPolicy = async (zoneId: string): Promise<CancellationPolicy> => {
+  try {
+    const zone = await apiService.getGameZone(zoneId);
+    return normalizeCancellationPolicy(zone.cancellationPolicy);
+  } catch (error) {
+    console.warn('⚠️ Could not load cancellation policy, using default:', error);
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+};
@@ -0,0 +1,98 @@
+// utils/checkInCode.ts - Signed booking check-in codes carried in the booking QR
+//
+// Format: GZ1.<payload>.<signature>, both base64url. The payload is JSON describing the
+// booking; the signature is the server's HMAC over "GZ1.<payload>". Only the server holds
+// the key, so a code can't be made up from a booking reference - the app reads the payload
+// to catch obvious mistakes early, and the check-in endpoint verifies the signature.
+import { decodeBase64Url } from './jwt';
+
+export const CHECK_IN_CODE_VERSION = 'GZ1';
+
+export interface CheckInPayload {
+  bookingId: string;
+  reference: string;
+  zoneId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  timeSlot: string;
+  duration: number;
+  issuedAt: number;
+  /** Set on a group booking guest's own code */
+  guestId?: string;
+}
+
+export type CheckInRejection = 'malformed' | 'wrong_zone' | 'wrong_date' | 'already_used' | 'invalid_signature';
+
+export type CheckInPreflight =
+  | { ok: true; payload: CheckInPayload }
+  | { ok: false; reason: CheckInRejection; message: string; payload?: CheckInPayload };
+
+export const isSignedCheckInCode = (code?: string | null): code is string =>
+  !!code && code.startsWith(`${CHECK_IN_CODE_VERSION}.`) && code.split('.').length === 3;
+
+/** The payload of a signed code, or null if it isn't one. Does not verify the signature. */
+export const parseCheckInCode = (code: string): CheckInPayload | null => {
+  if (!isSignedCheckInCode(code.trim())) return null;
+
+  try {
+    const [, payload, signature] = code.trim().split('.');
+    if (!signature) return null;
+
+    const data = JSON.parse(decodeBase64Url(payload));
+    if (!data?.b || !data?.z || !data?.d || !data?.t) return null;
+
+    return {
+      bookingId: data.b,
+      reference: data.r,
+      zoneId: data.z,
+      date: data.d,
+      timeSlot: data.t,
+      duration: data.n,
+      issuedAt: data.iat,
+      guestId: data.g || undefined,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+export const CHECK_IN_MESSAGES: Record<CheckInRejection, string> = {
+  malformed: 'This isn\'t a GameZone booking code.',
+  wrong_zone: 'This booking is for a different zone.',
+  wrong_date: 'This booking is for a different day.',
+  already_used: 'This booking has already been checked in.',
+  invalid_signature: 'This code could not be verified. It may have been altered.',
+};
+
+/**
+ * Local checks before calling the server: the code must parse, be for one of the
+ * vendor's zones (when `zoneIds` is known) and be for today.
+ */
+export const preflightCheckIn = (
+  code: string,
+  options: { zoneIds?: string[]; now?: Date } = {}
+): CheckInPreflight => {
+  const payload = parseCheckInCode(code);
+  if (!payload) {
+    return { ok: false, reason: 'malformed', message: CHECK_IN_MESSAGES.malformed };
+  }
+
+  if (options.zoneIds && options.zoneIds.length > 0 && !options.zoneIds.includes(payload.zoneId)) {
+    return { ok: false, reason: 'wrong_zone', message: CHECK_IN_MESSAGES.wrong_zone, payload };
+  }
+
+  const today = toDateString(options.now || new Date());
+  if (payload.date.split('T')[0] !== today) {
+    return {
+      ok: false,
+      reason: 'wrong_date',
+      message: `${CHECK_IN_MESSAGES.wrong_date} It's booked for ${payload.date.split('T')[0]} at ${payload.timeSlot}.`,
+      payload,
+    };
+  }
+
+  return { ok: true, payload };
+};
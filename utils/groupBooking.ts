@@ -0,0 +1,39 @@
+// utils/groupBooking.ts - Group bookings: party size limits, named guests and who's hosting
+import type { BookingGuest } from '../services/api';
+
+export const MAX_GUEST_NAME_LENGTH = 40;
+
+/** Most players one booking can bring: the zone's capacity, lowered by a per-player cap */
+export const maxPartySize = (capacity: number, perPlayerMax?: number): number => {
+  const limit = perPlayerMax && capacity ? Math.min(perPlayerMax, capacity) : perPlayerMax || capacity;
+  return Math.max(1, limit || 1);
+};
+
+/** One name field per player besides the booker, keeping what was already typed */
+export const resizeGuestNames = (names: string[], players: number): string[] =>
+  Array.from({ length: Math.max(0, players - 1) }, (_, index) => names[index] || '');
+
+/** Named guests for the booking request; blank fields are left for the invite link to fill */
+export const guestsForRequest = (names: string[]): { name: string }[] | undefined => {
+  const guests = names
+    .map(name => name.trim().slice(0, MAX_GUEST_NAME_LENGTH))
+    .filter(Boolean)
+    .map(name => ({ name }));
+  return guests.length > 0 ? guests : undefined;
+};
+
+/** True when `userId` joined someone else's booking rather than making it */
+export const isBookingGuest = (booking: { userId?: any }, userId?: string): boolean => {
+  const hostId = typeof booking.userId === 'object' ? booking.userId?._id : booking.userId;
+  return !!userId && !!hostId && hostId !== userId;
+};
+
+export const joinedGuestCount = (guests: BookingGuest[] = []): number =>
+  guests.filter(guest => guest.status === 'joined').length;
+
+/** "Sam, Alex +2 more" */
+export const describeGuests = (guests: { name: string }[], shown: number = 2): string => {
+  const names = guests.slice(0, shown).map(guest => guest.name).join(', ');
+  const extra = guests.length - shown;
+  return extra > 0 ? `${names} +${extra} more` : names;
+};
@@ -0,0 +1,31 @@
+// utils/idempotency.ts - Client-generated idempotency keys for non-idempotent requests
+import * as Crypto from 'expo-crypto';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Create a unique key for one logical mutation. Reuse the same key for every
+ * retry/replay of that mutation so the server can de-duplicate it.
+ */
+export const createIdempotencyKey = (scope: string): string => `${scope}_${Crypto.randomUUID()}`;
+
+export const idempotencyHeaders = (idempotencyKey?: string): Record<string, string> =>
+  idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : {};
+
+export interface IdempotentAttempt {
+  key: string;
+  fingerprint: string;
+}
+
+/**
+ * Reuse the previous attempt's key while the request is unchanged (a retry);
+ * any change to the request content starts a new logical mutation with a new key.
+ */
+export const keyForAttempt = (
+  previous: IdempotentAttempt | null,
+  scope: string,
+  fingerprint: string
+): IdempotentAttempt =>
+  previous && previous.fingerprint === fingerprint
+    ? previous
+    : { key: createIdempotencyKey(scope), fingerprint };
@@ -0,0 +1,60 @@
+// utils/jwt.ts - Minimal JWT payload decoding for client-side expiry checks
+// NOTE: This does not verify signatures - the server remains the source of truth.
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  [key: string]: any;
+}
+
+/** base64url -> UTF-8 string, without relying on atob/Buffer being available */
+export const decodeBase64Url = (input: string): string => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of base64) {
+    if (char === '=') break;
+    const value = BASE64_CHARS.indexOf(char);
+    if (value === -1) throw new Error('Invalid base64 character');
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return decodeURIComponent(bytes.map(byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+};
+
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    return JSON.parse(decodeBase64Url(parts[1]));
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Expiry time in ms since epoch, or null for opaque / non-expiring tokens
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = decodeJwtPayload(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+};
+
+/**
+ * True when the token expires within `skewMs`. Tokens without `exp` are treated as valid.
+ */
+export const isTokenExpired = (token: string, skewMs: number = 0): boolean => {
+  const expiry = getTokenExpiry(token);
+  if (expiry === null) return false;
+  return Date.now() + skewMs >= expiry;
+};
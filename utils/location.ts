@@ -0,0 +1,186 @@
+// utils/location.ts - User position, zone distances and directions links
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { Linking, Platform } from 'react-native';
+
+const STORAGE_KEY = 'userLocation:v1';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface UserLocation {
+  coords: Coordinates;
+  /** City or postcode shown to the user */
+  label: string;
+  source: 'device' | 'manual';
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Zones store GeoJSON points ([longitude, latitude]). formatGameZone fills missing
+ * coordinates with [0, 0], which is treated as unknown.
+ */
+export const zoneCoordinates = (zone: {
+  location?: { coordinates?: { coordinates?: number[] } };
+}): Coordinates | null => {
+  const point = zone.location?.coordinates?.coordinates;
+  if (!point || point.length < 2) return null;
+  const [longitude, latitude] = point;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+  if (latitude === 0 && longitude === 0) return null;
+  return { latitude, longitude };
+};
+
+/** Great-circle distance in kilometres */
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.max(50, Math.round((km * 1000) / 50) * 50)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+};
+
+/** Distance from `origin` to the zone, or null when either position is unknown */
+export const zoneDistanceKm = (
+  origin: Coordinates | null | undefined,
+  zone: Parameters<typeof zoneCoordinates>[0]
+): number | null => {
+  const coords = zoneCoordinates(zone);
+  return origin && coords ? distanceKm(origin, coords) : null;
+};
+
+const describePlace = (place?: Location.LocationGeocodedAddress): string | null => {
+  if (!place) return null;
+  return place.city || place.district || place.subregion || place.postalCode || place.region || null;
+};
+
+/**
+ * The device's position, asking for permission if needed. Returns null when the
+ * user declines; the caller should offer the manual city/postcode entry instead.
+ */
+export const getDeviceLocation = async (): Promise<UserLocation | null> => {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    console.log('📍 Location permission not granted:', status);
+    return null;
+  }
+
+  const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+  const coords = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+
+  let label = 'Current location';
+  try {
+    const [place] = await Location.reverseGeocodeAsync(coords);
+    label = describePlace(place) || label;
+  } catch (error) {
+    console.warn('⚠️ Reverse geocoding failed:', error);
+  }
+
+  return { coords, label, source: 'device' };
+};
+
+/** True when the user already granted location access, so it can be used without a prompt */
+export const hasLocationPermission = async (): Promise<boolean> => {
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    return status === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+/** Resolve a typed city or postcode; null when nothing matches */
+export const geocodePlace = async (query: string): Promise<UserLocation | null> => {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+
+  const [match] = await Location.geocodeAsync(trimmed);
+  if (!match) return null;
+
+  return {
+    coords: { latitude: match.latitude, longitude: match.longitude },
+    label: trimmed,
+    source: 'manual',
+  };
+};
+
+/** A manually entered location is remembered; the device position is re-read each session */
+export const loadSavedLocation = async (): Promise<UserLocation | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.warn('⚠️ Could not read saved location:', error);
+    return null;
+  }
+};
+
+export const saveLocation = async (location: UserLocation | null): Promise<void> => {
+  try {
+    if (location?.source === 'manual') {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(location));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not save location:', error);
+  }
+};
+
+interface DirectionsTarget {
+  name: string;
+  location: {
+    address: string;
+    city?: string;
+    state?: string;
+    coordinates?: { coordinates?: number[] };
+  };
+}
+
+/**
+ * Platform maps URL to the zone: Apple Maps on iOS, a geo: intent (any maps app) on
+ * Android. Falls back to the address when the zone has no coordinates.
+ */
+export const buildDirectionsUrl = (zone: DirectionsTarget): string => {
+  const coords = zoneCoordinates(zone);
+  const address = [zone.location.address, zone.location.city, zone.location.state].filter(Boolean).join(', ');
+  const destination = coords ? `${coords.latitude},${coords.longitude}` : address;
+
+  if (Platform.OS === 'ios') {
+    return `http://maps.apple.com/?daddr=${encodeURIComponent(destination)}&q=${encodeURIComponent(zone.name)}`;
+  }
+  if (Platform.OS === 'android') {
+    return coords
+      ? `geo:${destination}?q=${destination}(${encodeURIComponent(zone.name)})`
+      : `geo:0,0?q=${encodeURIComponent(address)}`;
+  }
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`;
+};
+
+export const openDirections = async (zone: DirectionsTarget): Promise<void> => {
+  const url = buildDirectionsUrl(zone);
+  const canOpen = await Linking.canOpenURL(url).catch(() => false);
+  if (canOpen) {
+    await Linking.openURL(url);
+    return;
+  }
+
+  // No maps app registered for the scheme; the browser can always take the web link
+  const coords = zoneCoordinates(zone);
+  const destination = coords
+    ? `${coords.latitude},${coords.longitude}`
+    : [zone.location.address, zone.location.city, zone.location.state].filter(Boolean).join(', ');
+  await Linking.openURL(`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`);
+};
@@ -0,0 +1,316 @@
+// utils/pricing.ts - Itemised booking quotes from a zone's rate rules, discounts, fees and taxes
+import apiService, { PromoCode, Station } from '../services/api';
+import { toMinutes } from './availability';
+import { getBookingStart } from './reschedule';
+
+/** An hourly rate for part of the week; `days` are 0 (Sunday) to 6, `start`/`end` are HH:MM */
+export interface RateBand {
+  label: string;
+  pricePerHour: number;
+  days?: number[];
+  start?: string;
+  end?: string;
+}
+
+export interface HolidayRate {
+  /** YYYY-MM-DD */
+  date: string;
+  label: string;
+  pricePerHour: number;
+}
+
+/** Booking at least `minHours` takes `percent` off the hourly charges */
+export interface DurationDiscount {
+  minHours: number;
+  percent: number;
+}
+
+export interface PerPlayerPricing {
+  /** Players covered by the hourly rate */
+  includedPlayers: number;
+  pricePerExtraPlayerPerHour: number;
+  maxPlayers?: number;
+}
+
+export interface PricingRules {
+  basePricePerHour: number;
+  weekendPricePerHour?: number;
+  /** Checked in order; the first band covering an hour sets its rate */
+  bands: RateBand[];
+  holidays: HolidayRate[];
+  /** Most generous first */
+  durationDiscounts: DurationDiscount[];
+  perPlayer?: PerPlayerPricing;
+  serviceFee: { flat: number; percent: number };
+  taxPercent: number;
+}
+
+export type PriceLineKind = 'rate' | 'players' | 'discount' | 'promo' | 'fee' | 'tax';
+
+export interface PriceLine {
+  kind: PriceLineKind;
+  label: string;
+  /** Negative for discounts */
+  amount: number;
+}
+
+export interface PriceQuote {
+  lines: PriceLine[];
+  /** Hourly and player charges before discounts */
+  subtotal: number;
+  discount: number;
+  promoDiscount: number;
+  promoCode?: string;
+  fees: number;
+  tax: number;
+  total: number;
+}
+
+export interface QuoteRequest {
+  date: string;
+  timeSlot: string;
+  duration: number;
+  players?: number;
+  /** Stations being reserved; each is charged separately */
+  stations?: Pick<Station, 'name' | 'pricePerHour'>[];
+}
+
+const WEEKEND_DAYS = [0, 6];
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const isNumber = (value: any): value is number => typeof value === 'number' && !isNaN(value);
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+/**
+ * Build rules from the zone's `pricing`, dropping malformed entries. A zone without
+ * pricing rules charges its flat `pricePerHour` with no fees or taxes.
+ */
+export const normalizePricingRules = (raw: any, pricePerHour: number): PricingRules => ({
+  basePricePerHour: isNumber(raw?.basePricePerHour) ? raw.basePricePerHour : pricePerHour,
+  weekendPricePerHour: isNumber(raw?.weekendPricePerHour) ? raw.weekendPricePerHour : undefined,
+  bands: Array.isArray(raw?.bands)
+    ? raw.bands
+        .filter((band: any) => isNumber(band?.pricePerHour))
+        .map((band: any) => ({
+          label: band.label || 'Special rate',
+          pricePerHour: band.pricePerHour,
+          days: Array.isArray(band.days) ? band.days : undefined,
+          start: band.start,
+          end: band.end,
+        }))
+    : [],
+  holidays: Array.isArray(raw?.holidays)
+    ? raw.holidays
+        .filter((holiday: any) => typeof holiday?.date === 'string' && isNumber(holiday?.pricePerHour))
+        .map((holiday: any) => ({
+          date: holiday.date.split('T')[0],
+          label: holiday.label || 'Holiday rate',
+          pricePerHour: holiday.pricePerHour,
+        }))
+    : [],
+  durationDiscounts: Array.isArray(raw?.durationDiscounts)
+    ? raw.durationDiscounts
+        .filter((discount: any) => isNumber(discount?.minHours) && isNumber(discount?.percent))
+        .map((discount: any) => ({ minHours: discount.minHours, percent: clampPercent(discount.percent) }))
+        .sort((a: DurationDiscount, b: DurationDiscount) => b.minHours - a.minHours)
+    : [],
+  perPlayer: isNumber(raw?.perPlayer?.pricePerExtraPlayerPerHour)
+    ? {
+        includedPlayers: Math.max(1, raw.perPlayer.includedPlayers ?? 1),
+        pricePerExtraPlayerPerHour: raw.perPlayer.pricePerExtraPlayerPerHour,
+        maxPlayers: isNumber(raw.perPlayer.maxPlayers) ? raw.perPlayer.maxPlayers : undefined,
+      }
+    : undefined,
+  serviceFee: {
+    flat: isNumber(raw?.serviceFee?.flat) ? Math.max(0, raw.serviceFee.flat) : 0,
+    percent: isNumber(raw?.serviceFee?.percent) ? clampPercent(raw.serviceFee.percent) : 0,
+  },
+  taxPercent: isNumber(raw?.taxPercent) ? clampPercent(raw.taxPercent) : 0,
+});
+
+export const pricingRulesForZone = (zone: { pricePerHour: number; pricing?: any }): PricingRules =>
+  normalizePricingRules(zone.pricing, zone.pricePerHour);
+
+const bandCovers = (band: RateBand, day: number, minutes: number): boolean => {
+  if (band.days && !band.days.includes(day)) return false;
+  if (band.start && minutes < toMinutes(band.start)) return false;
+  if (band.end && minutes >= toMinutes(band.end)) return false;
+  return true;
+};
+
+/** The rate for the hour starting at `hourStart`: holiday, then band, then weekend, then base */
+export const rateForHour = (rules: PricingRules, hourStart: Date): { label: string; pricePerHour: number } => {
+  const holiday = rules.holidays.find(item => item.date === toDateString(hourStart));
+  if (holiday) {
+    return { label: holiday.label, pricePerHour: holiday.pricePerHour };
+  }
+
+  const day = hourStart.getDay();
+  const minutes = hourStart.getHours() * 60 + hourStart.getMinutes();
+  const band = rules.bands.find(item => bandCovers(item, day, minutes));
+  if (band) {
+    return { label: band.label, pricePerHour: band.pricePerHour };
+  }
+
+  if (rules.weekendPricePerHour !== undefined && WEEKEND_DAYS.includes(day)) {
+    return { label: 'Weekend rate', pricePerHour: rules.weekendPricePerHour };
+  }
+  return { label: 'Standard rate', pricePerHour: rules.basePricePerHour };
+};
+
+/** What `promo` takes off `amount`; nothing when the minimum spend isn't met */
+export const promoDiscountFor = (promo: PromoCode, amount: number): number => {
+  if (promo.minSpend !== undefined && amount < promo.minSpend) return 0;
+  const discount = promo.type === 'percentage'
+    ? (amount * clampPercent(promo.value)) / 100
+    : promo.value;
+  const capped = promo.maxDiscount !== undefined ? Math.min(discount, promo.maxDiscount) : discount;
+  return roundMoney(Math.min(Math.max(0, capped), amount));
+};
+
+/**
+ * The promo a booking was charged with, as the fixed amount it actually took off, so
+ * quoting a moved booking keeps the discount instead of charging it back.
+ */
+export const promoForBooking = (booking: {
+  promoCode?: string;
+  discountAmount?: number;
+  priceBreakdown?: PriceQuote;
+}): PromoCode | undefined => {
+  const code = booking.priceBreakdown?.promoCode || booking.promoCode;
+  const amount = booking.priceBreakdown?.promoDiscount ?? booking.discountAmount;
+  return code && amount && amount > 0 ? { code, type: 'fixed', value: amount } : undefined;
+};
+
+/**
+ * Price a booking hour by hour. Consecutive hours at the same rate share a line;
+ * stations with their own rate get a line each, and the rest are charged the zone's
+ * rates once per station. The duration discount applies to hourly and player charges, then any promo code,
+ * the service fee to the discounted amount, and tax to everything. The server quotes
+ * authoritatively.
+ */
+export const quoteBooking = (request: QuoteRequest, rules: PricingRules, promo?: PromoCode): PriceQuote => {
+  const lines: PriceLine[] = [];
+  const start = getBookingStart(request.date, request.timeSlot);
+
+  const stations = request.stations || [];
+  const fixedRateStations = stations.filter(station => station.pricePerHour !== undefined);
+  // Whole-zone bookings pay the zone rate once
+  const zoneRateUnits = stations.length > 0 ? stations.length - fixedRateStations.length : 1;
+
+  let hourlyTotal = 0;
+  let current: { label: string; pricePerHour: number; hours: number } | null = null;
+  const flush = () => {
+    if (!current) return;
+    const amount = roundMoney(current.pricePerHour * current.hours * zoneRateUnits);
+    lines.push({
+      kind: 'rate',
+      label: `${current.label}: ${current.hours}h × $${current.pricePerHour}${zoneRateUnits > 1 ? ` × ${zoneRateUnits} stations` : ''}`,
+      amount,
+    });
+    hourlyTotal += amount;
+  };
+
+  if (zoneRateUnits > 0) {
+    for (let hour = 0; hour < request.duration; hour++) {
+      const hourStart = new Date(start.getTime() + hour * 60 * 60 * 1000);
+      const rate = rateForHour(rules, hourStart);
+      if (current && current.label === rate.label && current.pricePerHour === rate.pricePerHour) {
+        current.hours += 1;
+      } else {
+        flush();
+        current = { ...rate, hours: 1 };
+      }
+    }
+    flush();
+  }
+
+  fixedRateStations.forEach(station => {
+    const amount = roundMoney(station.pricePerHour! * request.duration);
+    lines.push({
+      kind: 'rate',
+      label: `${station.name}: ${request.duration}h × $${station.pricePerHour}`,
+      amount,
+    });
+    hourlyTotal += amount;
+  });
+
+  let playerTotal = 0;
+  const extraPlayers = rules.perPlayer ? Math.max(0, (request.players || 1) - rules.perPlayer.includedPlayers) : 0;
+  if (rules.perPlayer && extraPlayers > 0) {
+    playerTotal = roundMoney(extraPlayers * rules.perPlayer.pricePerExtraPlayerPerHour * request.duration);
+    lines.push({
+      kind: 'players',
+      label: `${extraPlayers} extra player${extraPlayers === 1 ? '' : 's'}: ${request.duration}h × $${rules.perPlayer.pricePerExtraPlayerPerHour}`,
+      amount: playerTotal,
+    });
+  }
+
+  const subtotal = roundMoney(hourlyTotal + playerTotal);
+
+  const durationDiscount = rules.durationDiscounts.find(item => request.duration >= item.minHours);
+  const discount = durationDiscount ? roundMoney((subtotal * durationDiscount.percent) / 100) : 0;
+  if (durationDiscount && discount > 0) {
+    lines.push({
+      kind: 'discount',
+      label: `${durationDiscount.minHours}h+ discount (${durationDiscount.percent}%)`,
+      amount: -discount,
+    });
+  }
+
+  const afterDiscount = roundMoney(subtotal - discount);
+  const promoDiscount = promo ? promoDiscountFor(promo, afterDiscount) : 0;
+  if (promo && promoDiscount > 0) {
+    lines.push({ kind: 'promo', label: `Promo ${promo.code}`, amount: -promoDiscount });
+  }
+
+  const discounted = roundMoney(afterDiscount - promoDiscount);
+  const fees = roundMoney(rules.serviceFee.flat + (discounted * rules.serviceFee.percent) / 100);
+  if (fees > 0) {
+    lines.push({ kind: 'fee', label: 'Service fee', amount: fees });
+  }
+
+  const tax = roundMoney(((discounted + fees) * rules.taxPercent) / 100);
+  if (tax > 0) {
+    lines.push({ kind: 'tax', label: `Tax (${rules.taxPercent}%)`, amount: tax });
+  }
+
+  return {
+    lines,
+    subtotal,
+    discount,
+    promoDiscount,
+    promoCode: promoDiscount > 0 ? promo!.code : undefined,
+    fees,
+    tax,
+    total: roundMoney(discounted + fees + tax),
+  };
+};
+
+/** "$12.50", or "-$5" for discounts */
+export const formatPrice = (amount: number): string =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2).replace(/\.00$/, '')}`;
+
+/** Receipt-style lines for share text and emails */
+export const describeQuote = (quote: PriceQuote): string[] => [
+  ...quote.lines.map(line => `${line.label}: ${formatPrice(line.amount)}`),
+  `Total: ${formatPrice(quote.total)}`,
+];
+
+/**
+ * The pricing rules for a zone, falling back to its flat rate if the zone can't be loaded.
+ */
+export const fetchPricingRules = async (zoneId: string, pricePerHour: number): Promise<PricingRules> => {
+  try {
+    const zone = await apiService.getGameZone(zoneId);
+    return pricingRulesForZone(zone);
+  } catch (error) {
+    console.warn('⚠️ Could not load pricing rules, using flat rate:', error);
+    return normalizePricingRules(undefined, pricePerHour);
+  }
+};
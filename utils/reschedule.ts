@@ -0,0 +1,70 @@
+// utils/reschedule.ts - Reschedule eligibility and price difference rules
+import { toMinutes } from './availability';
+
+/** Used when the vendor hasn't configured a cut-off for the zone */
+export const DEFAULT_RESCHEDULE_CUTOFF_HOURS = 24;
+
+const RESCHEDULABLE_STATUSES = ['pending', 'confirmed'];
+
+export interface RescheduleEligibility {
+  allowed: boolean;
+  reason?: string;
+  /** Last moment the booking can still be moved */
+  deadline: Date;
+}
+
+export interface PriceDifference {
+  newTotal: number;
+  /** newTotal - originalTotal; positive is charged, negative is refunded */
+  difference: number;
+  kind: 'charge' | 'refund' | 'none';
+}
+
+/**
+ * Vendors set `reschedulePolicy.cutoffHours` on the zone; 0 allows moving right up to the start.
+ */
+export const getRescheduleCutoffHours = (zone?: { reschedulePolicy?: { cutoffHours?: number } } | null): number => {
+  const cutoff = zone?.reschedulePolicy?.cutoffHours;
+  return typeof cutoff === 'number' && cutoff >= 0 ? cutoff : DEFAULT_RESCHEDULE_CUTOFF_HOURS;
+};
+
+// Local time, matching how the slot picker shows times
+export const getBookingStart = (date: string, timeSlot: string): Date => {
+  const [year, month, day] = date.split('T')[0].split('-').map(part => parseInt(part, 10));
+  const minutes = toMinutes(timeSlot);
+  return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+};
+
+export const checkRescheduleAllowed = (
+  booking: { status: string; date: string; timeSlot: string },
+  cutoffHours: number,
+  now: Date = new Date()
+): RescheduleEligibility => {
+  const start = getBookingStart(booking.date, booking.timeSlot);
+  const deadline = new Date(start.getTime() - cutoffHours * 60 * 60 * 1000);
+
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return { allowed: false, reason: `A ${booking.status} booking can't be rescheduled.`, deadline };
+  }
+  if (now >= start) {
+    return { allowed: false, reason: 'This booking has already started.', deadline };
+  }
+  if (now > deadline) {
+    return {
+      allowed: false,
+      reason: `Bookings at this zone can only be rescheduled up to ${cutoffHours} hour${cutoffHours === 1 ? '' : 's'} before they start.`,
+      deadline,
+    };
+  }
+  return { allowed: true, deadline };
+};
+
+/** `newTotal` is the pricing engine's quote for the new slot (see utils/pricing) */
+export const calculatePriceDifference = (originalTotal: number, newTotal: number): PriceDifference => {
+  const difference = Math.round((newTotal - originalTotal) * 100) / 100;
+  return {
+    newTotal,
+    difference,
+    kind: difference > 0 ? 'charge' : difference < 0 ? 'refund' : 'none',
+  };
+};
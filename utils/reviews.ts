@@ -0,0 +1,44 @@
+// utils/reviews.ts - Review sub-scores, report reasons and validation
+import type { ReviewInput, ReviewSubScores } from '../services/api';
+
+export const MAX_REVIEW_LENGTH = 1000;
+export const MAX_REPLY_LENGTH = 500;
+
+export const SUB_SCORE_OPTIONS: { key: keyof ReviewSubScores; label: string }[] = [
+  { key: 'equipment', label: 'Equipment' },
+  { key: 'cleanliness', label: 'Cleanliness' },
+  { key: 'staff', label: 'Staff' },
+  { key: 'value', label: 'Value' },
+];
+
+export const REPORT_REASONS: { value: string; label: string }[] = [
+  { value: 'abusive', label: 'Abusive or hateful' },
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'off_topic', label: 'Not about this zone' },
+  { value: 'personal_info', label: 'Shares personal information' },
+  { value: 'fake', label: 'Fake or misleading' },
+];
+
+/** Only finished visits can be reviewed, once */
+export const canReviewBooking = (booking: { status: string; reviewId?: string }): boolean =>
+  booking.status === 'completed' && !booking.reviewId;
+
+/** Why the review can't be submitted yet, or null when it's ready */
+export const validateReview = (input: ReviewInput): string | null => {
+  if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+    return 'Choose a star rating.';
+  }
+  if (input.comment.trim().length > MAX_REVIEW_LENGTH) {
+    return `Reviews can be up to ${MAX_REVIEW_LENGTH} characters.`;
+  }
+  return null;
+};
+
+/** Drop sub-scores the user left unset so they aren't sent as zeros */
+export const cleanSubScores = (subScores: ReviewSubScores): ReviewSubScores | undefined => {
+  const entries = Object.entries(subScores).filter(([, score]) => typeof score === 'number' && score >= 1 && score <= 5);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+export const formatReviewDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
@@ -0,0 +1,74 @@
+// utils/savedZones.ts - Device-stored zone lists: signed-out favorites and recently viewed
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const FAVORITES_KEY = 'favorites:v1';
+const RECENT_KEY = 'recentZones:v1';
+
+export const MAX_RECENT_ZONES = 10;
+
+/** Enough of a zone to render a card without fetching it */
+export interface ZoneSummary {
+  _id: string;
+  name: string;
+  images: string[];
+  pricePerHour: number;
+  rating?: number;
+  location: {
+    address: string;
+    city?: string;
+    state?: string;
+  };
+}
+
+export const toZoneSummary = (zone: ZoneSummary): ZoneSummary => ({
+  _id: zone._id,
+  name: zone.name,
+  images: zone.images?.slice(0, 1) || [],
+  pricePerHour: zone.pricePerHour,
+  rating: zone.rating,
+  location: {
+    address: zone.location?.address || '',
+    city: zone.location?.city,
+    state: zone.location?.state,
+  },
+});
+
+const readList = async (key: string): Promise<ZoneSummary[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn(`⚠️ Could not read ${key}:`, error);
+    return [];
+  }
+};
+
+const writeList = async (key: string, zones: ZoneSummary[]): Promise<void> => {
+  try {
+    if (zones.length > 0) {
+      await AsyncStorage.setItem(key, JSON.stringify(zones));
+    } else {
+      await AsyncStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not save ${key}:`, error);
+  }
+};
+
+/** Favorites saved while signed out; merged into the account on login */
+export const loadLocalFavorites = () => readList(FAVORITES_KEY);
+
+export const saveLocalFavorites = (zones: ZoneSummary[]) => writeList(FAVORITES_KEY, zones);
+
+export const loadRecentZones = () => readList(RECENT_KEY);
+
+/** Move the zone to the front of the recently viewed list; returns the new list */
+export const recordRecentZone = async (zone: ZoneSummary): Promise<ZoneSummary[]> => {
+  const current = await loadRecentZones();
+  const next = [toZoneSummary(zone), ...current.filter(item => item._id !== zone._id)].slice(0, MAX_RECENT_ZONES);
+  await writeList(RECENT_KEY, next);
+  return next;
+};
+
+export const clearRecentZones = () => writeList(RECENT_KEY, []);
@@ -0,0 +1,139 @@
+// utils/stations.ts - Station inventory model: normalisation, type metadata and vendor form checks
+import type { EquipmentCounts, Station, StationInput, StationType } from '../services/api';
+
+export interface StationTypeInfo {
+  value: StationType;
+  label: string;
+  pluralLabel: string;
+  /** Ionicons glyph */
+  icon: string;
+}
+
+export const STATION_TYPES: StationTypeInfo[] = [
+  { value: 'pc', label: 'Gaming PC', pluralLabel: 'Gaming PCs', icon: 'desktop-outline' },
+  { value: 'console', label: 'Console', pluralLabel: 'Consoles', icon: 'game-controller-outline' },
+  { value: 'vr', label: 'VR Rig', pluralLabel: 'VR Rigs', icon: 'glasses-outline' },
+  { value: 'arcade', label: 'Arcade Machine', pluralLabel: 'Arcade Machines', icon: 'flash-outline' },
+  { value: 'simulator', label: 'Simulator', pluralLabel: 'Simulators', icon: 'car-sport-outline' },
+  { value: 'other', label: 'Other', pluralLabel: 'Other Stations', icon: 'cube-outline' },
+];
+
+export const MAX_STATION_NAME_LENGTH = 40;
+
+/**
+ * What the customer is booking. `any` is the zone as a whole (zones without an
+ * inventory only support this); `type` lets the server pick free stations of a kind.
+ */
+export type StationSelection =
+  | { mode: 'any' }
+  | { mode: 'type'; type: StationType; count: number }
+  | { mode: 'stations'; stationIds: string[] };
+
+export const stationTypeInfo = (type: StationType): StationTypeInfo =>
+  STATION_TYPES.find(item => item.value === type) || STATION_TYPES[STATION_TYPES.length - 1];
+
+const isStationType = (value: any): value is StationType =>
+  STATION_TYPES.some(item => item.value === value);
+
+/**
+ * Clean a server station list, dropping entries without an id or name. Customers only
+ * see active stations; the vendor inventory passes `includeInactive`.
+ */
+export const normalizeStations = (raw: any, includeInactive: boolean = false): Station[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((item: any) => item?._id && item?.name)
+    .map((item: any): Station => ({
+      _id: item._id,
+      name: item.name,
+      type: isStationType(item.type) ? item.type : 'other',
+      platform: item.platform || undefined,
+      specs: item.specs || undefined,
+      games: Array.isArray(item.games)
+        ? item.games.filter((game: any) => typeof game === 'string' && game.trim()).map((game: string) => game.trim())
+        : [],
+      pricePerHour: typeof item.pricePerHour === 'number' && item.pricePerHour >= 0 ? item.pricePerHour : undefined,
+      isActive: item.isActive !== false,
+    }))
+    .filter(station => includeInactive || station.isActive);
+};
+
+/** Headline equipment counts, from the station inventory when the zone has one */
+export const normalizeEquipment = (raw: any, rawStations?: any): EquipmentCounts | undefined => {
+  const stations = normalizeStations(rawStations);
+  if (stations.length > 0) {
+    const count = (type: StationType) => stations.filter(station => station.type === type).length;
+    return { pcs: count('pc'), consoles: count('console'), vrHeadsets: count('vr'), arcadeMachines: count('arcade') };
+  }
+
+  if (!raw || typeof raw !== 'object') return undefined;
+  const number = (value: any) => (typeof value === 'number' && value > 0 ? value : 0);
+  return {
+    pcs: number(raw.pcs),
+    consoles: number(raw.consoles),
+    vrHeadsets: number(raw.vrHeadsets),
+    arcadeMachines: number(raw.arcadeMachines),
+  };
+};
+
+export interface StationTypeSummary extends StationTypeInfo {
+  count: number;
+  /** Cheapest station-specific rate, if any station of the type has one */
+  fromPrice?: number;
+}
+
+/** Stations grouped by type, in STATION_TYPES order */
+export const summarizeStationTypes = (stations: Station[]): StationTypeSummary[] =>
+  STATION_TYPES
+    .map(info => {
+      const ofType = stations.filter(station => station.type === info.value);
+      const prices = ofType
+        .map(station => station.pricePerHour)
+        .filter((price): price is number => price !== undefined);
+      return {
+        ...info,
+        count: ofType.length,
+        fromPrice: prices.length > 0 ? Math.min(...prices) : undefined,
+      };
+    })
+    .filter(summary => summary.count > 0);
+
+/** How many stations the selection books; 0 for the whole-zone `any` */
+export const selectionSize = (selection: StationSelection): number => {
+  if (selection.mode === 'type') return selection.count;
+  if (selection.mode === 'stations') return selection.stationIds.length;
+  return 0;
+};
+
+/** "FIFA 24, Fortnite" from comma- or line-separated text, without duplicates */
+export const parseGamesList = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text
+    .split(/[,\n]/)
+    .map(game => game.trim())
+    .filter(game => {
+      const key = game.toLowerCase();
+      if (!game || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/** Why the vendor's station form can't be saved yet, or null when it's ready */
+export const validateStation = (input: StationInput, existing: Station[] = [], editingId?: string): string | null => {
+  const name = input.name.trim();
+  if (!name) {
+    return 'Give the station a name, e.g. "PC 1".';
+  }
+  if (name.length > MAX_STATION_NAME_LENGTH) {
+    return `Station names can be up to ${MAX_STATION_NAME_LENGTH} characters.`;
+  }
+  if (existing.some(station => station._id !== editingId && station.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `There's already a station called "${name}".`;
+  }
+  if (input.pricePerHour !== undefined && (isNaN(input.pricePerHour) || input.pricePerHour < 0)) {
+    return 'Enter a valid hourly price, or leave it blank to use the zone rate.';
+  }
+  return null;
+};
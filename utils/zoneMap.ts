@@ -0,0 +1,100 @@
+// utils/zoneMap.ts - Map regions and marker clustering for the zone map
+import type { GameZone } from '../services/api';
+import { Coordinates, distanceKm, zoneCoordinates } from './location';
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface ZoneCluster {
+  /** Stable while the same zones share a cell, so markers aren't remounted on every pan */
+  id: string;
+  coordinate: Coordinates;
+  zones: GameZone[];
+}
+
+/** Zones per map query; the map shows what's in view rather than paging */
+export const MAP_PAGE_SIZE = 100;
+
+/** Largest search radius the map asks for when zoomed far out */
+const MAX_REGION_RADIUS_KM = 500;
+
+/** The map is split into roughly this many cells across; zones sharing a cell are clustered */
+const CLUSTER_GRID_SIZE = 6;
+
+const MIN_REGION_DELTA = 0.01;
+
+/** Shown until the user's location is known */
+export const DEFAULT_REGION: MapRegion = {
+  latitude: 39.8283,
+  longitude: -98.5795,
+  latitudeDelta: 40,
+  longitudeDelta: 40,
+};
+
+export const regionAround = (center: Coordinates, radiusKm: number = 10): MapRegion => {
+  // One degree of latitude is ~111 km
+  const delta = (radiusKm * 2) / 111;
+  return { ...center, latitudeDelta: delta, longitudeDelta: delta };
+};
+
+/** Radius from the region's centre to its corner, so a circular query covers the visible area */
+export const regionRadiusKm = (region: MapRegion): number => {
+  const corner = {
+    latitude: region.latitude + region.latitudeDelta / 2,
+    longitude: region.longitude + region.longitudeDelta / 2,
+  };
+  return Math.min(MAX_REGION_RADIUS_KM, Math.ceil(distanceKm(region, corner)));
+};
+
+/**
+ * Group zones that would overlap at the current zoom. Zones without coordinates are
+ * left off the map.
+ */
+export const clusterZones = (zones: GameZone[], region: MapRegion): ZoneCluster[] => {
+  const cellLat = Math.max(region.latitudeDelta / CLUSTER_GRID_SIZE, Number.EPSILON);
+  const cellLng = Math.max(region.longitudeDelta / CLUSTER_GRID_SIZE, Number.EPSILON);
+  const cells = new Map<string, { zones: GameZone[]; coords: Coordinates[] }>();
+
+  zones.forEach(zone => {
+    const coords = zoneCoordinates(zone);
+    if (!coords) return;
+    const key = `${Math.floor(coords.latitude / cellLat)}:${Math.floor(coords.longitude / cellLng)}`;
+    const cell = cells.get(key) || { zones: [], coords: [] };
+    cell.zones.push(zone);
+    cell.coords.push(coords);
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells.values()).map(cell => ({
+    id: cell.zones.length === 1 ? cell.zones[0]._id : cell.zones.map(zone => zone._id).sort().join(','),
+    coordinate: {
+      latitude: cell.coords.reduce((sum, coords) => sum + coords.latitude, 0) / cell.coords.length,
+      longitude: cell.coords.reduce((sum, coords) => sum + coords.longitude, 0) / cell.coords.length,
+    },
+    zones: cell.zones,
+  }));
+};
+
+/** The region to zoom to when a cluster is tapped: its zones' bounds with some padding */
+export const regionForCluster = (cluster: ZoneCluster): MapRegion => {
+  const points = cluster.zones
+    .map(zone => zoneCoordinates(zone))
+    .filter((coords): coords is Coordinates => coords !== null);
+  const latitudes = points.map(coords => coords.latitude);
+  const longitudes = points.map(coords => coords.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.5, MIN_REGION_DELTA),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.5, MIN_REGION_DELTA),
+  };
+};
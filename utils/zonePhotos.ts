@@ -0,0 +1,75 @@
+// utils/zonePhotos.ts - Zone photo normalisation, ordering and upload file helpers
+import type { ZonePhoto } from '../services/api';
+
+export const MAX_ZONE_PHOTOS = 20;
+export const MAX_CAPTION_LENGTH = 120;
+
+export const DEFAULT_ZONE_IMAGE = 'https://images.unsplash.com/photo-1542751371-adc38448a05e?w=800&h=400&fit=crop';
+
+/**
+ * Server zones send `images` either as plain URLs (older zones) or as photo objects.
+ * Returns photos in display order with the cover first.
+ */
+export const normalizeZonePhotos = (raw: any): ZonePhoto[] => {
+  if (!Array.isArray(raw)) return [];
+
+  const photos = raw
+    .map((item: any, index: number) => {
+      if (typeof item === 'string') {
+        return item ? { _id: item, url: item, order: index } : null;
+      }
+      const url = item?.url || item?.uri;
+      if (!url) return null;
+      return {
+        _id: item._id || url,
+        url,
+        thumbnailUrl: item.thumbnailUrl || undefined,
+        caption: item.caption || undefined,
+        isCover: !!item.isCover,
+        order: typeof item.order === 'number' ? item.order : index,
+      };
+    })
+    .filter(Boolean) as (ZonePhoto & { order: number })[];
+
+  return photos
+    .sort((a, b) => Number(!!b.isCover) - Number(!!a.isCover) || a.order - b.order)
+    .map(({ order, ...photo }) => photo);
+};
+
+/** Small rendition for strips and grids; falls back to the full image */
+export const photoThumbnail = (photo: ZonePhoto): string => photo.thumbnailUrl || photo.url;
+
+/** Copy of `items` with the entry at `from` moved to `to` */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export interface PhotoUploadFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+};
+
+/** Multipart file part for an image-picker asset; the picker omits name and type on some platforms */
+export const toPhotoUploadFile = (asset: { uri: string; fileName?: string | null; mimeType?: string | null }): PhotoUploadFile => {
+  const uriName = asset.uri.split('/').pop()?.split('?')[0] || '';
+  const name = asset.fileName || uriName || `photo-${Date.now()}.jpg`;
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return {
+    uri: asset.uri,
+    name,
+    type: asset.mimeType || EXTENSION_TYPES[extension] || 'image/jpeg',
+  };
+};
@@ -0,0 +1,132 @@
+// utils/zoneSearch.ts - Game zone search filters, sort options and their query params
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'zoneSearch:v1';
+
+export const ZONE_PAGE_SIZE = 20;
+
+export type ZoneSort = 'relevance' | 'price_asc' | 'price_desc' | 'rating' | 'distance' | 'popularity';
+
+export interface ZoneFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  amenities: string[];
+  gameTypes: string[];
+  minRating?: number;
+  minCapacity?: number;
+  openNow: boolean;
+  city?: string;
+  /** Only applies when the user has a location */
+  radiusKm?: number;
+}
+
+export interface SearchOrigin {
+  latitude: number;
+  longitude: number;
+}
+
+export const DEFAULT_ZONE_FILTERS: ZoneFilters = {
+  amenities: [],
+  gameTypes: [],
+  openNow: false,
+};
+
+export const SORT_OPTIONS: { value: ZoneSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'rating', label: 'Top rated' },
+  { value: 'distance', label: 'Nearest' },
+  { value: 'popularity', label: 'Most booked' },
+];
+
+export const AMENITY_OPTIONS = ['WiFi', 'Parking', 'Air Conditioning', 'Snacks', 'Drinks', 'Streaming Setup', 'Lounge'];
+
+export const GAME_TYPE_OPTIONS = ['PC', 'PlayStation', 'Xbox', 'Nintendo', 'VR', 'Racing Sim', 'Arcade'];
+
+export const RATING_OPTIONS = [3, 4, 4.5];
+
+export const CAPACITY_OPTIONS = [2, 4, 8];
+
+export const RADIUS_OPTIONS = [2, 5, 10, 25];
+
+const SORT_PARAMS: Record<ZoneSort, { sortBy?: string; sortOrder?: 'asc' | 'desc' }> = {
+  relevance: {},
+  price_asc: { sortBy: 'pricePerHour', sortOrder: 'asc' },
+  price_desc: { sortBy: 'pricePerHour', sortOrder: 'desc' },
+  rating: { sortBy: 'rating', sortOrder: 'desc' },
+  distance: { sortBy: 'distance', sortOrder: 'asc' },
+  popularity: { sortBy: 'totalBookings', sortOrder: 'desc' },
+};
+
+/** Number of filters that differ from the defaults, for the filter button badge */
+export const countActiveFilters = (filters: ZoneFilters): number =>
+  [
+    filters.minPrice !== undefined || filters.maxPrice !== undefined,
+    filters.amenities.length > 0,
+    filters.gameTypes.length > 0,
+    filters.minRating !== undefined,
+    filters.minCapacity !== undefined,
+    filters.openNow,
+    !!filters.city?.trim(),
+    filters.radiusKm !== undefined,
+  ].filter(Boolean).length;
+
+/**
+ * Query params for `getGameZones`. Undefined values are dropped by the API client;
+ * distance sorting and the radius need an origin and are dropped without one.
+ */
+export const buildZoneSearchParams = (options: {
+  search: string;
+  filters: ZoneFilters;
+  sort: ZoneSort;
+  page: number;
+  limit?: number;
+  origin?: SearchOrigin | null;
+}): Record<string, string | number | undefined> => {
+  const { search, filters, sort, page, limit = ZONE_PAGE_SIZE, origin } = options;
+  const sortParams = sort === 'distance' && !origin ? {} : SORT_PARAMS[sort];
+
+  return {
+    page,
+    limit,
+    search: search.trim() || undefined,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+    amenities: filters.amenities.length > 0 ? filters.amenities.join(',') : undefined,
+    gameTypes: filters.gameTypes.length > 0 ? filters.gameTypes.join(',') : undefined,
+    minRating: filters.minRating,
+    minCapacity: filters.minCapacity,
+    openNow: filters.openNow ? 'true' : undefined,
+    city: filters.city?.trim() || undefined,
+    sortBy: sortParams.sortBy,
+    sortOrder: sortParams.sortOrder,
+    lat: origin?.latitude,
+    lng: origin?.longitude,
+    radius: origin ? filters.radiusKm : undefined,
+  };
+};
+
+/** The filters and sort from the last session; search text is not kept */
+export const loadSavedZoneSearch = async (): Promise<{ filters: ZoneFilters; sort: ZoneSort } | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const saved = JSON.parse(raw);
+    return {
+      filters: { ...DEFAULT_ZONE_FILTERS, ...saved.filters },
+      sort: SORT_OPTIONS.some(option => option.value === saved.sort) ? saved.sort : 'relevance',
+    };
+  } catch (error) {
+    console.warn('⚠️ Could not read saved zone filters:', error);
+    return null;
+  }
+};
+
+export const saveZoneSearch = async (filters: ZoneFilters, sort: ZoneSort): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ filters, sort }));
+  } catch (error) {
+    console.warn('⚠️ Could not save zone filters:', error);
+  }
+};